@@ -5,42 +5,68 @@
  * Self-Sovereign Identity (SSI) infrastructure, including ENS DID resolution.
  */
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
+import type { DIDDocument, VerificationMethod } from 'did-resolver';
 import {
-  resolveEnsDid,
+  resolveValidatedDid,
   resolveEnsAddress,
   getEnsTextRecords,
+  getEnsKeyHistory,
+  configureEnsCache,
+  invalidateEnsName,
   NOBLEPORT_ENS,
   ensNameToDid,
+  getIssuerTrustChain,
+  keyDidResolver,
 } from '../lib/ensDidResolver';
+import { WebStorageCacheStore } from '../lib/ensCache';
+import {
+  CredentialVerifier,
+  createCredentialVerifier,
+  type CredentialCheck,
+  type Inspection,
+} from '../lib/credentialVerifier';
+import type { DidValidationReport } from '../lib/didValidation';
+import type { KeyHistory } from '../lib/ensKeyHistory';
+import type { TrustChain } from '../lib/trustChain';
 
 // Types
-interface DIDDocument {
-  id: string;
-  verificationMethod?: Array<{
-    id: string;
-    type: string;
-    controller: string;
-    publicKeyHex?: string;
-    blockchainAccountId?: string;
-  }>;
-  authentication?: string[];
-  service?: Array<{
-    id: string;
-    type: string;
-    serviceEndpoint: string;
-  }>;
-  [key: string]: unknown;
-}
-
 interface ResolverState {
   loading: boolean;
   error: string | null;
+  ensName: string | null;
   didDocument: DIDDocument | null;
+  validation: DidValidationReport | null;
   address: string | null;
   textRecords: Record<string, string | null> | null;
 }
 
+interface KeyHistoryState {
+  loading: boolean;
+  error: string | null;
+  history: KeyHistory | null;
+}
+
+interface InspectorState {
+  loading: boolean;
+  error: string | null;
+  inspection: Inspection | null;
+  /** Keyed by issuer DID */
+  trustChains: Record<string, TrustChain>;
+}
+
+// Key or account a verification method carries, for display
+const methodKey = (method: VerificationMethod): string =>
+  method.blockchainAccountId ||
+  method.ethereumAddress ||
+  method.publicKeyHex ||
+  method.publicKeyMultibase ||
+  method.publicKeyBase58 ||
+  (method.publicKeyJwk ? JSON.stringify(method.publicKeyJwk) : '—');
+
+const shortValue = (value: string | null): string =>
+  !value ? '—' : value.length > 24 ? `${value.slice(0, 12)}…${value.slice(-8)}` : value;
+
 // Status Badge Component
 const StatusBadge: React.FC<{ status: 'active' | 'pending' | 'error' }> = ({ status }) => {
   const styles = {
@@ -68,25 +94,179 @@ const SectionCard: React.FC<{
   </div>
 );
 
+// Trust chain from an issuer up to nobleport.eth
+const TrustChainView: React.FC<{ chain: TrustChain | undefined }> = ({ chain }) => {
+  if (!chain) return <div className="text-xs text-slate-500">Trust chain unavailable</div>;
+
+  return (
+    <div className="space-y-1 text-xs">
+      <div className="flex items-center justify-between">
+        <span className="text-slate-500">Issuer Trust Chain</span>
+        <StatusBadge status={chain.anchored ? 'active' : 'error'} />
+      </div>
+      {chain.reason && <div className="text-rose-400">{chain.reason}</div>}
+      {chain.links.map(link => (
+        <div key={link.name} className="grid grid-cols-4 gap-2">
+          <span className="font-mono text-cyan-400 truncate">{link.name}</span>
+          <span className="font-mono text-slate-300 truncate">{shortValue(link.owner)}</span>
+          <span className={link.resolved ? 'text-emerald-400' : 'text-rose-400'}>
+            {link.resolved ? 'resolves' : 'no DID document'}
+          </span>
+          <span className={link.sameOwnerAsParent === false ? 'text-amber-400' : 'text-slate-500'}>
+            {link.sameOwnerAsParent === null ? 'root' : link.sameOwnerAsParent ? 'parent owner' : 'delegated owner'}
+            {link.wrapped && ' · wrapped'}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// Claims, validity, revocation and issuer chain of one credential
+const CredentialCheckView: React.FC<{ check: CredentialCheck; chain: TrustChain | undefined }> = ({ check, chain }) => {
+  // A pasted credential may decode without being well formed
+  const credential = check.credential;
+  const types: unknown[] = Array.isArray(credential?.type) ? credential!.type : [];
+  const subject = credential?.credentialSubject && typeof credential.credentialSubject === 'object'
+    ? credential.credentialSubject as Record<string, unknown>
+    : undefined;
+  const validFrom = typeof credential?.validFrom === 'string' ? credential.validFrom : '—';
+  const validUntil = typeof credential?.validUntil === 'string' ? credential.validUntil : '—';
+
+  return (
+    <div className="p-3 bg-slate-800/50 rounded-lg space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-slate-300 truncate">
+          {types.filter(type => typeof type === 'string' && type !== 'VerifiableCredential').join(', ') || 'Credential'}
+          <span className="ml-2 text-slate-500">{check.format}</span>
+        </span>
+        <StatusBadge status={check.verified ? 'active' : 'error'} />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-xs">
+        <div className="flex justify-between gap-2">
+          <span className="text-slate-500">Issuer</span>
+          <span className="font-mono text-slate-300 truncate">{check.issuer ?? '—'}</span>
+        </div>
+        <div className="flex justify-between gap-2">
+          <span className="text-slate-500">Subject</span>
+          <span className="font-mono text-slate-300 truncate">{String(subject?.id ?? '—')}</span>
+        </div>
+        <div className="flex justify-between gap-2">
+          <span className="text-slate-500">Valid From</span>
+          <span className="text-slate-300">{validFrom}</span>
+        </div>
+        <div className="flex justify-between gap-2">
+          <span className="text-slate-500">Valid Until</span>
+          <span className="text-slate-300">{validUntil}</span>
+        </div>
+        <div className="flex justify-between gap-2 col-span-2">
+          <span className="text-slate-500">Signed By</span>
+          <span className="font-mono text-slate-300 truncate">{check.keyId ?? '—'}</span>
+        </div>
+      </div>
+
+      {/* Revocation */}
+      <div className="text-xs">
+        <div className="text-slate-500 mb-1">Status</div>
+        {check.status.length === 0 ? (
+          <div className="text-slate-500">No status list entry</div>
+        ) : (
+          check.status.map(status => (
+            <div key={`${status.purpose}-${status.index}`} className="flex justify-between">
+              <span className="text-slate-400">{status.purpose} #{status.index}</span>
+              <span className={status.set ? 'text-rose-400' : 'text-emerald-400'}>
+                {status.set ? (status.purpose === 'revocation' ? 'revoked' : 'suspended') : 'not set'}
+              </span>
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Claims */}
+      {subject && (
+        <div className="text-xs">
+          <div className="text-slate-500 mb-1">Claims</div>
+          <div className="grid grid-cols-2 gap-2">
+            {Object.entries(subject).filter(([claim]) => claim !== 'id').map(([claim, value]) => (
+              <div key={claim} className="flex justify-between gap-2">
+                <span className="text-slate-500">{claim}</span>
+                <span className="text-slate-300 truncate">
+                  {typeof value === 'string' ? value : JSON.stringify(value)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {check.issues.length > 0 && (
+        <ul className="space-y-1 text-xs">
+          {check.issues.map((issue, i) => (
+            <li key={i} className="text-rose-400">
+              <span className="font-mono text-slate-500 mr-2">{issue.code}</span>
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {check.issuer && <TrustChainView chain={chain} />}
+    </div>
+  );
+};
+
+// Resolutions are cached in localStorage across page loads
+let persistentCacheConfigured = false;
+
+// Resolves issuers through the shared key resolver (which follows configureEnsNetwork)
+let credentialVerifier: CredentialVerifier | null = null;
+const getCredentialVerifier = (): CredentialVerifier =>
+  credentialVerifier ??= createCredentialVerifier({ resolve: (did) => keyDidResolver.resolve(did) });
+
 // Main Component
 const NoblePortSSIArchitecture: React.FC = () => {
   const [customEns, setCustomEns] = useState('');
   const [resolverState, setResolverState] = useState<ResolverState>({
     loading: false,
     error: null,
+    ensName: null,
     didDocument: null,
+    validation: null,
     address: null,
     textRecords: null,
   });
+  const [keyHistory, setKeyHistory] = useState<KeyHistoryState>({
+    loading: false,
+    error: null,
+    history: null,
+  });
+  const [credentialInput, setCredentialInput] = useState('');
+  const [inspector, setInspector] = useState<InspectorState>({
+    loading: false,
+    error: null,
+    inspection: null,
+    trustChains: {},
+  });
 
-  // Resolve DID Document
-  const handleResolveDid = useCallback(async (ensName: string) => {
+  useEffect(() => {
+    if (persistentCacheConfigured) return;
+    persistentCacheConfigured = true;
+    configureEnsCache({ store: new WebStorageCacheStore(window.localStorage) });
+  }, []);
+
+  // Resolve DID Document (refresh bypasses the cache)
+  const handleResolveDid = useCallback(async (ensName: string, refresh = false) => {
     setResolverState(prev => ({ ...prev, loading: true, error: null }));
+    setKeyHistory({ loading: false, error: null, history: null });
 
     try {
+      if (refresh) {
+        await invalidateEnsName(ensName);
+      }
       const did = ensNameToDid(ensName);
-      const [didDoc, address, textRecords] = await Promise.all([
-        resolveEnsDid(did),
+      const [{ didDocument, report }, address, textRecords] = await Promise.all([
+        resolveValidatedDid(did),
         resolveEnsAddress(ensName),
         getEnsTextRecords(ensName, ['url', 'email', 'description', 'com.twitter', 'com.github']),
       ]);
@@ -94,7 +274,9 @@ const NoblePortSSIArchitecture: React.FC = () => {
       setResolverState({
         loading: false,
         error: null,
-        didDocument: didDoc as DIDDocument | null,
+        ensName,
+        didDocument,
+        validation: report,
         address,
         textRecords,
       });
@@ -108,6 +290,52 @@ const NoblePortSSIArchitecture: React.FC = () => {
     }
   }, []);
 
+  // Load controller and key changes from ENS events
+  const handleLoadKeyHistory = useCallback(async (ensName: string) => {
+    setKeyHistory({ loading: true, error: null, history: null });
+    try {
+      const history = await getEnsKeyHistory(ensName);
+      setKeyHistory({ loading: false, error: null, history });
+    } catch (e: unknown) {
+      const errorMessage = e instanceof Error ? e.message : 'Failed to load key history';
+      setKeyHistory({ loading: false, error: errorMessage, history: null });
+    }
+  }, []);
+
+  // Decode and verify a pasted VC or VP (JWT or JSON-LD), then walk each issuer to nobleport.eth
+  const handleInspect = useCallback(async (input: string) => {
+    const text = input.trim();
+    if (!text) return;
+    setInspector({ loading: true, error: null, inspection: null, trustChains: {} });
+
+    try {
+      const inspection = await getCredentialVerifier().inspect(text.startsWith('{') ? JSON.parse(text) : text);
+      const checks = inspection.kind === 'credential' ? [inspection.credential] : inspection.presentation.credentials;
+      const issuers = Array.from(new Set(checks.map(check => check.issuer).filter((issuer): issuer is string => !!issuer)));
+      const chains = await Promise.all(issuers.map(issuer => getIssuerTrustChain(issuer).catch(() => null)));
+
+      setInspector({
+        loading: false,
+        error: null,
+        inspection,
+        trustChains: Object.fromEntries(
+          issuers.flatMap((issuer, i) => (chains[i] ? [[issuer, chains[i]]] : []))
+        ),
+      });
+    } catch (e: unknown) {
+      const errorMessage = e instanceof Error ? e.message : 'Failed to inspect credential';
+      setInspector({ loading: false, error: errorMessage, inspection: null, trustChains: {} });
+    }
+  }, []);
+
+  // Load a VC or VP from a file
+  const handleCredentialFile = useCallback(async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    setCredentialInput(text);
+    handleInspect(text);
+  }, [handleInspect]);
+
   // Resolve NoblePort root
   const handleResolveRoot = useCallback(() => {
     handleResolveDid(NOBLEPORT_ENS.ROOT);
@@ -207,6 +435,15 @@ const NoblePortSSIArchitecture: React.FC = () => {
               >
                 Resolve did:ens:etf.nobleport.eth
               </button>
+              {resolverState.ensName && (
+                <button
+                  onClick={() => handleResolveDid(resolverState.ensName!, true)}
+                  disabled={resolverState.loading}
+                  className="px-4 py-2 text-sm rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  Refresh {resolverState.ensName}
+                </button>
+              )}
             </div>
 
             {/* Custom ENS Input */}
@@ -273,13 +510,208 @@ const NoblePortSSIArchitecture: React.FC = () => {
                   </div>
                 )}
 
-                {/* DID Document */}
+                {/* Validation */}
+                {resolverState.validation && (
+                  <div className="p-3 bg-slate-800/50 rounded-lg">
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="text-xs text-slate-500">DID Document Validation</span>
+                      <StatusBadge status={resolverState.validation.valid ? 'active' : 'error'} />
+                    </div>
+                    {resolverState.validation.issues.length === 0 ? (
+                      <div className="text-xs text-emerald-400">No issues</div>
+                    ) : (
+                      <ul className="space-y-1 text-xs">
+                        {resolverState.validation.issues.map((issue, i) => (
+                          <li key={i} className={issue.severity === 'error' ? 'text-rose-400' : 'text-amber-400'}>
+                            <span className="font-mono text-slate-500 mr-2">{issue.path}</span>
+                            {issue.message}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+
+                {/* Verification Methods */}
+                <div className="p-3 bg-slate-800/50 rounded-lg">
+                  <div className="text-xs text-slate-500 mb-2">Verification Methods</div>
+                  <div className="space-y-2 text-xs">
+                    {(resolverState.didDocument.verificationMethod ?? []).map(method => (
+                      <div key={method.id} className="grid grid-cols-3 gap-2">
+                        <span className="font-mono text-cyan-400 truncate">#{method.id.split('#')[1] ?? method.id}</span>
+                        <span className="text-slate-400 truncate">{method.type}</span>
+                        <span className="font-mono text-slate-300 truncate">{methodKey(method)}</span>
+                      </div>
+                    ))}
+                    {!resolverState.didDocument.verificationMethod?.length && (
+                      <div className="text-slate-500">None</div>
+                    )}
+                  </div>
+                </div>
+
+                {/* Services */}
+                {!!resolverState.didDocument.service?.length && (
+                  <div className="p-3 bg-slate-800/50 rounded-lg">
+                    <div className="text-xs text-slate-500 mb-2">Services</div>
+                    <div className="space-y-1 text-xs">
+                      {resolverState.didDocument.service.map(service => (
+                        <div key={service.id} className="flex justify-between gap-2">
+                          <span className="text-slate-400">{String(service.type)}</span>
+                          <span className="font-mono text-slate-300 truncate">
+                            {typeof service.serviceEndpoint === 'string'
+                              ? service.serviceEndpoint
+                              : JSON.stringify(service.serviceEndpoint)}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Key History */}
                 <div className="p-3 bg-slate-800/50 rounded-lg">
-                  <div className="text-xs text-slate-500 mb-2">DID Document</div>
-                  <pre className="max-h-64 overflow-auto text-[10px] text-slate-300 font-mono bg-slate-950/80 p-3 rounded">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-xs text-slate-500">Key Rotation History</span>
+                    <button
+                      onClick={() => handleLoadKeyHistory(resolverState.ensName!)}
+                      disabled={keyHistory.loading}
+                      className="px-2 py-1 text-xs rounded bg-slate-700 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      {keyHistory.loading ? 'Loading…' : 'Load from ENS events'}
+                    </button>
+                  </div>
+                  {keyHistory.error && <div className="text-xs text-rose-400">{keyHistory.error}</div>}
+                  {keyHistory.history && (
+                    keyHistory.history.events.length === 0 ? (
+                      <div className="text-xs text-slate-500">No registry or resolver events</div>
+                    ) : (
+                      <div className="space-y-1 text-xs">
+                        {keyHistory.history.events.map(event => (
+                          <div key={`${event.blockNumber}-${event.logIndex}`} className="grid grid-cols-4 gap-2">
+                            <span className="text-slate-500">
+                              {event.timestamp ? new Date(event.timestamp * 1000).toISOString().slice(0, 10) : `#${event.blockNumber}`}
+                            </span>
+                            <span className={event.kind === 'owner' ? 'text-slate-400' : 'text-amber-400'}>{event.kind}</span>
+                            <span className="font-mono text-slate-500 truncate">{shortValue(event.previous)}</span>
+                            <span className="font-mono text-slate-300 truncate">
+                              {event.keyIds ? event.keyIds.join(', ') || '—' : shortValue(event.value)}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )
+                  )}
+                </div>
+
+                {/* DID Document */}
+                <details className="p-3 bg-slate-800/50 rounded-lg">
+                  <summary className="text-xs text-slate-500 cursor-pointer">DID Document (JSON)</summary>
+                  <pre className="mt-2 max-h-64 overflow-auto text-[10px] text-slate-300 font-mono bg-slate-950/80 p-3 rounded">
                     {JSON.stringify(resolverState.didDocument, null, 2)}
                   </pre>
+                </details>
+              </div>
+            )}
+          </div>
+        </SectionCard>
+
+        {/* Credential Inspector Section */}
+        <SectionCard title="Credential Inspector" className="mb-6">
+          <div className="space-y-4">
+            <textarea
+              value={credentialInput}
+              onChange={(e) => setCredentialInput(e.target.value)}
+              placeholder="Paste a VC or VP (JWT or JSON-LD)"
+              rows={5}
+              className="w-full px-3 py-2 text-xs font-mono bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-cyan-500"
+            />
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                onClick={() => handleInspect(credentialInput)}
+                disabled={inspector.loading || !credentialInput.trim()}
+                className="px-4 py-2 text-sm rounded-lg bg-cyan-600 hover:bg-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                Verify
+              </button>
+              <label className="px-4 py-2 text-sm rounded-lg bg-slate-700 hover:bg-slate-600 cursor-pointer transition-colors">
+                Upload file
+                <input
+                  type="file"
+                  accept=".jwt,.json,.txt,application/json"
+                  className="hidden"
+                  onChange={(e) => {
+                    handleCredentialFile(e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+            </div>
+
+            {/* Loading State */}
+            {inspector.loading && (
+              <div className="flex items-center gap-2 text-sm text-slate-400">
+                <div className="w-4 h-4 border-2 border-cyan-500 border-t-transparent rounded-full animate-spin" />
+                Verifying against issuer DIDs...
+              </div>
+            )}
+
+            {/* Error State */}
+            {inspector.error && (
+              <div className="p-3 bg-rose-500/10 border border-rose-500/30 rounded-lg text-sm text-rose-400">
+                {inspector.error}
+              </div>
+            )}
+
+            {/* Results */}
+            {inspector.inspection?.kind === 'credential' && (
+              <CredentialCheckView
+                check={inspector.inspection.credential}
+                chain={inspector.trustChains[inspector.inspection.credential.issuer ?? '']}
+              />
+            )}
+
+            {inspector.inspection?.kind === 'presentation' && (
+              <div className="space-y-4">
+                <div className="p-3 bg-slate-800/50 rounded-lg space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs text-slate-300">
+                      Verifiable Presentation
+                      <span className="ml-2 text-slate-500">{inspector.inspection.presentation.format}</span>
+                    </span>
+                    <StatusBadge status={inspector.inspection.presentation.verified ? 'active' : 'error'} />
+                  </div>
+                  <div className="grid grid-cols-2 gap-2 text-xs">
+                    <div className="flex justify-between gap-2">
+                      <span className="text-slate-500">Holder</span>
+                      <span className="font-mono text-slate-300 truncate">{inspector.inspection.presentation.holder}</span>
+                    </div>
+                    <div className="flex justify-between gap-2">
+                      <span className="text-slate-500">Signed By</span>
+                      <span className="font-mono text-slate-300 truncate">{inspector.inspection.presentation.keyId}</span>
+                    </div>
+                    <div className="flex justify-between gap-2">
+                      <span className="text-slate-500">Challenge</span>
+                      <span className="font-mono text-slate-300 truncate">{inspector.inspection.presentation.challenge ?? '—'}</span>
+                    </div>
+                    <div className="flex justify-between gap-2">
+                      <span className="text-slate-500">Domain</span>
+                      <span className="font-mono text-slate-300 truncate">{inspector.inspection.presentation.domain ?? '—'}</span>
+                    </div>
+                  </div>
+                  {inspector.inspection.presentation.issues.length > 0 && (
+                    <ul className="space-y-1 text-xs">
+                      {inspector.inspection.presentation.issues.map((issue, i) => (
+                        <li key={i} className="text-rose-400">
+                          <span className="font-mono text-slate-500 mr-2">{issue.code}</span>
+                          {issue.message}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                 </div>
+                {inspector.inspection.presentation.credentials.map((check, i) => (
+                  <CredentialCheckView key={i} check={check} chain={inspector.trustChains[check.issuer ?? '']} />
+                ))}
               </div>
             )}
           </div>
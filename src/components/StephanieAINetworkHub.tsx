@@ -7,8 +7,10 @@ import {
   NOBLEPORT_MODULES,
   AI_PLATFORM_CONNECTIONS,
   MCPConnection,
-  ModuleConnection
+  ModuleConnection,
+  HealthReport
 } from '../lib/stephanieAI';
+import type { HealthSnapshot } from '../lib/healthProber';
 
 /**
  * Stephanie.ai Network Hub Component
@@ -23,12 +25,14 @@ import {
 
 interface PlatformCardProps {
   platform: MCPConnection;
+  health?: HealthSnapshot;
   isSelected: boolean;
   onSelect: () => void;
 }
 
 interface ModuleCardProps {
   module: ModuleConnection;
+  health?: HealthSnapshot;
   isSelected: boolean;
   onSelect: () => void;
 }
@@ -56,7 +60,10 @@ const StatusBadge: React.FC<{ status: string }> = ({ status }) => {
     disabled: 'bg-gray-500',
     disconnected: 'bg-red-500',
     unhealthy: 'bg-red-500',
-    unknown: 'bg-gray-400'
+    unknown: 'bg-gray-400',
+    closed: 'bg-green-500',
+    'half-open': 'bg-yellow-500',
+    open: 'bg-red-500'
   };
 
   return (
@@ -66,7 +73,33 @@ const StatusBadge: React.FC<{ status: string }> = ({ status }) => {
   );
 };
 
-const PlatformCard: React.FC<PlatformCardProps> = ({ platform, isSelected, onSelect }) => {
+const formatProbeTime = (iso: string | null): string =>
+  iso ? new Date(iso).toLocaleTimeString() : 'never';
+
+const HealthDetails: React.FC<{ health: HealthSnapshot }> = ({ health }) => (
+  <div>
+    <p className="text-xs text-gray-400 uppercase tracking-wider mb-2">Health</p>
+    <div className="flex items-center gap-2 mb-2">
+      <StatusBadge status={health.state} />
+      <span className="text-xs text-gray-400">circuit</span>
+      <StatusBadge status={health.circuit} />
+    </div>
+    {health.latency && (
+      <p className="text-sm text-gray-300">
+        p50 {health.latency.p50}ms / p95 {health.latency.p95}ms / p99 {health.latency.p99}ms
+      </p>
+    )}
+    <p className="text-sm text-gray-300">
+      Error rate {(health.errorRate * 100).toFixed(1)}% over {health.samples} sample(s)
+    </p>
+    <p className="text-sm text-gray-300">Last probe: {formatProbeTime(health.lastProbeAt)}</p>
+    {health.lastError && (
+      <p className="text-xs text-red-300 break-all mt-1">{health.lastError}</p>
+    )}
+  </div>
+);
+
+const PlatformCard: React.FC<PlatformCardProps> = ({ platform, health, isSelected, onSelect }) => {
   const providerColors: Record<string, string> = {
     'Anthropic': 'border-orange-500 bg-orange-50',
     'OpenAI': 'border-green-500 bg-green-50',
@@ -94,9 +127,12 @@ const PlatformCard: React.FC<PlatformCardProps> = ({ platform, isSelected, onSel
     >
       <div className="flex justify-between items-start mb-2">
         <h4 className="font-semibold text-gray-900">{platform.name}</h4>
-        <StatusBadge status={platform.status} />
+        <StatusBadge status={health && health.state !== 'unknown' ? health.state : platform.status} />
       </div>
-      <p className="text-xs text-gray-600 mb-2">{platform.provider}</p>
+      <p className="text-xs text-gray-600 mb-2">
+        {platform.provider}
+        {health && <span className="ml-2 text-gray-500">probed {formatProbeTime(health.lastProbeAt)}</span>}
+      </p>
       <div className="flex flex-wrap gap-1">
         {platform.capabilities.slice(0, 3).map((cap, idx) => (
           <span key={idx} className="text-xs bg-white px-2 py-0.5 rounded border">
@@ -111,7 +147,7 @@ const PlatformCard: React.FC<PlatformCardProps> = ({ platform, isSelected, onSel
   );
 };
 
-const ModuleCard: React.FC<ModuleCardProps> = ({ module, isSelected, onSelect }) => {
+const ModuleCard: React.FC<ModuleCardProps> = ({ module, health, isSelected, onSelect }) => {
   return (
     <div
       onClick={onSelect}
@@ -121,9 +157,12 @@ const ModuleCard: React.FC<ModuleCardProps> = ({ module, isSelected, onSelect })
     >
       <div className="flex justify-between items-start mb-2">
         <h4 className="font-semibold text-gray-900 text-sm">{module.module.replace(/_/g, ' ')}</h4>
-        <StatusBadge status={module.status} />
+        <StatusBadge status={health && health.state !== 'unknown' ? health.state : module.status} />
       </div>
       <p className="text-xs text-gray-500 font-mono mb-2">{module.ens}</p>
+      {health && (
+        <p className="text-xs text-gray-400 mb-2">probed {formatProbeTime(health.lastProbeAt)}</p>
+      )}
       <div className="flex flex-wrap gap-1">
         {module.capabilities.slice(0, 2).map((cap, idx) => (
           <span key={idx} className="text-xs bg-gray-100 px-2 py-0.5 rounded">
@@ -156,40 +195,74 @@ const StephanieAINetworkHub: React.FC = () => {
     lastHealthCheck: null,
     overallHealth: 'unknown'
   });
+  const [health, setHealth] = useState<HealthReport | null>(null);
   const [isInitializing, setIsInitializing] = useState(true);
   const [activeTab, setActiveTab] = useState<'platforms' | 'modules' | 'architecture'>('platforms');
 
+  const applyHealth = (instance: StephanieAI, report: HealthReport) => {
+    setHealth(report);
+    setStats({
+      totalPlatforms: AI_PLATFORM_CONNECTIONS.length,
+      activePlatforms: Object.values(report.platforms).filter(h => h === 'healthy' || h === 'degraded').length,
+      totalModules: Object.keys(NOBLEPORT_MODULES.MODULES).length,
+      connectedModules: instance.getConnectedModules().filter(m => m.status === 'connected').length,
+      lastHealthCheck: report.lastProbeAt ? new Date(report.lastProbeAt) : new Date(),
+      overallHealth: report.overall
+    });
+  };
+
   // Initialize Stephanie.ai
   useEffect(() => {
+    let unmounted = false;
+    const instance = createStephanieAI();
+
     const initStephanie = async () => {
       try {
-        const instance = createStephanieAI();
         await instance.initialize();
+        // Unmounted while initializing: stop what initialize() started
+        if (unmounted) {
+          await instance.shutdown();
+          return;
+        }
 
         setStephanie(instance);
         setPlatforms(instance.getConnectedPlatforms());
         setModules(instance.getConnectedModules());
 
-        const health = await instance.healthCheck();
-
-        setStats({
-          totalPlatforms: AI_PLATFORM_CONNECTIONS.length,
-          activePlatforms: instance.getConnectedPlatforms().filter(p => p.status === 'active').length,
-          totalModules: Object.keys(NOBLEPORT_MODULES.MODULES).length,
-          connectedModules: instance.getConnectedModules().filter(m => m.status === 'connected').length,
-          lastHealthCheck: new Date(),
-          overallHealth: health.overall
-        });
+        const report = await instance.healthCheck();
+        applyHealth(instance, report);
       } catch (error) {
         console.error('Failed to initialize Stephanie.ai:', error);
       } finally {
-        setIsInitializing(false);
+        if (!unmounted) setIsInitializing(false);
       }
     };
 
     initStephanie();
+
+    // Stops the health prober and closes MCP sessions
+    return () => {
+      unmounted = true;
+      instance.shutdown().catch(error => console.error('Failed to shut down Stephanie.ai:', error));
+    };
   }, []);
 
+  // Refresh health on the configured probe interval
+  useEffect(() => {
+    if (!stephanie) return;
+
+    const intervalMs = stephanie.getOrchestrationSettings()?.loadBalancing.healthCheckInterval || 30000;
+    const timer = setInterval(async () => {
+      try {
+        applyHealth(stephanie, await stephanie.healthCheck());
+      } catch (error) {
+        console.error('Stephanie.ai health check failed:', error);
+      }
+    }, intervalMs);
+
+    return () => clearInterval(timer);
+  }, [stephanie]);
+
   // Render loading state
   if (isInitializing) {
     return (
@@ -221,6 +294,9 @@ const StephanieAINetworkHub: React.FC = () => {
               <div className="text-right">
                 <p className="text-xs text-gray-400">Network Status</p>
                 <StatusBadge status={stats.overallHealth} />
+                <p className="text-xs text-gray-500 mt-1">
+                  Last probe: {stats.lastHealthCheck ? stats.lastHealthCheck.toLocaleTimeString() : 'never'}
+                </p>
               </div>
               <div className="text-right">
                 <p className="text-xs text-gray-400">ENS Identity</p>
@@ -292,6 +368,7 @@ const StephanieAINetworkHub: React.FC = () => {
                   <PlatformCard
                     key={platform.id}
                     platform={platform}
+                    health={health?.details.platforms[platform.id]}
                     isSelected={selectedPlatform?.id === platform.id}
                     onSelect={() => setSelectedPlatform(platform)}
                   />
@@ -330,6 +407,9 @@ const StephanieAINetworkHub: React.FC = () => {
                       ))}
                     </div>
                   </div>
+                  {health?.details.platforms[selectedPlatform.id] && (
+                    <HealthDetails health={health.details.platforms[selectedPlatform.id]} />
+                  )}
                   {selectedPlatform.rateLimits && (
                     <div>
                       <p className="text-xs text-gray-400 uppercase tracking-wider mb-2">Rate Limits</p>
@@ -359,6 +439,7 @@ const StephanieAINetworkHub: React.FC = () => {
                   <ModuleCard
                     key={module.module}
                     module={module}
+                    health={health?.details.modules[module.module]}
                     isSelected={selectedModule?.module === module.module}
                     onSelect={() => setSelectedModule(module)}
                   />
@@ -386,7 +467,21 @@ const StephanieAINetworkHub: React.FC = () => {
                   <div>
                     <p className="text-xs text-gray-400 uppercase tracking-wider">Status</p>
                     <StatusBadge status={selectedModule.status} />
+                    {selectedModule.lastError && (
+                      <p className="text-xs text-red-300 mt-1 break-all">{selectedModule.lastError}</p>
+                    )}
                   </div>
+                  {selectedModule.endpoint && (
+                    <div>
+                      <p className="text-xs text-gray-400 uppercase tracking-wider">Sync Endpoint</p>
+                      <p className="text-purple-400 font-mono text-sm break-all">{selectedModule.endpoint}</p>
+                      {selectedModule.version && (
+                        <p className="text-xs text-gray-400 mt-1">
+                          v{selectedModule.version} · cursor {selectedModule.cursor}
+                        </p>
+                      )}
+                    </div>
+                  )}
                   <div>
                     <p className="text-xs text-gray-400 uppercase tracking-wider mb-2">Capabilities</p>
                     <div className="flex flex-wrap gap-2">
@@ -397,6 +492,9 @@ const StephanieAINetworkHub: React.FC = () => {
                       ))}
                     </div>
                   </div>
+                  {health?.details.modules[selectedModule.module] && (
+                    <HealthDetails health={health.details.modules[selectedModule.module]} />
+                  )}
                   {selectedModule.lastSync && (
                     <div>
                       <p className="text-xs text-gray-400 uppercase tracking-wider">Last Sync</p>
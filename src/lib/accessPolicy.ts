@@ -0,0 +1,268 @@
+/**
+ * Credential-Gated Access Policies
+ *
+ * NoblePort modules gate operations on the credentials a holder presents.
+ * A policy names the credentials an operation needs, which issuers are
+ * trusted for them and which subject claims they must carry:
+ *
+ *   INVESTOR_PORTAL:account-management        verified KYC
+ *   INVESTOR_PORTAL:subscription              verified KYC + accredited investor
+ *   AUTHORIZED_PARTICIPANTS:basket-creation   AP membership with 'creation'
+ *   AUTHORIZED_PARTICIPANTS:redemption        AP membership with 'redemption'
+ *
+ * Policies are keyed `<MODULE>:<operation>` using the module keys and
+ * capabilities Stephanie.ai registers. The engine verifies the presentation
+ * (credentialVerifier.ts), then checks each requirement against the
+ * credentials that verified.
+ */
+
+import { CREDENTIAL_TYPES } from './credentialSchemas';
+import { CREDENTIAL_ISSUERS, VerifiablePresentation } from './credentials';
+import {
+  CredentialCheck,
+  CredentialVerifier,
+  PresentationBinding,
+  PresentationVerification,
+  VerificationError
+} from './credentialVerifier';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CredentialRequirement {
+  /** Credential type, e.g. 'AccreditedInvestorCredential' */
+  type: string;
+  /** Issuer DIDs accepted (default: the engine's trusted issuers) */
+  issuers?: string[];
+  /**
+   * Subject claims the credential must carry: a value, or a list of
+   * accepted values. Array claims (e.g. permissions) must contain the value.
+   */
+  subject?: Record<string, string | string[]>;
+}
+
+export interface AccessPolicy {
+  description: string;
+  /** Every requirement must be met */
+  allOf?: CredentialRequirement[];
+  /** At least one requirement must be met */
+  anyOf?: CredentialRequirement[];
+}
+
+export interface RequirementResult {
+  requirement: CredentialRequirement;
+  /** Id of the credential that met the requirement */
+  satisfiedBy: string | null;
+  /** Why presented credentials of this type did not qualify */
+  reasons: string[];
+}
+
+export interface AccessDecision {
+  allowed: boolean;
+  /** `<MODULE>:<operation>` */
+  policy: string;
+  holder: string | null;
+  requirements: RequirementResult[];
+  /** Summary of why access was denied */
+  reason?: string;
+}
+
+export interface AccessPolicyEngineOptions {
+  verifier: CredentialVerifier;
+  /** Added to, or replacing, ACCESS_POLICIES entries */
+  policies?: Record<string, AccessPolicy>;
+  /** Issuers trusted when a requirement lists none (default: nobleport.eth and identity.nobleport.eth) */
+  trustedIssuers?: string[];
+}
+
+export type AccessDeniedCode = 'no-policy' | 'invalid-presentation' | 'requirements-unmet';
+
+/**
+ * Raised by enforce() when a holder may not perform an operation
+ */
+export class AccessDeniedError extends Error {
+  readonly code: AccessDeniedCode;
+  readonly decision: AccessDecision;
+
+  constructor(code: AccessDeniedCode, decision: AccessDecision) {
+    super(decision.reason ?? `access to ${decision.policy} denied`);
+    this.name = 'AccessDeniedError';
+    this.code = code;
+    this.decision = decision;
+  }
+}
+
+const VERIFIED_KYC: CredentialRequirement = {
+  type: CREDENTIAL_TYPES.KYC_STATUS,
+  subject: { kycStatus: 'verified' }
+};
+
+export const ACCESS_POLICIES: Record<string, AccessPolicy> = {
+  'INVESTOR_PORTAL:account-management': {
+    description: 'Investor with verified KYC',
+    allOf: [VERIFIED_KYC]
+  },
+  'INVESTOR_PORTAL:reporting': {
+    description: 'Investor with verified KYC',
+    allOf: [VERIFIED_KYC]
+  },
+  'INVESTOR_PORTAL:subscription': {
+    description: 'Accredited investor with verified KYC',
+    allOf: [VERIFIED_KYC, { type: CREDENTIAL_TYPES.ACCREDITED_INVESTOR }]
+  },
+  'AUTHORIZED_PARTICIPANTS:basket-creation': {
+    description: 'Authorized Participant permitted to create baskets',
+    allOf: [{ type: CREDENTIAL_TYPES.AUTHORIZED_PARTICIPANT, subject: { permissions: 'creation' } }]
+  },
+  'AUTHORIZED_PARTICIPANTS:redemption': {
+    description: 'Authorized Participant permitted to redeem baskets',
+    allOf: [{ type: CREDENTIAL_TYPES.AUTHORIZED_PARTICIPANT, subject: { permissions: 'redemption' } }]
+  },
+  'AUTHORIZED_PARTICIPANTS:settlement': {
+    description: 'Authorized Participant',
+    allOf: [{ type: CREDENTIAL_TYPES.AUTHORIZED_PARTICIPANT }]
+  },
+  'AUTHORIZED_PARTICIPANTS:inventory': {
+    description: 'Authorized Participant',
+    allOf: [{ type: CREDENTIAL_TYPES.AUTHORIZED_PARTICIPANT }]
+  }
+};
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+function subjectProblems(subject: Record<string, unknown>, required: Record<string, string | string[]> = {}): string[] {
+  return Object.entries(required).flatMap(([claim, accepted]) => {
+    const values = ([] as string[]).concat(accepted);
+    const actual = subject[claim];
+    const ok = Array.isArray(actual) ? values.some(value => actual.includes(value)) : values.includes(actual as string);
+    return ok ? [] : [`${claim} is ${JSON.stringify(actual ?? null)}, needs ${values.join(' or ')}`];
+  });
+}
+
+export class AccessPolicyEngine {
+  private readonly verifier: CredentialVerifier;
+  private readonly policies: Record<string, AccessPolicy>;
+  private readonly trustedIssuers: string[];
+
+  constructor(options: AccessPolicyEngineOptions) {
+    this.verifier = options.verifier;
+    this.policies = { ...ACCESS_POLICIES, ...options.policies };
+    this.trustedIssuers = options.trustedIssuers ?? Object.values(CREDENTIAL_ISSUERS);
+  }
+
+  getPolicy(module: string, operation: string): AccessPolicy | null {
+    return this.policies[`${module}:${operation}`] ?? null;
+  }
+
+  /**
+   * Check verified credentials against a policy
+   */
+  evaluate(policyId: string, policy: AccessPolicy, verification: PresentationVerification): AccessDecision {
+    const requirements = [...(policy.allOf ?? []), ...(policy.anyOf ?? [])]
+      .map(requirement => this.check(requirement, verification.credentials));
+    const allOf = requirements.slice(0, policy.allOf?.length ?? 0);
+    const anyOf = requirements.slice(allOf.length);
+
+    const allowed = allOf.every(result => result.satisfiedBy) && (!anyOf.length || anyOf.some(result => result.satisfiedBy));
+    const unmet = [...allOf.filter(result => !result.satisfiedBy), ...(anyOf.some(result => result.satisfiedBy) ? [] : anyOf)];
+
+    return {
+      allowed,
+      policy: policyId,
+      holder: verification.holder,
+      requirements,
+      ...(!allowed && {
+        reason: `${policy.description} required; missing ${unmet.map(result => result.requirement.type).join(', ')}`
+      })
+    };
+  }
+
+  /**
+   * Verify a presentation and decide whether its holder may perform an
+   * operation. Denials are returned, not thrown.
+   *
+   * @example
+   * const decision = await engine.authorize('INVESTOR_PORTAL', 'subscription', vpJwt, {
+   *   challenge, domain: 'investors.nobleport.eth'
+   * });
+   * if (!decision.allowed) console.warn(decision.reason, decision.requirements);
+   */
+  async authorize(
+    module: string,
+    operation: string,
+    presentation: string | VerifiablePresentation,
+    binding: PresentationBinding
+  ): Promise<AccessDecision> {
+    return (await this.decide(module, operation, presentation, binding)).decision;
+  }
+
+  /**
+   * Like authorize(), but throws when access is denied
+   *
+   * @throws AccessDeniedError
+   */
+  async enforce(
+    module: string,
+    operation: string,
+    presentation: string | VerifiablePresentation,
+    binding: PresentationBinding
+  ): Promise<AccessDecision> {
+    const { code, decision } = await this.decide(module, operation, presentation, binding);
+    if (code) throw new AccessDeniedError(code, decision);
+    return decision;
+  }
+
+  private async decide(
+    module: string,
+    operation: string,
+    presentation: string | VerifiablePresentation,
+    binding: PresentationBinding
+  ): Promise<{ code: AccessDeniedCode | null; decision: AccessDecision }> {
+    const policyId = `${module}:${operation}`;
+    const policy = this.getPolicy(module, operation);
+    const denied = (code: AccessDeniedCode, reason: string) =>
+      ({ code, decision: { allowed: false, policy: policyId, holder: null, requirements: [], reason } });
+
+    // Operations without a policy are closed, not open
+    if (!policy) return denied('no-policy', `no access policy for ${policyId}`);
+
+    let verification: PresentationVerification;
+    try {
+      verification = await this.verifier.verifyPresentation(presentation, binding);
+    } catch (e: unknown) {
+      if (!(e instanceof VerificationError)) throw e;
+      return denied('invalid-presentation', `presentation rejected (${e.code}): ${e.message}`);
+    }
+
+    const decision = this.evaluate(policyId, policy, verification);
+    return { code: decision.allowed ? null : 'requirements-unmet', decision };
+  }
+
+  private check(requirement: CredentialRequirement, credentials: CredentialCheck[]): RequirementResult {
+    const issuers = requirement.issuers ?? this.trustedIssuers;
+    const candidates = credentials.filter(check => check.credential?.type.includes(requirement.type));
+    if (!candidates.length) {
+      return { requirement, satisfiedBy: null, reasons: [`no ${requirement.type} presented`] };
+    }
+
+    const reasons: string[] = [];
+    for (const check of candidates) {
+      const credential = check.credential!;
+      const problems = [
+        ...check.issues.map(issue => issue.message),
+        ...(check.issuer && issuers.includes(check.issuer) ? [] : [`issuer ${check.issuer} is not trusted`]),
+        ...subjectProblems(credential.credentialSubject, requirement.subject)
+      ];
+      if (!problems.length) return { requirement, satisfiedBy: credential.id, reasons: [] };
+      reasons.push(...problems.map(problem => `${credential.id}: ${problem}`));
+    }
+    return { requirement, satisfiedBy: null, reasons };
+  }
+}
+
+export function createAccessPolicyEngine(options: AccessPolicyEngineOptions): AccessPolicyEngine {
+  return new AccessPolicyEngine(options);
+}
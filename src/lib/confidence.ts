@@ -0,0 +1,210 @@
+/**
+ * Confidence Scoring
+ *
+ * Derives a task's confidence from evidence instead of a fixed number:
+ *
+ * - logprobs: geometric-mean token probability reported by the provider
+ * - self-consistency: agreement between repeated samples on one platform
+ * - cross-platform: agreement with answers from other platforms on the route
+ * - schema: whether the output validated against the task's result schema
+ *
+ * The evidence signals are averaged by weight (a neutral prior stands in
+ * when there are none), then scaled by the schema factor: well-formed output
+ * is necessary for confidence but is not evidence of correctness on its own.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ConfidenceSource = 'logprobs' | 'self-consistency' | 'cross-platform' | 'schema';
+
+export interface ConfidenceSignal {
+  source: ConfidenceSource;
+  /** 0-1 */
+  score: number;
+  /** Weight in the evidence mean; 0 for the multiplicative schema factor */
+  weight: number;
+  detail: string;
+}
+
+export interface ConfidenceReport {
+  /** Evidence mean scaled by the schema factor (0-1) */
+  score: number;
+  signals: ConfidenceSignal[];
+  explanation: string;
+}
+
+export interface ConfidenceOptions {
+  /** Total samples per task on the answering platform, including the answer itself (default: 1) */
+  samples?: number;
+  /** Other route platforms asked the same task for comparison (default: 0) */
+  crossCheckPlatforms?: number;
+  /** Ask providers for token logprobs (default: false) */
+  logprobs?: boolean;
+}
+
+/** Evidence score used when no logprob or agreement signal is available */
+export const NO_EVIDENCE_SCORE = 0.5;
+
+const SIGNAL_WEIGHTS: Record<Exclude<ConfidenceSource, 'schema'>, number> = {
+  logprobs: 1,
+  'self-consistency': 2,
+  'cross-platform': 2
+};
+
+// ============================================================================
+// AGREEMENT
+// ============================================================================
+
+function flattenLeaves(value: unknown, path: string, out: Map<string, unknown>): Map<string, unknown> {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => flattenLeaves(item, `${path}[${index}]`, out));
+  } else if (value && typeof value === 'object') {
+    for (const [key, item] of Object.entries(value)) flattenLeaves(item, `${path}.${key}`, out);
+  } else {
+    out.set(path, value);
+  }
+  return out;
+}
+
+function words(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/\W+/).filter(Boolean));
+}
+
+function leafSimilarity(a: unknown, b: unknown): number {
+  if (typeof a === 'number' && typeof b === 'number') {
+    const scale = Math.max(Math.abs(a), Math.abs(b));
+    if (scale === 0) return 1;
+    // Full credit within 1%, none beyond 10%
+    return Math.max(0, Math.min(1, (0.1 - Math.abs(a - b) / scale) / 0.09));
+  }
+  if (typeof a === 'string' && typeof b === 'string') {
+    const left = words(a);
+    const right = words(b);
+    const union = new Set([...left, ...right]);
+    if (union.size === 0) return 1;
+    return [...left].filter(w => right.has(w)).length / union.size;
+  }
+  return a === b ? 1 : 0;
+}
+
+/**
+ * Similarity of two outputs (0-1): leaf values are compared path by path;
+ * a leaf present in only one output counts as a disagreement
+ *
+ * @example
+ * outputSimilarity({ outlook: 'bullish', value: 10 }, { outlook: 'bullish', value: 10.05 }); // 1
+ */
+export function outputSimilarity(a: unknown, b: unknown): number {
+  const left = flattenLeaves(a, '$', new Map());
+  const right = flattenLeaves(b, '$', new Map());
+  const paths = new Set([...left.keys(), ...right.keys()]);
+  if (paths.size === 0) return 1;
+
+  let total = 0;
+  for (const path of paths) {
+    if (left.has(path) && right.has(path)) total += leafSimilarity(left.get(path), right.get(path));
+  }
+  return total / paths.size;
+}
+
+// ============================================================================
+// SIGNALS
+// ============================================================================
+
+/**
+ * Geometric-mean token probability from per-token logprobs
+ */
+export function logprobSignal(logprobs: number[] | undefined): ConfidenceSignal | null {
+  if (!logprobs || logprobs.length === 0) return null;
+  const mean = logprobs.reduce((sum, lp) => sum + lp, 0) / logprobs.length;
+  const score = Math.exp(mean);
+  return {
+    source: 'logprobs',
+    score,
+    weight: SIGNAL_WEIGHTS.logprobs,
+    detail: `mean token probability ${score.toFixed(2)} over ${logprobs.length} token(s)`
+  };
+}
+
+/**
+ * Mean similarity of the answer to each comparison output
+ */
+export function agreementSignal(
+  source: 'self-consistency' | 'cross-platform',
+  answer: unknown,
+  others: Array<{ label: string; output: unknown }>
+): ConfidenceSignal | null {
+  if (others.length === 0) return null;
+  const scores = others.map(other => outputSimilarity(answer, other.output));
+  const score = scores.reduce((sum, s) => sum + s, 0) / scores.length;
+  const against = others.map((other, i) => `${other.label} ${scores[i].toFixed(2)}`).join(', ');
+  return {
+    source,
+    score,
+    weight: SIGNAL_WEIGHTS[source],
+    detail: source === 'self-consistency'
+      ? `agreement ${score.toFixed(2)} across ${others.length + 1} samples (${against})`
+      : `agreement ${score.toFixed(2)} with ${against}`
+  };
+}
+
+/**
+ * Schema factor: 1 for valid output, 0.75 per repair re-prompt, 0.25 for
+ * output that does not validate
+ */
+export function schemaSignal(valid: boolean, repairs = 0): ConfidenceSignal {
+  const score = valid ? Math.pow(0.75, repairs) : 0.25;
+  return {
+    source: 'schema',
+    score,
+    weight: 0,
+    detail: !valid
+      ? 'output does not match the task result schema'
+      : repairs > 0
+        ? `output matches the task result schema after ${repairs} repair re-prompt(s)`
+        : 'output matches the task result schema'
+  };
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+/**
+ * Combine signals into a score with a human-readable explanation
+ *
+ * @example
+ * scoreConfidence([logprobSignal([-0.1, -0.3]), schemaSignal(true)]).score; // 0.82
+ */
+export function scoreConfidence(signals: Array<ConfidenceSignal | null>): ConfidenceReport {
+  const present = signals.filter((s): s is ConfidenceSignal => s !== null);
+  const evidence = present.filter(s => s.source !== 'schema');
+  const schema = present.find(s => s.source === 'schema');
+
+  let base = NO_EVIDENCE_SCORE;
+  let explanation = `no logprob or agreement evidence, so the neutral prior ${NO_EVIDENCE_SCORE} is used`;
+  if (evidence.length > 0) {
+    const totalWeight = evidence.reduce((sum, s) => sum + s.weight, 0);
+    base = evidence.reduce((sum, s) => sum + s.score * s.weight, 0) / totalWeight;
+    const parts = evidence.map(s => `${s.source} ${s.score.toFixed(2)} (weight ${s.weight}): ${s.detail}`);
+    explanation = `evidence ${base.toFixed(2)} is the weighted mean of ${parts.join('; ')}`;
+  }
+
+  const score = base * (schema?.score ?? 1);
+  if (schema) explanation += `; scaled by schema factor ${schema.score.toFixed(2)}: ${schema.detail}`;
+
+  return {
+    score,
+    signals: present,
+    explanation: `Confidence ${score.toFixed(2)}: ${explanation}.`
+  };
+}
+
+/**
+ * Replace (or add) one source's signal and rescore
+ */
+export function withSignal(report: ConfidenceReport, signal: ConfidenceSignal): ConfidenceReport {
+  return scoreConfidence([...report.signals.filter(s => s.source !== signal.source), signal]);
+}
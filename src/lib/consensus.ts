@@ -0,0 +1,244 @@
+/**
+ * Multi-Model Consensus
+ *
+ * Merges answers to the same task from several platforms into one result.
+ * Structured fields are merged recursively:
+ *
+ * - categorical values (booleans, enums, identifiers) are voted on
+ * - numbers take the median (majority) or weighted mean (weighted)
+ * - free text is taken from the highest-weighted answer
+ * - list items are matched by an identity field (`id`, `rule`, `asset`, ...)
+ *   and kept when at least half of the weight reports them; findings of
+ *   medium severity or higher are kept when any model reports them
+ * - ties fail safe: an even `compliant` vote resolves to false
+ *
+ * Every field the models did not agree on is reported as a disagreement so
+ * the result can be routed to human review.
+ */
+
+import { canonicalJson } from './taskLedger';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ConsensusStrategy = 'majority' | 'weighted';
+
+export interface ConsensusOptions {
+  /** Number of route platforms to fan out to (default: 2) */
+  platforms?: number;
+  /** majority: one vote per platform; weighted: votes weighted (default: 'majority') */
+  strategy?: ConsensusStrategy;
+  /** Valid answers required to form a consensus (default: min(2, platforms)) */
+  minResponses?: number;
+  /** Vote weight per platform id for the weighted strategy; defaults to each answer's confidence */
+  weights?: Record<string, number>;
+}
+
+export interface ConsensusAnswer {
+  platform: string;
+  /** Parsed result, or null when the platform failed or its output was invalid */
+  result: unknown;
+  confidence: number | null;
+  weight: number;
+  error?: string;
+}
+
+export interface ConsensusDisagreement {
+  /** JSON path of the disputed value, e.g. `$.findings[rule=R-17].severity` */
+  path: string;
+  reason: string;
+  /** Each platform's value at the path (undefined when absent) */
+  values: Record<string, unknown>;
+  /** Value used in the merged result (undefined when dropped) */
+  resolution: unknown;
+}
+
+export interface ConsensusSummary {
+  strategy: ConsensusStrategy;
+  platforms: string[];
+  answers: ConsensusAnswer[];
+  disagreements: ConsensusDisagreement[];
+  /** True when any disagreement was found */
+  requiresHumanReview: boolean;
+}
+
+interface Vote {
+  platform: string;
+  value: unknown;
+  weight: number;
+}
+
+/** Fields that identify list items across answers, in order of preference */
+const IDENTITY_KEYS = ['id', 'rule', 'asset', 'metric', 'heading', 'name'];
+
+/** Findings no model may overrule by leaving them out */
+const SIGNIFICANT_SEVERITIES = ['medium', 'high', 'critical'];
+
+/** Cautious value per field name, used when a vote is tied */
+const TIE_BREAKS: Record<string, unknown> = { compliant: false };
+
+// ============================================================================
+// MERGING
+// ============================================================================
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const totalWeight = (votes: Vote[]) => votes.reduce((sum, v) => sum + v.weight, 0);
+
+function valuesByPlatform(votes: Vote[]): Record<string, unknown> {
+  return Object.fromEntries(votes.map(v => [v.platform, v.value]));
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function identityKey(arrays: unknown[][]): string | null {
+  const items = arrays.flat();
+  if (items.length === 0 || !items.every(isPlainObject)) return null;
+  return IDENTITY_KEYS.find(key => items.every(item => typeof (item as Record<string, unknown>)[key] === 'string')) ?? null;
+}
+
+class Merger {
+  readonly disagreements: ConsensusDisagreement[] = [];
+
+  constructor(private readonly strategy: ConsensusStrategy) {}
+
+  merge(votes: Vote[], path: string): unknown {
+    const present = votes.filter(v => v.value !== undefined && v.value !== null);
+    if (present.length === 0) return undefined;
+
+    if (present.length < votes.length) {
+      const keep = totalWeight(present) * 2 >= totalWeight(votes) || present.some(v =>
+        isPlainObject(v.value) && SIGNIFICANT_SEVERITIES.includes(v.value.severity as string));
+      const resolution = keep ? this.mergePresent(present, path) : undefined;
+      this.flag(path, `present in ${present.length} of ${votes.length} answers`, votes, resolution);
+      return resolution;
+    }
+    return this.mergePresent(present, path);
+  }
+
+  private mergePresent(votes: Vote[], path: string): unknown {
+    const values = votes.map(v => v.value);
+
+    if (values.every(isPlainObject)) {
+      const keys = new Set(values.flatMap(v => Object.keys(v as Record<string, unknown>)));
+      const merged: Record<string, unknown> = {};
+      for (const key of keys) {
+        const value = this.merge(
+          votes.map(v => ({ ...v, value: (v.value as Record<string, unknown>)[key] })),
+          `${path}.${key}`
+        );
+        if (value !== undefined) merged[key] = value;
+      }
+      return merged;
+    }
+
+    if (values.every(Array.isArray)) return this.mergeArrays(votes, path);
+
+    if (values.every(v => typeof v === 'number')) {
+      const numbers = values as number[];
+      const merged = this.strategy === 'weighted'
+        ? votes.reduce((sum, v) => sum + (v.value as number) * v.weight, 0) / (totalWeight(votes) || 1)
+        : median(numbers);
+      const scale = Math.max(...numbers.map(Math.abs));
+      if (scale > 0 && (Math.max(...numbers) - Math.min(...numbers)) / scale > 0.1) {
+        this.flag(path, 'numeric answers differ by more than 10%', votes, merged);
+      }
+      return merged;
+    }
+
+    // Free text cannot be voted on; take the most trusted answer
+    if (values.some(v => typeof v === 'string' && /\s/.test(v))) {
+      return [...votes].sort((a, b) => b.weight - a.weight)[0].value;
+    }
+
+    return this.vote(votes, path);
+  }
+
+  private mergeArrays(votes: Vote[], path: string): unknown[] {
+    const arrays = votes.map(v => v.value as unknown[]);
+    const key = identityKey(arrays);
+    const identify = (item: unknown) => key
+      ? String((item as Record<string, unknown>)[key]).trim().toLowerCase()
+      : canonicalJson(item);
+
+    // Arrays of unkeyed objects are compared as a whole
+    if (!key && arrays.flat().some(item => typeof item === 'object' && item !== null)) {
+      return this.vote(votes, path) as unknown[];
+    }
+
+    const order: string[] = [];
+    for (const item of arrays.flat()) {
+      const id = identify(item);
+      if (!order.includes(id)) order.push(id);
+    }
+
+    const merged: unknown[] = [];
+    for (const id of order) {
+      const itemVotes = votes.map(v => ({
+        ...v,
+        value: (v.value as unknown[]).find(item => identify(item) === id)
+      }));
+      const itemPath = key ? `${path}[${key}=${id}]` : `${path}[${id}]`;
+      const value = this.merge(itemVotes, itemPath);
+      if (value !== undefined) merged.push(value);
+    }
+    return merged;
+  }
+
+  private vote(votes: Vote[], path: string): unknown {
+    const tally = new Map<string, { value: unknown; weight: number }>();
+    for (const vote of votes) {
+      const id = canonicalJson(vote.value);
+      const entry = tally.get(id) ?? { value: vote.value, weight: 0 };
+      entry.weight += vote.weight;
+      tally.set(id, entry);
+    }
+
+    const field = path.slice(path.lastIndexOf('.') + 1);
+    const cautious = (entry: { value: unknown }) =>
+      Object.prototype.hasOwnProperty.call(TIE_BREAKS, field) && entry.value === TIE_BREAKS[field] ? 1 : 0;
+    const ranked = Array.from(tally.values()).sort((a, b) => b.weight - a.weight || cautious(b) - cautious(a));
+    const winner = ranked[0];
+    if (ranked.length > 1) {
+      const reason = winner.weight * 2 > totalWeight(votes)
+        ? 'answers disagree; majority value used'
+        : 'no majority; highest-weighted value used';
+      this.flag(path, reason, votes, winner.value);
+    }
+    return winner.value;
+  }
+
+  private flag(path: string, reason: string, votes: Vote[], resolution: unknown): void {
+    this.disagreements.push({ path, reason, values: valuesByPlatform(votes), resolution });
+  }
+}
+
+/**
+ * Merge valid answers into one result
+ *
+ * @example
+ * mergeAnswers([
+ *   { platform: 'claude-mcp', result: { compliant: false }, weight: 1 },
+ *   { platform: 'mistral-ai', result: { compliant: true }, weight: 1 }
+ * ], 'majority');
+ * // disagreements[0].path === '$.compliant', resolution false (ties are non-compliant)
+ */
+export function mergeAnswers(
+  answers: Array<{ platform: string; result: unknown; weight: number }>,
+  strategy: ConsensusStrategy
+): { result: unknown; disagreements: ConsensusDisagreement[] } {
+  const merger = new Merger(strategy);
+  const votes = answers.map(a => ({
+    platform: a.platform,
+    value: a.result,
+    weight: strategy === 'weighted' ? a.weight : 1
+  }));
+  const result = merger.merge(votes, '$');
+  return { result: result ?? null, disagreements: merger.disagreements };
+}
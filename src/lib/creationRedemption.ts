@@ -0,0 +1,599 @@
+/**
+ * Creation / Redemption Baskets
+ *
+ * Authorized Participants create NBPT shares in creation units by
+ * delivering the day's basket of property tokens plus a cash component
+ * (in kind), or the full NAV in cash; redemptions run the other way.
+ *
+ * Each trading day the fund publishes a Portfolio Composition File built
+ * from the end-of-day NAV (navEngine.ts):
+ *
+ *   component quantity  holding quantity × unit size / shares outstanding,
+ *                       rounded down to the token's decimals
+ *   cash component      NAV per share × unit size − basket market value
+ *
+ * Orders are validated against that PCF, priced (cash due, transaction
+ * fees) and tracked to settlement on T+2 trading days:
+ *
+ *   submitted -> accepted -> delivered -> settled
+ *        \           \
+ *         +-----------+--> cancelled
+ *
+ * Submitting verifies the AP's presentation against the
+ * AUTHORIZED_PARTICIPANTS:basket-creation or AUTHORIZED_PARTICIPANTS:redemption
+ * access policy (accessPolicy.ts); its holder must be the participant.
+ */
+
+import { AccessDeniedError, AccessPolicyEngine } from './accessPolicy';
+import type { PresentationBinding } from './credentialVerifier';
+import type { VerifiablePresentation } from './credentials';
+import { ExchangeCalendar, NYSE_CALENDAR, addTradingDays, isTradingDay, localDate } from './exchangeCalendar';
+import type { NavResult } from './navEngine';
+import { hashValue } from './taskLedger';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type OrderType = 'creation' | 'redemption';
+
+export type SettlementMethod = 'in-kind' | 'cash';
+
+export type OrderStatus = 'submitted' | 'accepted' | 'delivered' | 'settled' | 'cancelled';
+
+export interface BasketComponent {
+  holdingId: string;
+  name?: string;
+  /** Tokens per creation unit */
+  quantity: string;
+  /** USD per token at the NAV */
+  price: string;
+  marketValue: string;
+}
+
+export interface TransactionFees {
+  /** USD per order */
+  fixed: string;
+  /** Charged on the cash amount of cash orders, in basis points */
+  cashVariableBps: number;
+}
+
+export interface PortfolioCompositionFile {
+  fund: string;
+  /** Local 'YYYY-MM-DD' */
+  tradeDate: string;
+  /** NAV the basket was built from (ISO 8601) */
+  navAsOf: string;
+  navPerShare: string;
+  /** Shares per creation unit */
+  creationUnitSize: number;
+  navPerCreationUnit: string;
+  components: BasketComponent[];
+  basketValue: string;
+  /** NAV per unit − basket value; negative when the fund pays the AP */
+  cashComponent: string;
+  fees: TransactionFees;
+  settlementDays: number;
+  /** hashValue() of every other field */
+  hash: string;
+}
+
+export interface BasketDelivery {
+  holdingId: string;
+  quantity: string;
+}
+
+export interface BasketOrderRequest {
+  /** AP DID */
+  participant: string;
+  type: OrderType;
+  method: SettlementMethod;
+  creationUnits: number;
+  /** Local 'YYYY-MM-DD' of the PCF the order is placed against */
+  tradeDate: string;
+  /** In-kind creations: the tokens the AP will deliver (default: the PCF basket) */
+  basket?: BasketDelivery[];
+  /** AP membership presentation (VP JWT or JSON-LD) held by the participant */
+  presentation: string | VerifiablePresentation;
+  /** Challenge (and domain) the presentation must be bound to */
+  binding: PresentationBinding;
+}
+
+export interface OrderValuation {
+  shares: string;
+  /** Tokens exchanged (empty for cash orders) */
+  basket: BasketDelivery[];
+  basketValue: string;
+  /** Cash component × units (in kind) or NAV of the units (cash) */
+  cashAmount: string;
+  fixedFee: string;
+  variableFee: string;
+  transactionFee: string;
+  /** Cash the AP pays the fund; negative when the fund pays the AP */
+  netCashDue: string;
+}
+
+export interface OrderStatusChange {
+  status: OrderStatus;
+  at: string;
+  note?: string;
+}
+
+export interface BasketOrder {
+  id: string;
+  participant: string;
+  type: OrderType;
+  method: SettlementMethod;
+  creationUnits: number;
+  tradeDate: string;
+  /** T + settlementDays trading days */
+  settlementDate: string;
+  status: OrderStatus;
+  /** Hash of the PCF the order was priced against */
+  pcfHash: string;
+  valuation: OrderValuation;
+  history: OrderStatusChange[];
+}
+
+export interface OrderValidation {
+  valid: boolean;
+  issues: string[];
+  /** Present when the order could be priced */
+  valuation?: OrderValuation;
+}
+
+export interface OrderQuery {
+  participant?: string;
+  status?: OrderStatus;
+  tradeDate?: string;
+}
+
+/** Tokens and shares an AP still has to exchange on open orders */
+export interface ParticipantInventory {
+  participant: string;
+  openOrders: number;
+  /** Shares to be issued to the AP (creations) */
+  sharesToReceive: string;
+  /** Shares the AP has to deliver (redemptions) */
+  sharesToDeliver: string;
+  /** holdingId -> tokens the AP has to deliver (in-kind creations) */
+  tokensToDeliver: Record<string, string>;
+  /** holdingId -> tokens the AP will receive (in-kind redemptions) */
+  tokensToReceive: Record<string, string>;
+  netCashDue: string;
+}
+
+/**
+ * Persistence for orders
+ */
+export interface BasketOrderStore {
+  get(id: string): Promise<BasketOrder | undefined>;
+  save(order: BasketOrder): Promise<void>;
+  list(): Promise<BasketOrder[]>;
+}
+
+export interface CreationRedemptionOptions {
+  /** Checks the AUTHORIZED_PARTICIPANTS policies on every submitted order */
+  accessPolicy: AccessPolicyEngine;
+  /** Default: 50,000 shares */
+  creationUnitSize?: number;
+  /** Default: $500 per order, 10 bps on cash orders */
+  fees?: Partial<TransactionFees>;
+  /** Default: 2 (T+2) */
+  settlementDays?: number;
+  /** Token decimals of basket quantities (default 0: whole property tokens) */
+  componentDecimals?: number;
+  /** Default: NYSE_CALENDAR */
+  calendar?: ExchangeCalendar;
+  store?: BasketOrderStore;
+  now?: () => number;
+}
+
+export type BasketErrorCode =
+  | 'invalid-pcf'
+  | 'no-pcf'
+  | 'invalid-order'
+  | 'unauthorized'
+  | 'unknown-order'
+  | 'invalid-transition';
+
+export class BasketError extends Error {
+  readonly code: BasketErrorCode;
+  readonly issues: string[];
+
+  constructor(code: BasketErrorCode, message: string, issues: string[] = []) {
+    super(issues.length ? `${message}: ${issues.join('; ')}` : message);
+    this.name = 'BasketError';
+    this.code = code;
+    this.issues = issues;
+  }
+}
+
+export const DEFAULT_TRANSACTION_FEES: TransactionFees = {
+  fixed: '500.00',
+  cashVariableBps: 10
+};
+
+/** Statuses an order may move to from each status */
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  submitted: ['accepted', 'cancelled'],
+  accepted: ['delivered', 'cancelled'],
+  delivered: ['settled'],
+  settled: [],
+  cancelled: []
+};
+
+/** AUTHORIZED_PARTICIPANTS operation each order type needs */
+const ORDER_OPERATIONS: Record<OrderType, string> = {
+  creation: 'basket-creation',
+  redemption: 'redemption'
+};
+
+// ============================================================================
+// DECIMALS
+// ============================================================================
+
+const DECIMALS = 18;
+const SCALE = 10n ** BigInt(DECIMALS);
+
+function parseDecimal(value: string, field: string): bigint {
+  if (!/^-?\d+(\.\d+)?$/.test(value)) throw new BasketError('invalid-order', `${field} must be a decimal string`);
+  const negative = value.startsWith('-');
+  const [whole, fraction = ''] = (negative ? value.slice(1) : value).split('.');
+  if (fraction.length > DECIMALS) throw new BasketError('invalid-order', `${field} has more than ${DECIMALS} decimals`);
+  const units = BigInt(whole) * SCALE + BigInt(fraction.padEnd(DECIMALS, '0'));
+  return negative ? -units : units;
+}
+
+/** Integer division rounding half away from zero */
+function divRound(numerator: bigint, denominator: bigint): bigint {
+  const negative = (numerator < 0n) !== (denominator < 0n);
+  const n = numerator < 0n ? -numerator : numerator;
+  const d = denominator < 0n ? -denominator : denominator;
+  const quotient = (2n * n + d) / (2n * d);
+  return negative ? -quotient : quotient;
+}
+
+function cents(value: bigint): bigint {
+  const step = 10n ** BigInt(DECIMALS - 2);
+  return divRound(value, step) * step;
+}
+
+function formatDecimal(value: bigint, decimals: number): string {
+  const abs = value < 0n ? -value : value;
+  const fraction = (abs % SCALE).toString().padStart(DECIMALS, '0').slice(0, decimals);
+  return `${value < 0n ? '-' : ''}${abs / SCALE}${decimals ? `.${fraction}` : ''}`;
+}
+
+const usd = (value: bigint): string => formatDecimal(cents(value), 2);
+const tokenAmount = (value: bigint): string => formatDecimal(value, DECIMALS).replace(/\.?0+$/, '');
+const multiply = (a: bigint, b: bigint): bigint => divRound(a * b, SCALE);
+
+// ============================================================================
+// STORE
+// ============================================================================
+
+export class MemoryBasketOrderStore implements BasketOrderStore {
+  private readonly orders = new Map<string, BasketOrder>();
+
+  async get(id: string): Promise<BasketOrder | undefined> {
+    return this.orders.get(id);
+  }
+
+  async save(order: BasketOrder): Promise<void> {
+    this.orders.set(order.id, order);
+  }
+
+  async list(): Promise<BasketOrder[]> {
+    return Array.from(this.orders.values());
+  }
+}
+
+// ============================================================================
+// ENGINE
+// ============================================================================
+
+export class CreationRedemptionEngine {
+  private readonly pcfs = new Map<string, PortfolioCompositionFile>();
+  private readonly store: BasketOrderStore;
+  private readonly calendar: ExchangeCalendar;
+  private readonly now: () => number;
+
+  constructor(private readonly options: CreationRedemptionOptions) {
+    this.store = options.store ?? new MemoryBasketOrderStore();
+    this.calendar = options.calendar ?? NYSE_CALENDAR;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Build and publish the PCF for a trading day from its end-of-day NAV
+   *
+   * @param tradeDate - Local 'YYYY-MM-DD'; defaults to, and must match, the
+   * exchange date of the NAV's asOf
+   *
+   * @throws BasketError ('invalid-pcf') for an iNAV, a trade date other than
+   * the NAV's, a non-trading day or a unit size the fund cannot cover
+   *
+   * @example
+   * const pcf = desk.publishPcf(navEngine.calculate(inputs), '2026-10-16');
+   * pcf.components; // [{ holdingId: 'miami-condo', quantity: '25000', price: '18.00', marketValue: '450000.00' }]
+   * pcf.cashComponent; // '65495.00'
+   */
+  publishPcf(nav: NavResult, tradeDate?: string): PortfolioCompositionFile {
+    if (nav.kind !== 'nav') throw new BasketError('invalid-pcf', 'a PCF is built from the end-of-day NAV, not an iNAV');
+    const asOf = new Date(nav.asOf);
+    if (Number.isNaN(asOf.getTime())) throw new BasketError('invalid-pcf', `NAV asOf ${nav.asOf} is not an ISO 8601 date-time`);
+    const navDate = localDate(this.calendar, asOf);
+    if (tradeDate !== undefined && tradeDate !== navDate) {
+      throw new BasketError('invalid-pcf', `NAV as of ${nav.asOf} is for ${navDate}, not ${tradeDate}`);
+    }
+    tradeDate = navDate;
+    if (!isTradingDay(this.calendar, tradeDate)) {
+      throw new BasketError('invalid-pcf', `${tradeDate} is not a ${this.calendar.exchange} trading day`);
+    }
+
+    const unitSize = this.options.creationUnitSize ?? 50_000;
+    const decimals = this.options.componentDecimals ?? 0;
+    const shares = parseDecimal(nav.breakdown.sharesOutstanding, 'sharesOutstanding');
+    if (!Number.isInteger(unitSize) || unitSize <= 0 || BigInt(unitSize) * SCALE > shares) {
+      throw new BasketError('invalid-pcf', `creation unit of ${unitSize} shares exceeds ${nav.breakdown.sharesOutstanding} shares outstanding`);
+    }
+
+    const step = 10n ** BigInt(DECIMALS - decimals);
+    const components = nav.breakdown.holdings.map((holding): BasketComponent => {
+      // Round down so the basket never exceeds the holding's pro-rata share
+      const exact = parseDecimal(holding.quantity, holding.id) * BigInt(unitSize) * SCALE / shares;
+      const quantity = exact / step * step;
+      const price = parseDecimal(holding.price, holding.id);
+      return {
+        holdingId: holding.id,
+        ...(holding.name && { name: holding.name }),
+        quantity: formatDecimal(quantity, decimals),
+        price: holding.price,
+        marketValue: usd(multiply(quantity, price))
+      };
+    }).filter(component => parseDecimal(component.quantity, component.holdingId) > 0n);
+
+    const navPerUnit = cents(parseDecimal(nav.navPerShare, 'navPerShare') * BigInt(unitSize));
+    const basketValue = components.reduce((total, component) => total + parseDecimal(component.marketValue, component.holdingId), 0n);
+
+    const pcf: Omit<PortfolioCompositionFile, 'hash'> = {
+      fund: nav.fund,
+      tradeDate,
+      navAsOf: nav.asOf,
+      navPerShare: nav.navPerShare,
+      creationUnitSize: unitSize,
+      navPerCreationUnit: usd(navPerUnit),
+      components,
+      basketValue: usd(basketValue),
+      cashComponent: usd(navPerUnit - basketValue),
+      fees: { ...DEFAULT_TRANSACTION_FEES, ...this.options.fees },
+      settlementDays: this.options.settlementDays ?? 2
+    };
+    const published = { ...pcf, hash: hashValue(pcf) };
+    this.pcfs.set(tradeDate, published);
+    return published;
+  }
+
+  getPcf(tradeDate: string): PortfolioCompositionFile | null {
+    return this.pcfs.get(tradeDate) ?? null;
+  }
+
+  /**
+   * Check an order against the day's PCF and price it, without submitting it
+   */
+  validateOrder(request: Omit<BasketOrderRequest, 'presentation' | 'binding'>): OrderValidation {
+    const issues: string[] = [];
+    const pcf = this.pcfs.get(request.tradeDate);
+    if (!pcf) issues.push(`no PCF published for ${request.tradeDate}`);
+
+    if (!Number.isInteger(request.creationUnits) || request.creationUnits < 1) {
+      issues.push('creationUnits must be a positive integer');
+    }
+    if (request.method === 'cash' && request.basket?.length) {
+      issues.push('cash orders do not deliver a basket');
+    }
+    if (request.type === 'redemption' && request.basket?.length) {
+      issues.push('redemption baskets are set by the PCF');
+    }
+    if (!pcf || issues.length) return { valid: false, issues };
+
+    const units = BigInt(request.creationUnits);
+    const expected = pcf.components.map(component => ({
+      holdingId: component.holdingId,
+      quantity: parseDecimal(component.quantity, component.holdingId) * units
+    }));
+
+    if (request.type === 'creation' && request.method === 'in-kind' && request.basket) {
+      const delivered = new Map<string, bigint>();
+      for (const delivery of request.basket) {
+        try {
+          delivered.set(delivery.holdingId, (delivered.get(delivery.holdingId) ?? 0n) + parseDecimal(delivery.quantity, delivery.holdingId));
+        } catch (e: unknown) {
+          issues.push(e instanceof Error ? e.message : String(e));
+        }
+      }
+      for (const { holdingId, quantity } of expected) {
+        const actual = delivered.get(holdingId) ?? 0n;
+        if (actual !== quantity) {
+          issues.push(`${holdingId}: delivers ${tokenAmount(actual)}, basket needs ${tokenAmount(quantity)}`);
+        }
+        delivered.delete(holdingId);
+      }
+      issues.push(...Array.from(delivered.keys()).map(holdingId => `${holdingId} is not in the ${pcf.tradeDate} basket`));
+    }
+    if (issues.length) return { valid: false, issues };
+
+    const inKind = request.method === 'in-kind';
+    const basketValue = parseDecimal(pcf.basketValue, 'basketValue') * units;
+    const cashAmount = inKind
+      ? parseDecimal(pcf.cashComponent, 'cashComponent') * units
+      : parseDecimal(pcf.navPerCreationUnit, 'navPerCreationUnit') * units;
+    const fixedFee = cents(parseDecimal(pcf.fees.fixed, 'fees.fixed'));
+    const variableFee = inKind ? 0n : cents(divRound(cashAmount * BigInt(pcf.fees.cashVariableBps), 10_000n));
+    const transactionFee = fixedFee + variableFee;
+    const netCashDue = request.type === 'creation' ? cashAmount + transactionFee : transactionFee - cashAmount;
+
+    return {
+      valid: true,
+      issues,
+      valuation: {
+        shares: String(pcf.creationUnitSize * request.creationUnits),
+        basket: inKind
+          ? expected.map(({ holdingId, quantity }) => ({ holdingId, quantity: formatDecimal(quantity, this.options.componentDecimals ?? 0) }))
+          : [],
+        basketValue: usd(inKind ? basketValue : 0n),
+        cashAmount: usd(cashAmount),
+        fixedFee: usd(fixedFee),
+        variableFee: usd(variableFee),
+        transactionFee: usd(transactionFee),
+        netCashDue: usd(netCashDue)
+      }
+    };
+  }
+
+  /**
+   * Submit an order placed by an Authorized Participant
+   *
+   * @throws BasketError ('unauthorized') when the presentation does not meet
+   * the order type's policy or is held by another DID, ('no-pcf' or
+   * 'invalid-order') when the order does not match the PCF
+   *
+   * @example
+   * const order = await desk.submitOrder({
+   *   participant: 'did:ens:ap1.eth', type: 'creation', method: 'in-kind',
+   *   creationUnits: 2, tradeDate: '2026-10-16', presentation: vpJwt, binding: { challenge }
+   * });
+   * order.settlementDate; // '2026-10-20'
+   */
+  async submitOrder(request: BasketOrderRequest): Promise<BasketOrder> {
+    const operation = ORDER_OPERATIONS[request.type];
+    const policy = `AUTHORIZED_PARTICIPANTS:${operation}`;
+    let holder: string | null;
+    try {
+      ({ holder } = await this.options.accessPolicy.enforce(
+        'AUTHORIZED_PARTICIPANTS', operation, request.presentation, request.binding
+      ));
+    } catch (e: unknown) {
+      if (e instanceof AccessDeniedError) {
+        throw new BasketError('unauthorized', `${request.participant} has no ${policy} authorization: ${e.message}`);
+      }
+      throw e;
+    }
+    if (holder !== request.participant) {
+      throw new BasketError('unauthorized', `${policy} presentation is held by ${holder}, not ${request.participant}`);
+    }
+
+    const pcf = this.pcfs.get(request.tradeDate);
+    if (!pcf) throw new BasketError('no-pcf', `no PCF published for ${request.tradeDate}`);
+    const validation = this.validateOrder(request);
+    if (!validation.valid) throw new BasketError('invalid-order', 'order does not match the PCF', validation.issues);
+
+    const order: BasketOrder = {
+      id: `order_${crypto.randomUUID()}`,
+      participant: request.participant,
+      type: request.type,
+      method: request.method,
+      creationUnits: request.creationUnits,
+      tradeDate: request.tradeDate,
+      settlementDate: addTradingDays(this.calendar, request.tradeDate, pcf.settlementDays),
+      status: 'submitted',
+      pcfHash: pcf.hash,
+      valuation: validation.valuation!,
+      history: [{ status: 'submitted', at: new Date(this.now()).toISOString() }]
+    };
+    await this.store.save(order);
+    return order;
+  }
+
+  /**
+   * Move an order along the state machine
+   *
+   * @throws BasketError ('unknown-order' or 'invalid-transition')
+   */
+  async transition(id: string, status: OrderStatus, note?: string): Promise<BasketOrder> {
+    const order = await this.store.get(id);
+    if (!order) throw new BasketError('unknown-order', `no order ${id}`);
+    if (!ORDER_TRANSITIONS[order.status].includes(status)) {
+      throw new BasketError('invalid-transition', `order ${id} is ${order.status} and cannot become ${status}`);
+    }
+
+    const updated: BasketOrder = {
+      ...order,
+      status,
+      history: [...order.history, { status, at: new Date(this.now()).toISOString(), ...(note && { note }) }]
+    };
+    await this.store.save(updated);
+    return updated;
+  }
+
+  accept(id: string, note?: string): Promise<BasketOrder> {
+    return this.transition(id, 'accepted', note);
+  }
+
+  /** Basket tokens, cash and shares have been delivered by the paying side */
+  markDelivered(id: string, note?: string): Promise<BasketOrder> {
+    return this.transition(id, 'delivered', note);
+  }
+
+  settle(id: string, note?: string): Promise<BasketOrder> {
+    return this.transition(id, 'settled', note);
+  }
+
+  cancel(id: string, note?: string): Promise<BasketOrder> {
+    return this.transition(id, 'cancelled', note);
+  }
+
+  async getOrder(id: string): Promise<BasketOrder | null> {
+    return (await this.store.get(id)) ?? null;
+  }
+
+  async listOrders(query: OrderQuery = {}): Promise<BasketOrder[]> {
+    return (await this.store.list()).filter(order =>
+      (!query.participant || order.participant === query.participant) &&
+      (!query.status || order.status === query.status) &&
+      (!query.tradeDate || order.tradeDate === query.tradeDate));
+  }
+
+  /**
+   * What an AP still owes and is owed on orders that are not settled or cancelled
+   */
+  async getInventory(participant: string): Promise<ParticipantInventory> {
+    const open = (await this.listOrders({ participant }))
+      .filter(order => order.status !== 'settled' && order.status !== 'cancelled');
+
+    const tokensToDeliver = new Map<string, bigint>();
+    const tokensToReceive = new Map<string, bigint>();
+    let sharesToReceive = 0n;
+    let sharesToDeliver = 0n;
+    let netCashDue = 0n;
+
+    for (const order of open) {
+      const shares = BigInt(order.valuation.shares);
+      const tokens = order.type === 'creation' ? tokensToDeliver : tokensToReceive;
+      if (order.type === 'creation') sharesToReceive += shares;
+      else sharesToDeliver += shares;
+      for (const { holdingId, quantity } of order.valuation.basket) {
+        tokens.set(holdingId, (tokens.get(holdingId) ?? 0n) + parseDecimal(quantity, holdingId));
+      }
+      netCashDue += parseDecimal(order.valuation.netCashDue, 'netCashDue');
+    }
+
+    const decimals = this.options.componentDecimals ?? 0;
+    const format = (tokens: Map<string, bigint>) =>
+      Object.fromEntries(Array.from(tokens, ([holdingId, quantity]) => [holdingId, formatDecimal(quantity, decimals)]));
+    return {
+      participant,
+      openOrders: open.length,
+      sharesToReceive: sharesToReceive.toString(),
+      sharesToDeliver: sharesToDeliver.toString(),
+      tokensToDeliver: format(tokensToDeliver),
+      tokensToReceive: format(tokensToReceive),
+      netCashDue: usd(netCashDue)
+    };
+  }
+}
+
+export function createCreationRedemptionEngine(options: CreationRedemptionOptions): CreationRedemptionEngine {
+  return new CreationRedemptionEngine(options);
+}
@@ -0,0 +1,202 @@
+/**
+ * NoblePort Credential Schemas
+ *
+ * Subjects of the credentials the SSI_IDENTITY module issues:
+ *
+ * - KycStatusCredential              investor KYC/AML screening outcome
+ * - AccreditedInvestorCredential     accredited-investor verification
+ * - AuthorizedParticipantCredential  AP membership for creations/redemptions
+ *
+ * Each schema has a runtime validator (checked before signing) and a JSON
+ * Schema document, published at its `id` and referenced from the
+ * credential's `credentialSchema`.
+ *
+ * @see https://www.w3.org/TR/vc-json-schema/
+ */
+
+import {
+  Validator,
+  array,
+  object,
+  oneOf,
+  optional,
+  refine,
+  string
+} from './schema';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const CREDENTIAL_TYPES = {
+  KYC_STATUS: 'KycStatusCredential',
+  ACCREDITED_INVESTOR: 'AccreditedInvestorCredential',
+  AUTHORIZED_PARTICIPANT: 'AuthorizedParticipantCredential'
+} as const;
+
+export type NoblePortCredentialType = typeof CREDENTIAL_TYPES[keyof typeof CREDENTIAL_TYPES];
+
+export interface KycStatusSubject {
+  /** Investor DID */
+  id: string;
+  kycStatus: 'verified' | 'pending' | 'rejected';
+  /** Customer due diligence level */
+  level: 'standard' | 'enhanced';
+  /** ISO 3166-1 alpha-2 country code */
+  jurisdiction: string;
+  /** ISO 8601 date-time the checks completed */
+  verifiedAt: string;
+  /** KYC provider that performed the checks */
+  provider?: string;
+}
+
+export interface AccreditedInvestorSubject {
+  id: string;
+  /** Basis of accreditation, e.g. SEC Rule 501(a) income or net-worth tests */
+  accreditationBasis: 'income' | 'net-worth' | 'professional-certification' | 'entity';
+  /** Offering exemption the verification supports */
+  regulation: 'reg-d-506b' | 'reg-d-506c' | 'reg-s';
+  jurisdiction: string;
+  verifiedAt: string;
+  /** Party that verified the status (e.g. a CPA or broker-dealer) */
+  verifier?: string;
+}
+
+export interface AuthorizedParticipantSubject {
+  id: string;
+  legalName: string;
+  /** ISO 17442 Legal Entity Identifier */
+  lei?: string;
+  /** Participant number in the AP agreement */
+  participantId: string;
+  /** ISO 8601 date the AP agreement took effect */
+  memberSince: string;
+  permissions: Array<'creation' | 'redemption'>;
+}
+
+export interface CredentialSubjects {
+  KycStatusCredential: KycStatusSubject;
+  AccreditedInvestorCredential: AccreditedInvestorSubject;
+  AuthorizedParticipantCredential: AuthorizedParticipantSubject;
+}
+
+export interface CredentialSchemaDefinition<T> {
+  type: NoblePortCredentialType;
+  /** URL the JSON Schema is published at */
+  id: string;
+  /** Validity when the issuer does not set validUntil, in milliseconds */
+  defaultValidityMs: number;
+  validator: Validator<T>;
+  /** JSON Schema (2020-12) of the credentialSubject */
+  jsonSchema: Record<string, unknown>;
+}
+
+const SCHEMA_BASE = 'https://identity.nobleport.io/schemas';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// VALIDATORS
+// ============================================================================
+
+const did = string({ pattern: /^did:[a-z0-9]+:\S+$/ });
+const country = string({ pattern: /^[A-Z]{2}$/ });
+const dateTime = refine(string({ minLength: 1 }), value =>
+  Number.isNaN(Date.parse(value)) ? 'is not an ISO 8601 date-time' : null);
+
+const kycStatusSubject: Validator<KycStatusSubject> = object({
+  id: did,
+  kycStatus: oneOf(['verified', 'pending', 'rejected'] as const),
+  level: oneOf(['standard', 'enhanced'] as const),
+  jurisdiction: country,
+  verifiedAt: dateTime,
+  provider: optional(string({ minLength: 1 }))
+});
+
+const accreditedInvestorSubject: Validator<AccreditedInvestorSubject> = object({
+  id: did,
+  accreditationBasis: oneOf(['income', 'net-worth', 'professional-certification', 'entity'] as const),
+  regulation: oneOf(['reg-d-506b', 'reg-d-506c', 'reg-s'] as const),
+  jurisdiction: country,
+  verifiedAt: dateTime,
+  verifier: optional(string({ minLength: 1 }))
+});
+
+const authorizedParticipantSubject: Validator<AuthorizedParticipantSubject> = object({
+  id: did,
+  legalName: string({ minLength: 1 }),
+  lei: optional(string({ pattern: /^[A-Z0-9]{18}[0-9]{2}$/ })),
+  participantId: string({ minLength: 1 }),
+  memberSince: dateTime,
+  permissions: array(oneOf(['creation', 'redemption'] as const), { minLength: 1 })
+});
+
+// ============================================================================
+// JSON SCHEMAS
+// ============================================================================
+
+function jsonSchema(
+  type: NoblePortCredentialType,
+  properties: Record<string, unknown>,
+  required: string[]
+): Record<string, unknown> {
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    $id: `${SCHEMA_BASE}/${type}.json`,
+    title: type,
+    type: 'object',
+    properties: {
+      credentialSubject: {
+        type: 'object',
+        properties: { id: { type: 'string', pattern: '^did:' }, ...properties },
+        required: ['id', ...required]
+      }
+    },
+    required: ['credentialSubject']
+  };
+}
+
+const countrySchema = { type: 'string', pattern: '^[A-Z]{2}$' };
+const dateTimeSchema = { type: 'string', format: 'date-time' };
+
+export const CREDENTIAL_SCHEMAS: { [K in NoblePortCredentialType]: CredentialSchemaDefinition<CredentialSubjects[K]> } = {
+  KycStatusCredential: {
+    type: CREDENTIAL_TYPES.KYC_STATUS,
+    id: `${SCHEMA_BASE}/KycStatusCredential.json`,
+    defaultValidityMs: 365 * DAY_MS,
+    validator: kycStatusSubject,
+    jsonSchema: jsonSchema(CREDENTIAL_TYPES.KYC_STATUS, {
+      kycStatus: { enum: ['verified', 'pending', 'rejected'] },
+      level: { enum: ['standard', 'enhanced'] },
+      jurisdiction: countrySchema,
+      verifiedAt: dateTimeSchema,
+      provider: { type: 'string' }
+    }, ['kycStatus', 'level', 'jurisdiction', 'verifiedAt'])
+  },
+  AccreditedInvestorCredential: {
+    type: CREDENTIAL_TYPES.ACCREDITED_INVESTOR,
+    id: `${SCHEMA_BASE}/AccreditedInvestorCredential.json`,
+    // Rule 506(c) verification letters cover the prior three months
+    defaultValidityMs: 90 * DAY_MS,
+    validator: accreditedInvestorSubject,
+    jsonSchema: jsonSchema(CREDENTIAL_TYPES.ACCREDITED_INVESTOR, {
+      accreditationBasis: { enum: ['income', 'net-worth', 'professional-certification', 'entity'] },
+      regulation: { enum: ['reg-d-506b', 'reg-d-506c', 'reg-s'] },
+      jurisdiction: countrySchema,
+      verifiedAt: dateTimeSchema,
+      verifier: { type: 'string' }
+    }, ['accreditationBasis', 'regulation', 'jurisdiction', 'verifiedAt'])
+  },
+  AuthorizedParticipantCredential: {
+    type: CREDENTIAL_TYPES.AUTHORIZED_PARTICIPANT,
+    id: `${SCHEMA_BASE}/AuthorizedParticipantCredential.json`,
+    defaultValidityMs: 365 * DAY_MS,
+    validator: authorizedParticipantSubject,
+    jsonSchema: jsonSchema(CREDENTIAL_TYPES.AUTHORIZED_PARTICIPANT, {
+      legalName: { type: 'string', minLength: 1 },
+      lei: { type: 'string', pattern: '^[A-Z0-9]{18}[0-9]{2}$' },
+      participantId: { type: 'string', minLength: 1 },
+      memberSince: dateTimeSchema,
+      permissions: { type: 'array', items: { enum: ['creation', 'redemption'] }, minItems: 1 }
+    }, ['legalName', 'participantId', 'memberSince', 'permissions'])
+  }
+};
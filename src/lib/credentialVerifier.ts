@@ -0,0 +1,687 @@
+/**
+ * Verifiable Credential and Presentation Verification
+ *
+ * Verifies what holders present to NoblePort modules:
+ *
+ * Presentation (VC-JOSE-COSE `vp+jwt`, or an ecdsa-jcs-2019 proof with
+ * proofPurpose 'authentication')
+ * - signed by one of the holder DID's authentication keys
+ * - bound to the verifier's challenge (`nonce` / proof.challenge) and
+ *   domain (`aud` / proof.domain), fresh, and not replayed
+ *
+ * Each credential (`vc+jwt`, possibly enveloped, or ecdsa-jcs-2019)
+ * - signed by one of the issuer DID's assertionMethod keys
+ * - within validFrom / validUntil
+ * - not revoked or suspended in its Bitstring Status List, whose status
+ *   list credential must itself be signed by the same issuer
+ * - subject matches the credential type's schema and is the holder
+ *
+ * Presentation failures throw a VerificationError. Credential failures are
+ * collected per credential so policies (accessPolicy.ts) and the dashboard
+ * can report them.
+ */
+
+import type { DIDDocument, DIDResolutionResult, VerificationMethod } from 'did-resolver';
+import { ethers } from 'ethers';
+import { CREDENTIAL_SCHEMAS, NoblePortCredentialType } from './credentialSchemas';
+import {
+  VC_CONTEXT_V2,
+  VC_JWT_TYPE,
+  VP_JWT_TYPE,
+  CredentialAlgorithm,
+  CredentialFormat,
+  DataIntegrityProof,
+  PresentationJwtClaims,
+  VerifiableCredential,
+  VerifiablePresentation,
+  dataIntegrityHashData
+} from './credentials';
+import { DidAuthError, NonceCache, findVerificationMethod, secp256k1SignatureMatches } from './didAuth';
+import type { VerificationRelationship } from './didValidation';
+import { formatIssues, validate } from './schema';
+import { BitstringStatusListEntry, BitstringStatusListSubject, StatusPurpose, decodeStatusList, getStatusBit } from './statusList';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type VerificationErrorCode =
+  | 'malformed'
+  | 'unsupported'
+  | 'unresolved'
+  | 'unknown-key'
+  | 'bad-signature'
+  | 'not-yet-valid'
+  | 'expired'
+  | 'revoked'
+  | 'suspended'
+  | 'status-unavailable'
+  | 'invalid-subject'
+  | 'subject-mismatch'
+  | 'challenge-mismatch'
+  | 'domain-mismatch'
+  | 'replayed';
+
+/**
+ * Raised when a presentation does not verify; also the shape of
+ * per-credential issues
+ */
+export class VerificationError extends Error {
+  readonly code: VerificationErrorCode;
+
+  constructor(code: VerificationErrorCode, message: string) {
+    super(message);
+    this.name = 'VerificationError';
+    this.code = code;
+  }
+}
+
+export interface VerificationIssue {
+  code: VerificationErrorCode;
+  message: string;
+}
+
+export interface CredentialStatusResult {
+  purpose: StatusPurpose;
+  index: number;
+  /** True when revoked (or suspended) */
+  set: boolean;
+}
+
+export interface CredentialCheck {
+  format: CredentialFormat;
+  /** Decoded credential; null when it could not be parsed */
+  credential: VerifiableCredential<Record<string, unknown>> | null;
+  issuer: string | null;
+  keyId: string | null;
+  /** Issuer's verification method that signed the credential */
+  verificationMethod: VerificationMethod | null;
+  /** Status list entries that could be checked */
+  status: CredentialStatusResult[];
+  /** True when there are no issues */
+  verified: boolean;
+  issues: VerificationIssue[];
+}
+
+export interface PresentationBinding {
+  /** Nonce the verifier handed to the holder */
+  challenge: string;
+  /** Verifier's domain, if the presentation must name it */
+  domain?: string;
+}
+
+export interface PresentationVerification {
+  format: CredentialFormat;
+  holder: string;
+  keyId: string;
+  /** Challenge and domain the holder signed (`nonce` / `aud` in a JWT) */
+  challenge: string | null;
+  domain: string | null;
+  presentation: VerifiablePresentation;
+  credentials: CredentialCheck[];
+  /** True when every credential verified */
+  verified: boolean;
+}
+
+export interface PresentationInspection extends PresentationVerification {
+  /** Presentation-level problems (holder signature, expiry) */
+  issues: VerificationIssue[];
+}
+
+export type Inspection =
+  | { kind: 'credential'; credential: CredentialCheck }
+  | { kind: 'presentation'; presentation: PresentationInspection };
+
+export interface CredentialVerifierOptions {
+  /** DID resolution, e.g. `(did) => keyDidResolver.resolve(did)` */
+  resolve: (did: string) => Promise<DIDResolutionResult>;
+  /**
+   * Fetch a status list credential as a JWT or JSON (default: fetch()).
+   * Only https lists of credentials whose signature verified are fetched.
+   */
+  fetchStatusList?: (url: string) => Promise<string | VerifiableCredential<unknown>>;
+  /** Allowed clock difference in seconds (default: 60) */
+  maxSkewSeconds?: number;
+  /** Oldest accepted Data Integrity presentation, in seconds (default: 300) */
+  maxPresentationAgeSeconds?: number;
+  replayCache?: NonceCache;
+  /** Current time in milliseconds (default: Date.now) */
+  now?: () => number;
+}
+
+/** A decoded JWT or Data Integrity document with what its signature covers */
+interface Secured {
+  format: CredentialFormat;
+  document: Record<string, unknown>;
+  alg: CredentialAlgorithm;
+  keyId: string;
+  signedData: Uint8Array;
+  signature: Uint8Array;
+  proof: DataIntegrityProof | null;
+}
+
+interface ParsedPresentation {
+  secured: Secured;
+  presentation: VerifiablePresentation;
+  holder: string;
+  challenge: string | null;
+  domain: string | null;
+  /** Milliseconds since the epoch (JWT exp, or proof created plus the maximum age) */
+  expiresAt: number;
+}
+
+type StatusListCache = Map<string, Promise<{ purpose: StatusPurpose; bits: Uint8Array }>>;
+
+const ENVELOPED_JWT_PREFIX = `data:application/${VC_JWT_TYPE},`;
+
+// ============================================================================
+// DECODING
+// ============================================================================
+
+function fromBase64url(text: string): Uint8Array {
+  if (!/^[A-Za-z0-9_-]*$/.test(text)) throw new VerificationError('malformed', 'token is not base64url');
+  const padded = text.replace(/-/g, '+').replace(/_/g, '/') + '='.repeat((4 - text.length % 4) % 4);
+  return ethers.decodeBase64(padded);
+}
+
+function decodeJson(segment: string, what: string): Record<string, unknown> {
+  try {
+    const value = JSON.parse(ethers.toUtf8String(fromBase64url(segment)));
+    if (value && typeof value === 'object' && !Array.isArray(value)) return value;
+  } catch {
+    // reported below
+  }
+  throw new VerificationError('malformed', `JWT ${what} is not a JSON object`);
+}
+
+function decodeSecured(input: string | object, jwtType: string): Secured {
+  if (typeof input === 'string') {
+    const parts = input.trim().split('.');
+    if (parts.length !== 3) throw new VerificationError('malformed', 'not a compact JWS');
+    const header = decodeJson(parts[0], 'header');
+    if (header.typ !== jwtType) throw new VerificationError('malformed', `JWT typ is ${header.typ ?? '(none)'}, expected ${jwtType}`);
+    if (header.alg !== 'ES256K' && header.alg !== 'ES256') {
+      throw new VerificationError('unsupported', `unsupported alg ${header.alg}`);
+    }
+    if (typeof header.kid !== 'string') throw new VerificationError('malformed', 'JWT header has no kid');
+    return {
+      format: 'jwt',
+      document: decodeJson(parts[1], 'payload'),
+      alg: header.alg,
+      keyId: header.kid,
+      signedData: ethers.toUtf8Bytes(`${parts[0]}.${parts[1]}`),
+      signature: fromBase64url(parts[2]),
+      proof: null
+    };
+  }
+
+  const document = input as Record<string, unknown>;
+  const proof = document.proof as DataIntegrityProof | undefined;
+  if (!proof || typeof proof !== 'object') throw new VerificationError('malformed', 'document has no proof');
+  if (proof.type !== 'DataIntegrityProof' || proof.cryptosuite !== 'ecdsa-jcs-2019') {
+    throw new VerificationError('unsupported', `unsupported proof ${proof.type}/${proof.cryptosuite}`);
+  }
+  if (typeof proof.verificationMethod !== 'string' || typeof proof.proofValue !== 'string' || !proof.proofValue.startsWith('z')) {
+    throw new VerificationError('malformed', 'proof needs a verificationMethod and a base58-btc proofValue');
+  }
+
+  let signature: Uint8Array;
+  try {
+    signature = ethers.getBytes(ethers.toBeHex(ethers.decodeBase58(proof.proofValue.slice(1)), 64));
+  } catch {
+    throw new VerificationError('malformed', 'proofValue is not a 64-byte signature');
+  }
+  const { proofValue: _signature, ...options } = proof;
+  return {
+    format: 'data-integrity',
+    document,
+    alg: 'ES256',
+    keyId: proof.verificationMethod,
+    signedData: dataIntegrityHashData(document, options),
+    signature,
+    proof
+  };
+}
+
+/**
+ * Whether a JWT or JSON document is a presentation rather than a credential
+ */
+export function isPresentation(input: string | object): boolean {
+  if (typeof input !== 'string') {
+    const type = (input as { type?: unknown }).type;
+    return Array.isArray(type) && type.includes('VerifiablePresentation');
+  }
+  try {
+    return decodeJson(input.trim().split('.')[0], 'header').typ === VP_JWT_TYPE;
+  } catch {
+    return false;
+  }
+}
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+const P256_MULTICODEC = '0x8024';
+
+/** P-256 field prime and curve coefficient b */
+const P256_P = 0xffffffff00000001000000000000000000000000ffffffffffffffffffffffffn;
+const P256_B = 0x5ac635d8aa3a93e7b3ebbd55769886bc651d06b0cc53b0f63bce3c3e27d2604bn;
+
+function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+  let result = 1n;
+  for (base %= modulus; exponent > 0n; exponent >>= 1n, base = base * base % modulus) {
+    if (exponent & 1n) result = result * base % modulus;
+  }
+  return result;
+}
+
+/** Uncompressed point from a compressed P-256 key (not every WebCrypto imports compressed keys) */
+function decompressP256(compressed: Uint8Array): Uint8Array {
+  const x = BigInt(ethers.hexlify(compressed.slice(1)));
+  const rhs = ((x ** 3n - 3n * x + P256_B) % P256_P + P256_P) % P256_P;
+  let y = modPow(rhs, (P256_P + 1n) / 4n, P256_P);
+  if ((y & 1n) !== BigInt(compressed[0] & 1)) y = P256_P - y;
+  return ethers.getBytes(ethers.concat(['0x04', ethers.toBeHex(x, 32), ethers.toBeHex(y, 32)]));
+}
+
+async function p256PublicKey(method: VerificationMethod): Promise<CryptoKey | null> {
+  const algorithm = { name: 'ECDSA', namedCurve: 'P-256' };
+  const jwk = method.publicKeyJwk;
+  if (jwk?.kty === 'EC' && jwk.crv === 'P-256' && jwk.x && jwk.y) {
+    return crypto.subtle.importKey('jwk', { kty: 'EC', crv: 'P-256', x: jwk.x, y: jwk.y }, algorithm, false, ['verify']);
+  }
+
+  if (method.publicKeyMultibase?.startsWith('z')) {
+    let bytes: string;
+    try {
+      bytes = ethers.toBeHex(ethers.decodeBase58(method.publicKeyMultibase.slice(1)), 35);
+    } catch {
+      return null;
+    }
+    if (!bytes.startsWith(P256_MULTICODEC)) return null;
+    const raw = decompressP256(ethers.getBytes(`0x${bytes.slice(P256_MULTICODEC.length)}`));
+    return crypto.subtle.importKey('raw', new Uint8Array(raw), algorithm, false, ['verify']);
+  }
+  return null;
+}
+
+/**
+ * Whether a verification method's key made an r||s signature over the data
+ *
+ * @returns null when the method has no key usable with the algorithm
+ */
+async function signatureMatches(
+  method: VerificationMethod,
+  alg: CredentialAlgorithm,
+  data: Uint8Array,
+  signature: Uint8Array
+): Promise<boolean | null> {
+  if (signature.length !== 64) return false;
+
+  if (alg === 'ES256K') {
+    try {
+      return secp256k1SignatureMatches(method, ethers.sha256(data), signature);
+    } catch (e: unknown) {
+      if (e instanceof DidAuthError) return null;
+      throw e;
+    }
+  }
+
+  const key = await p256PublicKey(method);
+  if (!key) return null;
+  return crypto.subtle.verify({ name: 'ECDSA', hash: 'SHA-256' }, key, new Uint8Array(signature), new Uint8Array(data));
+}
+
+async function defaultFetchStatusList(url: string): Promise<string | VerifiableCredential<unknown>> {
+  const response = await fetch(url, { headers: { accept: 'application/vc+jwt, application/vc+ld+json, application/json' } });
+  if (!response.ok) throw new Error(`${url} returned HTTP ${response.status}`);
+  const body = (await response.text()).trim();
+  return body.startsWith('{') ? JSON.parse(body) : body;
+}
+
+function issuerId(credential: VerifiableCredential<unknown>): string | null {
+  const issuer = credential.issuer as unknown;
+  if (typeof issuer === 'string') return issuer;
+  const id = (issuer as { id?: unknown } | null)?.id;
+  return typeof id === 'string' ? id : null;
+}
+
+function toIssue(e: unknown, fallback: VerificationErrorCode): VerificationIssue {
+  return e instanceof VerificationError
+    ? { code: e.code, message: e.message }
+    : { code: fallback, message: e instanceof Error ? e.message : String(e) };
+}
+
+// ============================================================================
+// VERIFIER
+// ============================================================================
+
+/**
+ * Random challenge for a holder to bind a presentation to
+ */
+export function createChallenge(): string {
+  return ethers.hexlify(ethers.randomBytes(16)).slice(2);
+}
+
+export class CredentialVerifier {
+  private readonly replayCache: NonceCache;
+
+  constructor(private readonly options: CredentialVerifierOptions) {
+    this.replayCache = options.replayCache ?? new NonceCache();
+  }
+
+  /**
+   * Verify one credential (a `vc+jwt` or a Data Integrity JSON credential)
+   *
+   * Never throws for a bad credential; see `issues`.
+   *
+   * @param holder - Expected credentialSubject.id
+   */
+  async verifyCredential(input: string | VerifiableCredential<unknown>, holder?: string): Promise<CredentialCheck> {
+    return this.checkCredential(input, holder, new Map());
+  }
+
+  /**
+   * Verify a presentation and every credential in it
+   *
+   * @throws VerificationError when the presentation itself is malformed,
+   * not signed by the holder, not bound to the challenge/domain, stale or
+   * replayed
+   *
+   * @example
+   * const result = await verifier.verifyPresentation(vpJwt, { challenge, domain: 'investors.nobleport.eth' });
+   * result.credentials.filter(check => !check.verified); // what failed and why
+   */
+  async verifyPresentation(
+    input: string | VerifiablePresentation,
+    binding: PresentationBinding
+  ): Promise<PresentationVerification> {
+    const parsed = this.parsePresentation(input);
+    const { secured, presentation, holder } = parsed;
+    await this.authenticate(secured, holder, 'authentication');
+
+    if (parsed.challenge !== binding.challenge) {
+      throw new VerificationError('challenge-mismatch', 'presentation is not bound to this challenge');
+    }
+    if (binding.domain !== undefined && parsed.domain !== binding.domain) {
+      throw new VerificationError('domain-mismatch', `presentation is for ${parsed.domain ?? '(no domain)'}, not ${binding.domain}`);
+    }
+
+    const now = this.options.now?.() ?? Date.now();
+    const maxSkew = (this.options.maxSkewSeconds ?? 60) * 1000;
+    if (parsed.expiresAt < now - maxSkew) throw new VerificationError('expired', 'presentation has expired');
+
+    // Only spend the challenge once the presentation is known to be genuine
+    if (!this.replayCache.use(holder, binding.challenge, parsed.expiresAt + maxSkew, now)) {
+      throw new VerificationError('replayed', 'challenge was already used');
+    }
+
+    const credentials = await this.checkCredentials(presentation, holder);
+    return {
+      format: secured.format,
+      holder,
+      keyId: secured.keyId,
+      challenge: parsed.challenge,
+      domain: parsed.domain,
+      presentation,
+      credentials,
+      verified: credentials.every(check => check.verified)
+    };
+  }
+
+  /**
+   * Check a presentation without a challenge, e.g. to display one
+   *
+   * Holder signature and expiry problems are reported in `issues` rather
+   * than thrown, and the challenge is not spent. Not for access decisions.
+   *
+   * @throws VerificationError ('malformed' or 'unsupported') when it cannot be decoded
+   */
+  async inspectPresentation(input: string | VerifiablePresentation): Promise<PresentationInspection> {
+    const parsed = this.parsePresentation(input);
+    const { secured, presentation, holder } = parsed;
+    const issues: VerificationIssue[] = [];
+
+    try {
+      await this.authenticate(secured, holder, 'authentication');
+    } catch (e: unknown) {
+      issues.push(toIssue(e, 'bad-signature'));
+    }
+    const maxSkew = (this.options.maxSkewSeconds ?? 60) * 1000;
+    if (parsed.expiresAt < (this.options.now?.() ?? Date.now()) - maxSkew) {
+      issues.push({ code: 'expired', message: `presentation expired at ${new Date(parsed.expiresAt).toISOString()}` });
+    }
+
+    const credentials = await this.checkCredentials(presentation, holder);
+    return {
+      format: secured.format,
+      holder,
+      keyId: secured.keyId,
+      challenge: parsed.challenge,
+      domain: parsed.domain,
+      presentation,
+      credentials,
+      issues,
+      verified: !issues.length && credentials.every(check => check.verified)
+    };
+  }
+
+  /**
+   * Check a credential or a presentation, whichever the input is
+   *
+   * @throws VerificationError when a presentation cannot be decoded
+   */
+  async inspect(input: string | object): Promise<Inspection> {
+    if (isPresentation(input)) {
+      return { kind: 'presentation', presentation: await this.inspectPresentation(input as string | VerifiablePresentation) };
+    }
+    return { kind: 'credential', credential: await this.verifyCredential(input as string | VerifiableCredential<unknown>) };
+  }
+
+  private parsePresentation(input: string | VerifiablePresentation): ParsedPresentation {
+    const secured = decodeSecured(input, VP_JWT_TYPE);
+    const presentation = secured.document as unknown as VerifiablePresentation & Partial<PresentationJwtClaims>;
+
+    if (!Array.isArray(presentation.type) || !presentation.type.includes('VerifiablePresentation')) {
+      throw new VerificationError('malformed', 'not a VerifiablePresentation');
+    }
+    if (typeof presentation.holder !== 'string' || !Array.isArray(presentation.verifiableCredential)) {
+      throw new VerificationError('malformed', 'presentation needs a holder and verifiableCredential');
+    }
+
+    let expiresAt: number;
+    if (secured.proof) {
+      if (secured.proof.proofPurpose !== 'authentication') {
+        throw new VerificationError('malformed', `presentation proofPurpose is ${secured.proof.proofPurpose}, expected authentication`);
+      }
+      const created = Date.parse(secured.proof.created);
+      const maxSkew = (this.options.maxSkewSeconds ?? 60) * 1000;
+      if (Number.isNaN(created) || created > (this.options.now?.() ?? Date.now()) + maxSkew) {
+        throw new VerificationError('malformed', 'proof created time is invalid or in the future');
+      }
+      expiresAt = created + (this.options.maxPresentationAgeSeconds ?? 300) * 1000;
+    } else {
+      if (typeof presentation.exp !== 'number') throw new VerificationError('malformed', 'presentation JWT has no exp');
+      expiresAt = presentation.exp * 1000;
+    }
+
+    return {
+      secured,
+      presentation,
+      holder: presentation.holder,
+      challenge: (secured.proof ? secured.proof.challenge : presentation.nonce) ?? null,
+      domain: (secured.proof ? secured.proof.domain : presentation.aud) ?? null,
+      expiresAt
+    };
+  }
+
+  private checkCredentials(presentation: VerifiablePresentation, holder: string): Promise<CredentialCheck[]> {
+    const statusLists: StatusListCache = new Map();
+    return Promise.all(presentation.verifiableCredential.map(entry => {
+      const { type, id } = entry as { type?: unknown; id?: unknown };
+      const jwt = type === 'EnvelopedVerifiableCredential' && typeof id === 'string' && id.startsWith(ENVELOPED_JWT_PREFIX)
+        ? id.slice(ENVELOPED_JWT_PREFIX.length)
+        : null;
+      return this.checkCredential(jwt ?? entry as VerifiableCredential<unknown>, holder, statusLists);
+    }));
+  }
+
+  /**
+   * Verify a signature against a key the DID authorizes for a relationship
+   */
+  private async authenticate(secured: Secured, did: string, relationship: VerificationRelationship): Promise<VerificationMethod> {
+    if (secured.keyId.split('#')[0] !== did) {
+      throw new VerificationError('unknown-key', `${secured.keyId} is not a key of ${did}`);
+    }
+
+    let document: DIDDocument | null;
+    try {
+      const resolution = await this.options.resolve(did);
+      document = resolution.didDocument;
+      if (!document) throw new Error(resolution.didResolutionMetadata.error ?? 'no document');
+    } catch (e: unknown) {
+      throw new VerificationError('unresolved', `${did} did not resolve: ${e instanceof Error ? e.message : String(e)}`);
+    }
+
+    const method = findVerificationMethod(document, secured.keyId, relationship);
+    if (!method) throw new VerificationError('unknown-key', `${secured.keyId} is not in the ${relationship} of ${did}`);
+
+    const matches = await signatureMatches(method, secured.alg, secured.signedData, secured.signature);
+    if (matches === null) {
+      throw new VerificationError('unsupported', `${secured.keyId} (${method.type}) has no key usable with ${secured.alg}`);
+    }
+    if (!matches) throw new VerificationError('bad-signature', `signature does not match ${secured.keyId}`);
+    return method;
+  }
+
+  private async checkCredential(
+    input: string | VerifiableCredential<unknown>,
+    holder: string | undefined,
+    statusLists: StatusListCache
+  ): Promise<CredentialCheck> {
+    const check: CredentialCheck = {
+      format: typeof input === 'string' ? 'jwt' : 'data-integrity',
+      credential: null,
+      issuer: null,
+      keyId: null,
+      verificationMethod: null,
+      status: [],
+      verified: false,
+      issues: []
+    };
+
+    let secured: Secured;
+    try {
+      secured = decodeSecured(input, VC_JWT_TYPE);
+    } catch (e: unknown) {
+      check.issues.push(toIssue(e, 'malformed'));
+      return check;
+    }
+
+    const credential = secured.document as unknown as VerifiableCredential<Record<string, unknown>>;
+    const issuer = issuerId(credential);
+    check.issuer = issuer;
+    check.keyId = secured.keyId;
+
+    if (!Array.isArray(credential['@context']) || credential['@context'][0] !== VC_CONTEXT_V2
+      || !Array.isArray(credential.type) || !credential.type.includes('VerifiableCredential')
+      || !issuer || !credential.credentialSubject || typeof credential.credentialSubject !== 'object') {
+      check.issues.push({ code: 'malformed', message: 'not a VC Data Model 2.0 credential' });
+      return check;
+    }
+    // Only credentials of the expected shape are handed out
+    check.credential = credential;
+
+    try {
+      check.verificationMethod = await this.authenticate(secured, issuer, 'assertionMethod');
+    } catch (e: unknown) {
+      check.issues.push(toIssue(e, 'bad-signature'));
+    }
+
+    const now = this.options.now?.() ?? Date.now();
+    const maxSkew = (this.options.maxSkewSeconds ?? 60) * 1000;
+    const validFrom = Date.parse(credential.validFrom);
+    const validUntil = credential.validUntil === undefined ? Infinity : Date.parse(credential.validUntil);
+    if (Number.isNaN(validFrom) || Number.isNaN(validUntil)) {
+      check.issues.push({ code: 'malformed', message: 'validFrom/validUntil is not a date-time' });
+    } else if (validFrom > now + maxSkew) {
+      check.issues.push({ code: 'not-yet-valid', message: `not valid until ${credential.validFrom}` });
+    } else if (validUntil < now - maxSkew) {
+      check.issues.push({ code: 'expired', message: `expired at ${credential.validUntil}` });
+    }
+
+    // Status list URLs come from the credential: only follow them once the
+    // issuer's signature has verified
+    const entries = !check.verificationMethod ? [] : ([] as unknown[]).concat(credential.credentialStatus ?? [])
+      .filter((entry): entry is BitstringStatusListEntry => (entry as { type?: unknown } | null)?.type === 'BitstringStatusListEntry');
+    for (const entry of entries) {
+      try {
+        const list = await this.loadStatusList(entry.statusListCredential, issuer, statusLists);
+        if (list.purpose !== entry.statusPurpose) {
+          throw new VerificationError('status-unavailable', `${entry.statusListCredential} is a ${list.purpose} list, not ${entry.statusPurpose}`);
+        }
+        const index = Number(entry.statusListIndex);
+        const set = getStatusBit(list.bits, index);
+        check.status.push({ purpose: entry.statusPurpose, index, set });
+        if (set) {
+          check.issues.push(entry.statusPurpose === 'suspension'
+            ? { code: 'suspended', message: `suspended in ${entry.statusListCredential}` }
+            : { code: 'revoked', message: `revoked in ${entry.statusListCredential}` });
+        }
+      } catch (e: unknown) {
+        const issue = toIssue(e, 'status-unavailable');
+        check.issues.push({ code: 'status-unavailable', message: `status ${entry.id}: ${issue.message}` });
+      }
+    }
+
+    const type = credential.type.find(name => Object.prototype.hasOwnProperty.call(CREDENTIAL_SCHEMAS, name)) as NoblePortCredentialType | undefined;
+    if (type) {
+      const result = validate<unknown>(CREDENTIAL_SCHEMAS[type].validator, credential.credentialSubject, '$.credentialSubject');
+      if (!result.ok) check.issues.push({ code: 'invalid-subject', message: formatIssues(result.issues) });
+    }
+
+    if (holder !== undefined && credential.credentialSubject.id !== holder) {
+      check.issues.push({ code: 'subject-mismatch', message: `subject ${String(credential.credentialSubject.id)} is not the holder ${holder}` });
+    }
+
+    check.verified = check.issues.length === 0;
+    return check;
+  }
+
+  private loadStatusList(url: string, issuer: string, cache: StatusListCache) {
+    if (!/^https:\/\//.test(String(url))) {
+      return Promise.reject(new VerificationError('status-unavailable', `${url} is not an https URL`));
+    }
+    // Credentials in one presentation usually share a list
+    let list = cache.get(url);
+    if (!list) {
+      list = this.fetchStatusList(url, issuer);
+      cache.set(url, list);
+    }
+    return list;
+  }
+
+  private async fetchStatusList(url: string, issuer: string): Promise<{ purpose: StatusPurpose; bits: Uint8Array }> {
+    const secured = decodeSecured(await (this.options.fetchStatusList ?? defaultFetchStatusList)(url), VC_JWT_TYPE);
+    const credential = secured.document as unknown as VerifiableCredential<BitstringStatusListSubject>;
+
+    if (!Array.isArray(credential.type) || !credential.type.includes('BitstringStatusListCredential')) {
+      throw new VerificationError('status-unavailable', `${url} is not a BitstringStatusListCredential`);
+    }
+    if (issuerId(credential) !== issuer) {
+      throw new VerificationError('status-unavailable', `${url} is issued by ${issuerId(credential)}, not ${issuer}`);
+    }
+    await this.authenticate(secured, issuer, 'assertionMethod');
+
+    const validUntil = credential.validUntil === undefined ? Infinity : Date.parse(credential.validUntil);
+    if (validUntil < (this.options.now?.() ?? Date.now())) {
+      throw new VerificationError('status-unavailable', `${url} expired at ${credential.validUntil}`);
+    }
+    return { purpose: credential.credentialSubject.statusPurpose, bits: await decodeStatusList(credential.credentialSubject.encodedList) };
+  }
+}
+
+export function createCredentialVerifier(options: CredentialVerifierOptions): CredentialVerifier {
+  return new CredentialVerifier(options);
+}
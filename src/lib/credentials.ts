@@ -0,0 +1,598 @@
+/**
+ * Verifiable Credential Issuance
+ *
+ * The SSI_IDENTITY module (did:ens:identity.nobleport.eth, or the root
+ * did:ens:nobleport.eth) issues W3C Verifiable Credentials (Data Model 2.0)
+ * about investors and Authorized Participants:
+ *
+ *   KycStatusCredential              KYC/AML outcome         valid 1 year
+ *   AccreditedInvestorCredential     accredited investor     valid 90 days
+ *   AuthorizedParticipantCredential  AP membership           valid 1 year
+ *
+ * Two securing formats:
+ *
+ *   jwt             VC-JOSE-COSE compact JWS with the credential as payload
+ *                   header { alg: 'ES256K' | 'ES256', kid, typ: 'vc+jwt', cty: 'vc' }
+ *   data-integrity  embedded DataIntegrityProof, cryptosuite ecdsa-jcs-2019
+ *                   (P-256 keys only)
+ *
+ * Every credential carries a credentialSchema, a validUntil and a
+ * BitstringStatusListEntry; revoking flips its bit in the issuer's status
+ * list, published as a signed BitstringStatusListCredential at the list URL.
+ *
+ * Signing keys must be assertionMethod keys of the issuer DID: the ENS
+ * address (ES256K, published by ens-did-resolver), or a P-256 Multikey set
+ * through the name's org.w3c.did.verificationMethod and
+ * org.w3c.did.assertionMethod text records (see assertionMethodRecords()).
+ *
+ * Holders pass credentials on in a Verifiable Presentation
+ * (createPresentation()) bound to the verifier's challenge and domain;
+ * credentialVerifier.ts checks both.
+ *
+ * @see https://www.w3.org/TR/vc-data-model-2.0/
+ * @see https://www.w3.org/TR/vc-jose-cose/
+ * @see https://www.w3.org/TR/vc-di-ecdsa/#ecdsa-jcs-2019
+ */
+
+import type { VerificationMethod } from 'did-resolver';
+import { ethers } from 'ethers';
+import {
+  CREDENTIAL_SCHEMAS,
+  CREDENTIAL_TYPES,
+  AccreditedInvestorSubject,
+  AuthorizedParticipantSubject,
+  CredentialSubjects,
+  KycStatusSubject,
+  NoblePortCredentialType
+} from './credentialSchemas';
+import { formatIssues, validate } from './schema';
+import { BitstringStatusListEntry, BitstringStatusListSubject, StatusList } from './statusList';
+import { canonicalJson } from './taskLedger';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const VC_CONTEXT_V2 = 'https://www.w3.org/ns/credentials/v2';
+
+export const VC_JWT_TYPE = 'vc+jwt';
+
+export const VP_JWT_TYPE = 'vp+jwt';
+
+/** DIDs credentials are issued as */
+export const CREDENTIAL_ISSUERS = {
+  ROOT: 'did:ens:nobleport.eth',
+  IDENTITY: 'did:ens:identity.nobleport.eth'
+} as const;
+
+export const DEFAULT_STATUS_LIST_URL = 'https://identity.nobleport.io/status/revocation/1';
+
+export type CredentialFormat = 'jwt' | 'data-integrity';
+
+export type CredentialAlgorithm = 'ES256K' | 'ES256';
+
+export interface CredentialSchemaReference {
+  id: string;
+  type: 'JsonSchema';
+}
+
+export interface DataIntegrityProof {
+  type: 'DataIntegrityProof';
+  cryptosuite: 'ecdsa-jcs-2019';
+  created: string;
+  verificationMethod: string;
+  /** 'assertionMethod' for credentials, 'authentication' for presentations */
+  proofPurpose: 'assertionMethod' | 'authentication';
+  /** Verifier's nonce (presentations) */
+  challenge?: string;
+  /** Verifier's domain (presentations) */
+  domain?: string;
+  /** Multibase base58-btc r||s signature */
+  proofValue: string;
+}
+
+export interface VerifiableCredential<S = Record<string, unknown>> {
+  '@context': string[];
+  id: string;
+  type: string[];
+  issuer: string;
+  validFrom: string;
+  validUntil?: string;
+  credentialSubject: S;
+  credentialStatus?: BitstringStatusListEntry;
+  credentialSchema?: CredentialSchemaReference;
+  proof?: DataIntegrityProof;
+}
+
+/** A JWT credential inside a presentation */
+export interface EnvelopedVerifiableCredential {
+  '@context': string;
+  /** `data:application/vc+jwt,<jwt>` */
+  id: string;
+  type: 'EnvelopedVerifiableCredential';
+}
+
+export interface VerifiablePresentation {
+  '@context': string[];
+  type: string[];
+  holder: string;
+  verifiableCredential: Array<VerifiableCredential<unknown> | EnvelopedVerifiableCredential>;
+  proof?: DataIntegrityProof;
+}
+
+/** JWT claims binding a 'jwt' presentation to one verifier request */
+export interface PresentationJwtClaims {
+  /** Verifier's challenge */
+  nonce: string;
+  /** Verifier's domain */
+  aud?: string;
+  iat: number;
+  exp: number;
+}
+
+export interface PresentationOptions {
+  holder: string;
+  /** One of the holder's authentication keys */
+  key: CredentialSigningKey;
+  /** Nonce from the verifier */
+  challenge: string;
+  /** Verifier's domain, when it asked for one */
+  domain?: string;
+  /** Default: 'jwt' ('data-integrity' needs a P-256 key) */
+  format?: CredentialFormat;
+  /** Lifetime of a 'jwt' presentation in seconds (default: 300) */
+  ttlSeconds?: number;
+}
+
+export interface SignedPresentation {
+  format: CredentialFormat;
+  /** The presentation; carries its proof in the 'data-integrity' format */
+  presentation: VerifiablePresentation;
+  /** Compact JWS ('jwt' format) */
+  jwt?: string;
+}
+
+export interface IssuedCredential<S = Record<string, unknown>> {
+  format: CredentialFormat;
+  /** The credential; carries its proof in the 'data-integrity' format */
+  credential: VerifiableCredential<S>;
+  /** Compact JWS ('jwt' format) */
+  jwt?: string;
+}
+
+/**
+ * Key credentials are signed with
+ *
+ * `sign` returns the raw r||s ECDSA signature over SHA-256 of the data.
+ */
+export interface CredentialSigningKey {
+  /** DID URL of the verification method */
+  id: string;
+  alg: CredentialAlgorithm;
+  sign(data: Uint8Array): Promise<Uint8Array>;
+  /** Verification method to publish in the issuer's DID document */
+  verificationMethod: VerificationMethod;
+}
+
+export interface CredentialIssuerOptions {
+  /** Default: did:ens:identity.nobleport.eth */
+  did?: string;
+  /** Key for 'jwt' credentials, and 'data-integrity' ones when it is P-256 */
+  key: CredentialSigningKey;
+  /** P-256 key for 'data-integrity' credentials when `key` is secp256k1 */
+  dataIntegrityKey?: CredentialSigningKey;
+  /** Default: an in-memory revocation list at DEFAULT_STATUS_LIST_URL */
+  statusList?: StatusList;
+  /** Current time in milliseconds (default: Date.now) */
+  now?: () => number;
+}
+
+export interface IssueOptions {
+  /** Default: 'jwt' */
+  format?: CredentialFormat;
+  /** Default: now */
+  validFrom?: Date;
+  /** Default: validFrom plus the credential type's validity */
+  validUntil?: Date;
+}
+
+export type CredentialErrorCode =
+  | 'invalid-subject'
+  | 'invalid-validity'
+  | 'unsupported-key'
+  | 'unknown-credential';
+
+/**
+ * Raised when a credential cannot be issued or revoked
+ */
+export class CredentialError extends Error {
+  readonly code: CredentialErrorCode;
+
+  constructor(code: CredentialErrorCode, message: string) {
+    super(message);
+    this.name = 'CredentialError';
+    this.code = code;
+  }
+}
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+function base64url(data: ethers.BytesLike): string {
+  return ethers.encodeBase64(data).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64url(text: string): Uint8Array {
+  const padded = text.replace(/-/g, '+').replace(/_/g, '/') + '='.repeat((4 - text.length % 4) % 4);
+  return ethers.decodeBase64(padded);
+}
+
+/** XMLSchema dateTime without milliseconds */
+function isoDate(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+/** p256-pub multicodec prefix used by Multikey */
+const P256_MULTICODEC = '0x8024';
+
+const P256_ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256' } as const;
+
+/**
+ * secp256k1 signing key (ES256K), e.g. the key behind an ENS name's address
+ *
+ * The default key id `${did}#${address}` is the verification method
+ * ens-did-resolver publishes for the name's ETH address.
+ *
+ * @example
+ * const key = secp256k1Key(process.env.IDENTITY_PRIVATE_KEY!, { did: CREDENTIAL_ISSUERS.IDENTITY });
+ */
+export function secp256k1Key(
+  privateKey: string,
+  options: { did: string; keyId?: string; chainId?: number }
+): CredentialSigningKey {
+  const signingKey = new ethers.SigningKey(privateKey);
+  const address = ethers.computeAddress(signingKey.publicKey);
+  const id = options.keyId ?? `${options.did}#${address}`;
+
+  return {
+    id,
+    alg: 'ES256K',
+    async sign(data) {
+      const signature = signingKey.sign(ethers.sha256(data));
+      return ethers.getBytes(ethers.concat([signature.r, signature.s]));
+    },
+    verificationMethod: {
+      id,
+      type: 'EcdsaSecp256k1RecoveryMethod2020',
+      controller: options.did,
+      blockchainAccountId: `eip155:${options.chainId ?? 1}:${address}`
+    }
+  };
+}
+
+/**
+ * P-256 signing key (ES256, ecdsa-jcs-2019) from a private JWK
+ *
+ * The default key id uses the Multikey public key as its fragment.
+ *
+ * @example
+ * const key = await p256Key(JSON.parse(process.env.IDENTITY_P256_JWK!), { did: CREDENTIAL_ISSUERS.IDENTITY });
+ */
+export async function p256Key(
+  privateJwk: JsonWebKey,
+  options: { did: string; keyId?: string }
+): Promise<CredentialSigningKey> {
+  if (privateJwk.kty !== 'EC' || privateJwk.crv !== 'P-256' || !privateJwk.x || !privateJwk.y || !privateJwk.d) {
+    throw new CredentialError('unsupported-key', 'expected a private P-256 JWK');
+  }
+  const cryptoKey = await crypto.subtle.importKey('jwk', privateJwk, P256_ALGORITHM, false, ['sign']);
+
+  const y = fromBase64url(privateJwk.y);
+  const compressed = ethers.concat([y[y.length - 1] % 2 ? '0x03' : '0x02', fromBase64url(privateJwk.x)]);
+  const publicKeyMultibase = `z${ethers.encodeBase58(ethers.concat([P256_MULTICODEC, compressed]))}`;
+  const id = options.keyId ?? `${options.did}#${publicKeyMultibase}`;
+
+  return {
+    id,
+    alg: 'ES256',
+    async sign(data) {
+      return new Uint8Array(await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, cryptoKey, new Uint8Array(data)));
+    },
+    verificationMethod: { id, type: 'Multikey', controller: options.did, publicKeyMultibase }
+  };
+}
+
+/**
+ * New private P-256 JWK for p256Key()
+ */
+export async function generateP256Jwk(): Promise<JsonWebKey> {
+  const pair = await crypto.subtle.generateKey(P256_ALGORITHM, true, ['sign', 'verify']);
+  return crypto.subtle.exportKey('jwk', pair.privateKey);
+}
+
+/**
+ * ENS text records that publish keys as assertion methods of the name's DID
+ *
+ * The ENS address key is an assertion method already; other keys are read
+ * from these records by ens-did-resolver.
+ *
+ * @example
+ * assertionMethodRecords([key]);
+ * // { 'org.w3c.did.verificationMethod': '[{"id":"did:ens:identity.nobleport.eth#zDn...","type":"Multikey",...}]',
+ * //   'org.w3c.did.assertionMethod': '["did:ens:identity.nobleport.eth#zDn..."]' }
+ */
+export function assertionMethodRecords(keys: CredentialSigningKey[]): Record<string, string> {
+  return {
+    'org.w3c.did.verificationMethod': JSON.stringify(keys.map(key => key.verificationMethod)),
+    'org.w3c.did.assertionMethod': JSON.stringify(keys.map(key => key.id))
+  };
+}
+
+// ============================================================================
+// SECURING
+// ============================================================================
+
+async function signJwt(payload: object, key: CredentialSigningKey, typ: string, cty: string): Promise<string> {
+  const header = { alg: key.alg, kid: key.id, typ, cty };
+  const signingInput = `${base64url(ethers.toUtf8Bytes(JSON.stringify(header)))}.${base64url(ethers.toUtf8Bytes(JSON.stringify(payload)))}`;
+  return `${signingInput}.${base64url(await key.sign(ethers.toUtf8Bytes(signingInput)))}`;
+}
+
+/**
+ * Secure a credential as a VC-JOSE-COSE compact JWS
+ */
+export function signCredentialJwt(
+  credential: VerifiableCredential<unknown>,
+  key: CredentialSigningKey
+): Promise<string> {
+  return signJwt(credential, key, VC_JWT_TYPE, 'vc');
+}
+
+/**
+ * Hash data of an ecdsa-jcs-2019 proof: SHA-256 of the proof configuration
+ * followed by SHA-256 of the document, both JCS-canonicalized
+ */
+export function dataIntegrityHashData(
+  document: object,
+  proof: Omit<DataIntegrityProof, 'proofValue'>
+): Uint8Array {
+  const { proof: _existing, ...unsecured } = document as Record<string, unknown>;
+  const proofConfig = { ...proof, '@context': unsecured['@context'] };
+  return ethers.getBytes(ethers.concat([
+    ethers.sha256(ethers.toUtf8Bytes(canonicalJson(proofConfig))),
+    ethers.sha256(ethers.toUtf8Bytes(canonicalJson(unsecured)))
+  ]));
+}
+
+/**
+ * Add an ecdsa-jcs-2019 DataIntegrityProof to a credential or presentation
+ *
+ * @throws CredentialError ('unsupported-key') for keys other than P-256
+ */
+export async function addDataIntegrityProof<D extends object>(
+  document: D,
+  key: CredentialSigningKey,
+  options: {
+    created?: Date;
+    proofPurpose?: DataIntegrityProof['proofPurpose'];
+    challenge?: string;
+    domain?: string;
+  } = {}
+): Promise<D & { proof: DataIntegrityProof }> {
+  if (key.alg !== 'ES256') {
+    throw new CredentialError('unsupported-key', `ecdsa-jcs-2019 needs a P-256 key, ${key.id} is ${key.alg}`);
+  }
+  const proof: Omit<DataIntegrityProof, 'proofValue'> = {
+    type: 'DataIntegrityProof',
+    cryptosuite: 'ecdsa-jcs-2019',
+    created: isoDate(options.created ?? new Date()),
+    verificationMethod: key.id,
+    proofPurpose: options.proofPurpose ?? 'assertionMethod',
+    ...(options.challenge !== undefined && { challenge: options.challenge }),
+    ...(options.domain !== undefined && { domain: options.domain })
+  };
+  const signature = await key.sign(dataIntegrityHashData(document, proof));
+  return { ...document, proof: { ...proof, proofValue: `z${ethers.encodeBase58(signature)}` } };
+}
+
+// ============================================================================
+// PRESENTATION
+// ============================================================================
+
+/**
+ * Present credentials to a verifier, bound to its challenge and domain
+ *
+ * JWT credentials are enveloped as `data:application/vc+jwt,` URLs;
+ * Data Integrity credentials are embedded as they are.
+ *
+ * @example
+ * const { jwt } = await createPresentation([kyc, accreditation], {
+ *   holder: 'did:ens:investor.eth',
+ *   key: secp256k1Key(investorPrivateKey, { did: 'did:ens:investor.eth' }),
+ *   challenge,
+ *   domain: 'investors.nobleport.eth'
+ * });
+ */
+export async function createPresentation(
+  credentials: Array<IssuedCredential<unknown>>,
+  options: PresentationOptions
+): Promise<SignedPresentation> {
+  if (options.key.id.split('#')[0] !== options.holder) {
+    throw new CredentialError('unsupported-key', `${options.key.id} is not a key of ${options.holder}`);
+  }
+
+  const presentation: VerifiablePresentation = {
+    '@context': [VC_CONTEXT_V2],
+    type: ['VerifiablePresentation'],
+    holder: options.holder,
+    verifiableCredential: credentials.map(issued => issued.jwt
+      ? { '@context': VC_CONTEXT_V2, id: `data:application/${VC_JWT_TYPE},${issued.jwt}`, type: 'EnvelopedVerifiableCredential' as const }
+      : issued.credential)
+  };
+
+  if ((options.format ?? 'jwt') === 'jwt') {
+    const iat = Math.floor(Date.now() / 1000);
+    const claims: PresentationJwtClaims = {
+      nonce: options.challenge,
+      ...(options.domain !== undefined && { aud: options.domain }),
+      iat,
+      exp: iat + (options.ttlSeconds ?? 300)
+    };
+    return { format: 'jwt', presentation, jwt: await signJwt({ ...presentation, ...claims }, options.key, VP_JWT_TYPE, 'vp') };
+  }
+
+  return {
+    format: 'data-integrity',
+    presentation: await addDataIntegrityProof(presentation, options.key, {
+      proofPurpose: 'authentication',
+      challenge: options.challenge,
+      domain: options.domain
+    })
+  };
+}
+
+// ============================================================================
+// ISSUER
+// ============================================================================
+
+export class CredentialIssuer {
+  readonly did: string;
+  readonly statusList: StatusList;
+  private readonly key: CredentialSigningKey;
+  private readonly dataIntegrityKey: CredentialSigningKey | null;
+  private readonly now: () => number;
+
+  constructor(options: CredentialIssuerOptions) {
+    this.did = options.did ?? CREDENTIAL_ISSUERS.IDENTITY;
+    this.key = options.key;
+    this.dataIntegrityKey = options.dataIntegrityKey ?? (options.key.alg === 'ES256' ? options.key : null);
+    this.statusList = options.statusList ?? new StatusList({ id: DEFAULT_STATUS_LIST_URL });
+    this.now = options.now ?? Date.now;
+
+    for (const key of [this.key, this.dataIntegrityKey]) {
+      if (key && key.id.split('#')[0] !== this.did) {
+        throw new CredentialError('unsupported-key', `${key.id} is not a key of ${this.did}`);
+      }
+    }
+  }
+
+  /**
+   * Issue a credential
+   *
+   * @throws CredentialError when the subject fails its schema, the validity
+   * period is empty or the format has no suitable key
+   *
+   * @example
+   * const { jwt } = await issuer.issue('KycStatusCredential', {
+   *   id: 'did:ens:investor.eth', kycStatus: 'verified', level: 'standard',
+   *   jurisdiction: 'US', verifiedAt: '2026-10-01T00:00:00Z'
+   * });
+   */
+  async issue<T extends NoblePortCredentialType>(
+    type: T,
+    subject: CredentialSubjects[T],
+    options: IssueOptions = {}
+  ): Promise<IssuedCredential<CredentialSubjects[T]>> {
+    const schema = CREDENTIAL_SCHEMAS[type];
+    const checked = validate(schema.validator, subject, '$.credentialSubject');
+    if (!checked.ok) {
+      throw new CredentialError('invalid-subject', `Invalid ${type} subject:\n${formatIssues(checked.issues)}`);
+    }
+
+    const format = options.format ?? 'jwt';
+    const signingKey = format === 'jwt' ? this.key : this.dataIntegrityKey;
+    if (!signingKey) {
+      throw new CredentialError('unsupported-key', 'data-integrity credentials need a P-256 key: set dataIntegrityKey');
+    }
+
+    const validFrom = options.validFrom ?? new Date(this.now());
+    const validUntil = options.validUntil ?? new Date(validFrom.getTime() + schema.defaultValidityMs);
+    if (validUntil.getTime() <= validFrom.getTime()) {
+      throw new CredentialError('invalid-validity', `validUntil ${isoDate(validUntil)} is not after validFrom ${isoDate(validFrom)}`);
+    }
+
+    const index = await this.statusList.allocate();
+    const credential: VerifiableCredential<CredentialSubjects[T]> = {
+      '@context': [VC_CONTEXT_V2],
+      id: `urn:uuid:${crypto.randomUUID()}`,
+      type: ['VerifiableCredential', type],
+      issuer: this.did,
+      validFrom: isoDate(validFrom),
+      validUntil: isoDate(validUntil),
+      credentialSubject: checked.value as CredentialSubjects[T],
+      credentialStatus: this.statusList.entry(index),
+      credentialSchema: { id: schema.id, type: 'JsonSchema' }
+    };
+
+    return this.secure(credential, format, signingKey);
+  }
+
+  issueKycStatus(subject: KycStatusSubject, options?: IssueOptions) {
+    return this.issue(CREDENTIAL_TYPES.KYC_STATUS, subject, options);
+  }
+
+  issueAccreditedInvestor(subject: AccreditedInvestorSubject, options?: IssueOptions) {
+    return this.issue(CREDENTIAL_TYPES.ACCREDITED_INVESTOR, subject, options);
+  }
+
+  issueAuthorizedParticipant(subject: AuthorizedParticipantSubject, options?: IssueOptions) {
+    return this.issue(CREDENTIAL_TYPES.AUTHORIZED_PARTICIPANT, subject, options);
+  }
+
+  /**
+   * Revoke (or, with `revoked` false, reinstate) a credential
+   *
+   * @throws CredentialError ('unknown-credential') when it is not tracked by this issuer's status list
+   */
+  async revoke(credential: VerifiableCredential<unknown> | IssuedCredential<unknown>, revoked = true): Promise<void> {
+    await this.statusList.setStatus(this.statusIndex(credential), revoked);
+  }
+
+  async isRevoked(credential: VerifiableCredential<unknown> | IssuedCredential<unknown>): Promise<boolean> {
+    return this.statusList.getStatus(this.statusIndex(credential));
+  }
+
+  /**
+   * Signed BitstringStatusListCredential to publish at the status list URL
+   */
+  async statusListCredential(format: CredentialFormat = 'jwt'): Promise<IssuedCredential<BitstringStatusListSubject>> {
+    const signingKey = format === 'jwt' ? this.key : this.dataIntegrityKey;
+    if (!signingKey) {
+      throw new CredentialError('unsupported-key', 'data-integrity credentials need a P-256 key: set dataIntegrityKey');
+    }
+    const credential: VerifiableCredential<BitstringStatusListSubject> = {
+      '@context': [VC_CONTEXT_V2],
+      id: this.statusList.id,
+      type: ['VerifiableCredential', 'BitstringStatusListCredential'],
+      issuer: this.did,
+      validFrom: isoDate(new Date(this.now())),
+      credentialSubject: await this.statusList.subject()
+    };
+    return this.secure(credential, format, signingKey);
+  }
+
+  private async secure<S>(
+    credential: VerifiableCredential<S>,
+    format: CredentialFormat,
+    key: CredentialSigningKey
+  ): Promise<IssuedCredential<S>> {
+    if (format === 'jwt') {
+      return { format, credential, jwt: await signCredentialJwt(credential, key) };
+    }
+    return { format, credential: await addDataIntegrityProof(credential, key, { created: new Date(this.now()) }) };
+  }
+
+  private statusIndex(target: VerifiableCredential<unknown> | IssuedCredential<unknown>): number {
+    const credential = 'format' in target ? target.credential : target;
+    const status = credential.credentialStatus;
+    if (!status || status.statusListCredential !== this.statusList.id) {
+      throw new CredentialError('unknown-credential', `${credential.id} is not tracked by status list ${this.statusList.id}`);
+    }
+    return Number(status.statusListIndex);
+  }
+}
+
+export function createCredentialIssuer(options: CredentialIssuerOptions): CredentialIssuer {
+  return new CredentialIssuer(options);
+}
@@ -0,0 +1,473 @@
+/**
+ * DID-Auth Request Signing
+ *
+ * Stephanie.ai signs outbound module and MCP requests as its DID
+ * (did:ens:stephanie.nobleport.eth) with a compact ES256K JWS. The payload
+ * binds the request method, URL, body digest, a nonce and the issue time:
+ *
+ *   Authorization: DIDAuth <jws>
+ *   header  { alg: 'ES256K', typ: 'did-auth+jwt', kid: 'did:ens:stephanie.nobleport.eth#0xAbC...' }
+ *   payload { iss, aud?, htm, htu, bodyHash, nonce, iat, exp }
+ *
+ * JSON-RPC requests over stdio carry the same token in `params._meta.didAuth`,
+ * signed over the canonical JSON of the params.
+ *
+ * Receivers resolve the issuer DID, look the `kid` up among the document's
+ * `authentication` verification methods and check the signature against
+ * its public key or Ethereum address. Tokens outside the clock-skew window
+ * and reused nonces are rejected.
+ */
+
+import { ethers } from 'ethers';
+import type { DIDDocument, DIDResolutionResult, VerificationMethod } from 'did-resolver';
+import type { VerificationRelationship } from './didValidation';
+import { canonicalJson } from './taskLedger';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Authorization scheme for signed HTTP requests */
+export const DID_AUTH_SCHEME = 'DIDAuth';
+
+export const DID_AUTH_TYPE = 'did-auth+jwt';
+
+export interface DidAuthRequest {
+  /** HTTP method, or the JSON-RPC method for stdio requests */
+  method: string;
+  url: string;
+  body?: string | null;
+  /** DID of the intended receiver, when known */
+  audience?: string;
+}
+
+export interface DidAuthHeader {
+  alg: 'ES256K';
+  typ: typeof DID_AUTH_TYPE;
+  /** DID URL of the signing key */
+  kid: string;
+}
+
+export interface DidAuthPayload {
+  iss: string;
+  aud?: string;
+  htm: string;
+  htu: string;
+  /** base64url SHA-256 of the request body ('' for no body) */
+  bodyHash: string;
+  nonce: string;
+  /** Issued-at, seconds since the epoch */
+  iat: number;
+  /** Expiry, seconds since the epoch */
+  exp: number;
+}
+
+export interface DidAuthSignerOptions {
+  did: string;
+  /** Hex-encoded secp256k1 private key */
+  privateKey: string;
+  /** Verification method id (default: `${did}#${address}`, as published by ENS DID documents) */
+  keyId?: string;
+  /** Token lifetime in seconds (default: 60) */
+  ttlSeconds?: number;
+}
+
+export interface DidAuthVerifierOptions {
+  /** DID resolution, e.g. `(did) => stephanie.resolveDid(did)` */
+  resolve: (did: string) => Promise<DIDResolutionResult>;
+  /** Required `aud` claim (the receiver's DID) */
+  audience?: string;
+  /** DID methods accepted from issuers, e.g. ['did:ens', 'did:web', 'did:key'] */
+  didMethods?: string[];
+  /** Allowed clock difference in seconds (default: 60) */
+  maxSkewSeconds?: number;
+  replayCache?: NonceCache;
+  /** Current time in milliseconds (default: Date.now) */
+  now?: () => number;
+}
+
+export interface DidAuthResult {
+  did: string;
+  keyId: string;
+  payload: DidAuthPayload;
+  verificationMethod: VerificationMethod;
+}
+
+export type DidAuthErrorCode =
+  | 'missing'
+  | 'malformed'
+  | 'unsupported'
+  | 'unresolved'
+  | 'unknown-key'
+  | 'bad-signature'
+  | 'mismatch'
+  | 'expired'
+  | 'replayed';
+
+/**
+ * Raised when a request signature is missing or does not verify
+ */
+export class DidAuthError extends Error {
+  readonly code: DidAuthErrorCode;
+
+  constructor(code: DidAuthErrorCode, message: string) {
+    super(message);
+    this.name = 'DidAuthError';
+    this.code = code;
+  }
+}
+
+// ============================================================================
+// ENCODING
+// ============================================================================
+
+function base64url(data: ethers.BytesLike): string {
+  return ethers.encodeBase64(data).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64url(text: string): Uint8Array {
+  if (!/^[A-Za-z0-9_-]*$/.test(text)) throw new DidAuthError('malformed', 'token is not base64url');
+  const padded = text.replace(/-/g, '+').replace(/_/g, '/') + '='.repeat((4 - text.length % 4) % 4);
+  return ethers.decodeBase64(padded);
+}
+
+function decodeJson<T>(segment: string, part: string): T {
+  try {
+    const value = JSON.parse(ethers.toUtf8String(fromBase64url(segment)));
+    if (value && typeof value === 'object' && !Array.isArray(value)) return value;
+  } catch {
+    // reported below
+  }
+  throw new DidAuthError('malformed', `token ${part} is not a JSON object`);
+}
+
+/**
+ * base64url SHA-256 of a request body, as carried in the `bodyHash` claim
+ */
+export function hashBody(body: string | null | undefined): string {
+  return body ? base64url(ethers.sha256(ethers.toUtf8Bytes(body))) : '';
+}
+
+function signingDigest(signingInput: string): string {
+  return ethers.sha256(ethers.toUtf8Bytes(signingInput));
+}
+
+/**
+ * Strip the DIDAuth scheme from an Authorization header value
+ *
+ * @returns The token, or null when the header uses another scheme
+ */
+export function parseAuthorization(header: string | null | undefined): string | null {
+  const match = /^DIDAuth\s+(\S+)$/i.exec(header?.trim() ?? '');
+  return match ? match[1] : null;
+}
+
+// ============================================================================
+// SIGNING
+// ============================================================================
+
+export class DidAuthSigner {
+  readonly did: string;
+  readonly keyId: string;
+  /** Ethereum address of the signing key */
+  readonly address: string;
+  private readonly key: ethers.SigningKey;
+  private readonly ttlSeconds: number;
+
+  constructor(options: DidAuthSignerOptions) {
+    this.key = new ethers.SigningKey(options.privateKey);
+    this.did = options.did;
+    this.address = ethers.computeAddress(this.key.publicKey);
+    this.keyId = options.keyId ?? `${options.did}#${this.address}`;
+    this.ttlSeconds = options.ttlSeconds ?? 60;
+  }
+
+  /**
+   * Sign a request
+   *
+   * @returns Compact JWS
+   */
+  sign(request: DidAuthRequest): string {
+    const iat = Math.floor(Date.now() / 1000);
+    const header: DidAuthHeader = { alg: 'ES256K', typ: DID_AUTH_TYPE, kid: this.keyId };
+    const payload: DidAuthPayload = {
+      iss: this.did,
+      ...(request.audience && { aud: request.audience }),
+      htm: request.method.toUpperCase(),
+      htu: request.url,
+      bodyHash: hashBody(request.body),
+      nonce: base64url(ethers.randomBytes(16)),
+      iat,
+      exp: iat + this.ttlSeconds
+    };
+
+    const signingInput = `${base64url(ethers.toUtf8Bytes(JSON.stringify(header)))}.${base64url(ethers.toUtf8Bytes(JSON.stringify(payload)))}`;
+    const signature = this.key.sign(signingDigest(signingInput));
+    return `${signingInput}.${base64url(ethers.concat([signature.r, signature.s]))}`;
+  }
+
+  /**
+   * Authorization header value for a signed HTTP request
+   *
+   * @example
+   * headers.authorization = signer.authorize({ method: 'POST', url, body, audience: moduleDid });
+   * // 'DIDAuth eyJhbGciOiJFUzI1NksiLC...'
+   */
+  authorize(request: DidAuthRequest): string {
+    return `${DID_AUTH_SCHEME} ${this.sign(request)}`;
+  }
+
+  /**
+   * Verification method to publish in the signer's DID document
+   */
+  verificationMethod(chainId = 1): VerificationMethod {
+    return {
+      id: this.keyId,
+      type: 'EcdsaSecp256k1RecoveryMethod2020',
+      controller: this.did,
+      blockchainAccountId: `eip155:${chainId}:${this.address}`
+    };
+  }
+}
+
+export function createDidAuthSigner(options: DidAuthSignerOptions): DidAuthSigner {
+  return new DidAuthSigner(options);
+}
+
+/**
+ * Add a DID-Auth token to JSON-RPC params (`_meta.didAuth`)
+ *
+ * @param url - Endpoint the request is addressed to (the platform's configured endpoint)
+ */
+export function signJsonRpcParams<P extends Record<string, unknown>>(
+  signer: DidAuthSigner,
+  url: string,
+  method: string,
+  params: P
+): P & { _meta: Record<string, unknown> } {
+  const { _meta, ...signed } = params as Record<string, unknown>;
+  const token = signer.sign({ method, url, body: canonicalJson(signed) });
+  return { ...params, _meta: { ...(_meta as Record<string, unknown> | undefined), didAuth: token } };
+}
+
+// ============================================================================
+// VERIFICATION
+// ============================================================================
+
+/**
+ * Remembers nonces until their token expires, so each is accepted once
+ */
+export class NonceCache {
+  private seen = new Map<string, number>();
+
+  /**
+   * Record a nonce
+   *
+   * @param expiresAt - Milliseconds since the epoch after which the nonce may be forgotten
+   * @returns false when the nonce was already used
+   */
+  use(issuer: string, nonce: string, expiresAt: number, now = Date.now()): boolean {
+    for (const [key, expiry] of this.seen) {
+      if (expiry <= now) this.seen.delete(key);
+    }
+    const key = `${issuer} ${nonce}`;
+    if (this.seen.has(key)) return false;
+    this.seen.set(key, expiresAt);
+    return true;
+  }
+}
+
+function absoluteId(did: string, id: string): string {
+  return id.startsWith('#') ? `${did}${id}` : id;
+}
+
+/**
+ * Find a verification method by id among those a relationship authorizes
+ *
+ * @param relationship - e.g. 'assertionMethod' for credential issuers
+ */
+export function findVerificationMethod(
+  didDocument: DIDDocument,
+  keyId: string,
+  relationship: VerificationRelationship = 'authentication'
+): VerificationMethod | null {
+  const did = didDocument.id;
+  const methods = [...(didDocument.verificationMethod ?? [])];
+  const authorized = new Set<string>();
+
+  for (const entry of didDocument[relationship] ?? []) {
+    if (typeof entry === 'string') {
+      authorized.add(absoluteId(did, entry));
+    } else {
+      authorized.add(absoluteId(did, entry.id));
+      methods.push(entry);
+    }
+  }
+
+  if (!authorized.has(keyId)) return null;
+  return methods.find(method => absoluteId(did, method.id) === keyId) ?? null;
+}
+
+/**
+ * Find an `authentication` verification method by id
+ */
+export function findAuthenticationMethod(didDocument: DIDDocument, keyId: string): VerificationMethod | null {
+  return findVerificationMethod(didDocument, keyId, 'authentication');
+}
+
+/** secp256k1-pub multicodec prefix used by did:key */
+const SECP256K1_MULTICODEC = '0xe701';
+
+function methodPublicKey(method: VerificationMethod): string | null {
+  if (method.publicKeyHex) return ethers.hexlify(`0x${method.publicKeyHex.replace(/^0x/, '')}`);
+
+  const jwk = method.publicKeyJwk;
+  if (jwk?.kty === 'EC' && jwk.crv === 'secp256k1' && jwk.x && jwk.y) {
+    return ethers.concat(['0x04', fromBase64url(jwk.x), fromBase64url(jwk.y)]);
+  }
+
+  if (method.publicKeyMultibase?.startsWith('z')) {
+    const bytes = ethers.toBeHex(ethers.decodeBase58(method.publicKeyMultibase.slice(1)));
+    return bytes.startsWith(SECP256K1_MULTICODEC) ? `0x${bytes.slice(SECP256K1_MULTICODEC.length)}` : null;
+  }
+  return null;
+}
+
+function methodAddress(method: VerificationMethod): string | null {
+  const account = method.blockchainAccountId ?? method.ethereumAddress;
+  return /0x[0-9a-fA-F]{40}/.exec(account ?? '')?.[0].toLowerCase() ?? null;
+}
+
+/**
+ * Public keys that could have produced an r||s signature over the digest
+ */
+function recoverCandidates(digest: string, signature: Uint8Array): string[] {
+  const r = ethers.hexlify(signature.slice(0, 32));
+  const s = ethers.hexlify(signature.slice(32));
+  const candidates: string[] = [];
+  for (const yParity of [0, 1] as const) {
+    try {
+      candidates.push(ethers.SigningKey.recoverPublicKey(digest, ethers.Signature.from({ r, s, yParity })));
+    } catch {
+      // not a valid point for this parity
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Whether an r||s secp256k1 signature over a digest was made by a
+ * verification method's key or Ethereum address
+ *
+ * @throws DidAuthError ('unsupported') when the method has neither
+ */
+export function secp256k1SignatureMatches(method: VerificationMethod, digest: string, signature: Uint8Array): boolean {
+  const candidates = recoverCandidates(digest, signature);
+
+  const address = methodAddress(method);
+  if (address) return candidates.some(key => ethers.computeAddress(key).toLowerCase() === address);
+
+  const publicKey = methodPublicKey(method);
+  if (!publicKey) {
+    throw new DidAuthError('unsupported', `verification method ${method.id} (${method.type}) has no secp256k1 key or address`);
+  }
+  const expected = ethers.SigningKey.computePublicKey(publicKey, false);
+  return candidates.includes(expected);
+}
+
+export class DidAuthVerifier {
+  private readonly replayCache: NonceCache;
+
+  constructor(private readonly options: DidAuthVerifierOptions) {
+    this.replayCache = options.replayCache ?? new NonceCache();
+  }
+
+  /**
+   * Verify a signed request against the issuer's resolved DID document
+   *
+   * @throws DidAuthError when the token is missing, malformed, expired,
+   * replayed, bound to another request or not signed by an authentication key
+   */
+  async verify(token: string | null | undefined, request: DidAuthRequest): Promise<DidAuthResult> {
+    if (!token) throw new DidAuthError('missing', 'request is not DID-Auth signed');
+
+    const parts = token.split('.');
+    if (parts.length !== 3) throw new DidAuthError('malformed', 'token is not a compact JWS');
+    const header = decodeJson<DidAuthHeader>(parts[0], 'header');
+    const payload = decodeJson<DidAuthPayload>(parts[1], 'payload');
+
+    if (header.alg !== 'ES256K') throw new DidAuthError('unsupported', `unsupported alg ${header.alg}`);
+    if (typeof payload.iss !== 'string' || typeof header.kid !== 'string' || header.kid.split('#')[0] !== payload.iss) {
+      throw new DidAuthError('malformed', 'kid must be a key of the issuer DID');
+    }
+
+    const { didMethods } = this.options;
+    if (didMethods && !didMethods.some(prefix => payload.iss.startsWith(`${prefix}:`))) {
+      throw new DidAuthError('unsupported', `DID method of ${payload.iss} is not accepted`);
+    }
+
+    this.checkClaims(payload, request);
+
+    let resolution: DIDResolutionResult;
+    try {
+      resolution = await this.options.resolve(payload.iss);
+    } catch (e: unknown) {
+      throw new DidAuthError('unresolved', `${payload.iss} did not resolve: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    if (!resolution.didDocument) {
+      throw new DidAuthError('unresolved', `${payload.iss} did not resolve: ${resolution.didResolutionMetadata.error ?? 'no document'}`);
+    }
+
+    const method = findAuthenticationMethod(resolution.didDocument, header.kid);
+    if (!method) throw new DidAuthError('unknown-key', `${header.kid} is not an authentication key of ${payload.iss}`);
+
+    const signature = fromBase64url(parts[2]);
+    if (signature.length !== 64 || !secp256k1SignatureMatches(method, signingDigest(`${parts[0]}.${parts[1]}`), signature)) {
+      throw new DidAuthError('bad-signature', `signature does not match ${header.kid}`);
+    }
+
+    // Only spend the nonce once the token is known to be genuine
+    const now = this.options.now?.() ?? Date.now();
+    const maxSkew = (this.options.maxSkewSeconds ?? 60) * 1000;
+    if (!this.replayCache.use(payload.iss, payload.nonce, payload.exp * 1000 + maxSkew, now)) {
+      throw new DidAuthError('replayed', `nonce ${payload.nonce} was already used`);
+    }
+
+    return { did: payload.iss, keyId: header.kid, payload, verificationMethod: method };
+  }
+
+  /**
+   * Verify a JSON-RPC request signed with signJsonRpcParams
+   */
+  async verifyJsonRpc(url: string, method: string, params: Record<string, unknown>): Promise<DidAuthResult> {
+    const { _meta, ...signed } = params;
+    const token = (_meta as { didAuth?: unknown } | undefined)?.didAuth;
+    return this.verify(typeof token === 'string' ? token : null, { method, url, body: canonicalJson(signed) });
+  }
+
+  private checkClaims(payload: DidAuthPayload, request: DidAuthRequest): void {
+    if (typeof payload.nonce !== 'string' || !payload.nonce) throw new DidAuthError('malformed', 'token has no nonce');
+    if (typeof payload.iat !== 'number' || typeof payload.exp !== 'number') {
+      throw new DidAuthError('malformed', 'token has no iat/exp');
+    }
+
+    const now = (this.options.now?.() ?? Date.now()) / 1000;
+    const maxSkew = this.options.maxSkewSeconds ?? 60;
+    if (payload.iat > now + maxSkew) throw new DidAuthError('expired', 'token was issued in the future');
+    if (payload.exp < now - maxSkew) throw new DidAuthError('expired', 'token has expired');
+
+    if (payload.htm !== request.method.toUpperCase() || payload.htu !== request.url) {
+      throw new DidAuthError('mismatch', `token was signed for ${payload.htm} ${payload.htu}`);
+    }
+    if (payload.bodyHash !== hashBody(request.body)) {
+      throw new DidAuthError('mismatch', 'request body does not match the signed digest');
+    }
+    if (this.options.audience && payload.aud !== this.options.audience) {
+      throw new DidAuthError('mismatch', `token audience ${payload.aud ?? '(none)'} is not ${this.options.audience}`);
+    }
+  }
+}
+
+export function createDidAuthVerifier(options: DidAuthVerifierOptions): DidAuthVerifier {
+  return new DidAuthVerifier(options);
+}
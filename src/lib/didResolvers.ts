@@ -0,0 +1,300 @@
+/**
+ * Multi-Method DID Resolution
+ *
+ * One resolver factory for every DID method NoblePort counterparties use:
+ *
+ * - did:ens  ENS names via ens-did-resolver (e.g. did:ens:nobleport.eth)
+ * - did:web  DID documents served over HTTPS, with an offline fixture mode
+ * - did:key  Ed25519, secp256k1 and P-256 keys encoded in the DID itself
+ * - did:pkh  blockchain accounts (eip155 namespace)
+ *
+ * Shared by `resolveEnsDid` (ensDidResolver.ts) and `StephanieAI.resolveDid`.
+ *
+ * @see https://w3c-ccg.github.io/did-method-web/
+ * @see https://w3c-ccg.github.io/did-method-key/
+ * @see https://github.com/w3c-ccg/did-pkh/blob/main/did-pkh-method-draft.md
+ */
+
+import { getResolver as getEnsDidResolver } from 'ens-did-resolver';
+import {
+  DIDDocument,
+  DIDResolutionResult,
+  DIDResolver,
+  ParsedDID,
+  Resolver,
+  ResolverOptions,
+  ResolverRegistry,
+  VerificationMethod,
+  parse
+} from 'did-resolver';
+import { ethers } from 'ethers';
+import { EnsNetworkOptions, createEnsProvider, ensDidResolverConfig, getEnsNetwork } from './ensNetworks';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const SUPPORTED_DID_METHODS = ['ens', 'web', 'key', 'pkh'] as const;
+
+export type DidMethod = typeof SUPPORTED_DID_METHODS[number];
+
+export interface WebDidOptions {
+  fetch?: typeof fetch;
+  /** Request timeout in milliseconds (default: 10000) */
+  timeoutMs?: number;
+  /** DID documents served instead of fetching, keyed by DID */
+  fixtures?: Record<string, DIDDocument>;
+  /** Never fetch; DIDs missing from fixtures report notFound */
+  offline?: boolean;
+}
+
+export interface EnsDidOptions extends EnsNetworkOptions {
+  /** Provider, or a function returning it on first use (default: createEnsProvider for the network) */
+  provider?: ethers.AbstractProvider | (() => ethers.AbstractProvider);
+}
+
+export interface DidResolverOptions {
+  /** ENS network (default: getEnsNetwork() from the environment); false disables did:ens */
+  ens?: EnsDidOptions | false;
+  /** false disables did:web */
+  web?: WebDidOptions | false;
+  /** false disables did:key */
+  key?: boolean;
+  /** false disables did:pkh */
+  pkh?: boolean;
+  /** did-resolver result cache */
+  cache?: ResolverOptions['cache'];
+}
+
+const DID_CONTEXT = 'https://www.w3.org/ns/did/v1';
+const MULTIKEY_CONTEXT = 'https://w3id.org/security/multikey/v1';
+const SECP256K1_RECOVERY_CONTEXT = 'https://w3id.org/security/suites/secp256k1recovery-2020/v2';
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Split a DID or DID URL into its parts
+ *
+ * @returns The parsed DID, or null when the string is not a DID
+ *
+ * @example
+ * parseDid('did:web:custodian.example.com#key-1');
+ * // { did: 'did:web:custodian.example.com', method: 'web', id: 'custodian.example.com', fragment: 'key-1', ... }
+ */
+export function parseDid(didUrl: string): ParsedDID | null {
+  return parse(didUrl);
+}
+
+function resolutionError(error: string, message: string): DIDResolutionResult {
+  return {
+    didResolutionMetadata: { error, message },
+    didDocument: null,
+    didDocumentMetadata: {}
+  };
+}
+
+function resolved(didDocument: DIDDocument): DIDResolutionResult {
+  return {
+    didResolutionMetadata: { contentType: 'application/did+ld+json' },
+    didDocument,
+    didDocumentMetadata: {}
+  };
+}
+
+/**
+ * Document that uses one verification method for every relationship
+ */
+function singleKeyDocument(did: string, method: VerificationMethod, context: string): DIDDocument {
+  return {
+    '@context': [DID_CONTEXT, context],
+    id: did,
+    verificationMethod: [method],
+    authentication: [method.id],
+    assertionMethod: [method.id],
+    capabilityInvocation: [method.id],
+    capabilityDelegation: [method.id]
+  };
+}
+
+// ============================================================================
+// DID:ENS
+// ============================================================================
+
+/**
+ * did:ens resolver for one network; the provider is created on first use,
+ * so a missing RPC URL fails resolution instead of resolver construction
+ */
+function getEnsResolver(options: EnsDidOptions): DIDResolver {
+  let ens: DIDResolver | null = null;
+  return async (did, parsed, resolver, resolveOptions) => {
+    if (!ens) {
+      try {
+        const network = getEnsNetwork(options);
+        const provider = typeof options.provider === 'function' ? options.provider() : options.provider;
+        ens = getEnsDidResolver(ensDidResolverConfig(network, provider ?? createEnsProvider(network))).ens;
+      } catch (e: unknown) {
+        return resolutionError('unknownNetwork', e instanceof Error ? e.message : String(e));
+      }
+    }
+    return ens(did, parsed, resolver, resolveOptions);
+  };
+}
+
+// ============================================================================
+// DID:WEB
+// ============================================================================
+
+/**
+ * URL of the DID document for a did:web identifier
+ *
+ * @example
+ * webDidUrl('did:web:example.com');              // 'https://example.com/.well-known/did.json'
+ * webDidUrl('did:web:example.com%3A8443:ap:one'); // 'https://example.com:8443/ap/one/did.json'
+ */
+export function webDidUrl(did: string): string {
+  const parsed = parseDid(did);
+  if (parsed?.method !== 'web') throw new Error(`${did} is not a did:web identifier`);
+
+  const [host, ...path] = parsed.id.split(':').map(decodeURIComponent);
+  return path.length
+    ? `https://${host}/${path.join('/')}/did.json`
+    : `https://${host}/.well-known/did.json`;
+}
+
+function getWebResolver(options: WebDidOptions): DIDResolver {
+  return async (did, parsed) => {
+    const fixture = options.fixtures?.[parsed.did];
+    if (fixture) return resolved(fixture);
+    if (options.offline) return resolutionError('notFound', `${parsed.did} is not in the offline fixtures`);
+
+    const url = webDidUrl(parsed.did);
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), options.timeoutMs ?? 10_000);
+    let didDocument: DIDDocument;
+
+    try {
+      const response = await (options.fetch ?? fetch)(url, {
+        headers: { accept: 'application/did+json, application/json' },
+        signal: controller.signal
+      });
+      if (!response.ok) return resolutionError('notFound', `${url} answered HTTP ${response.status}`);
+      didDocument = await response.json();
+    } catch (e: unknown) {
+      return resolutionError('notFound', `${url} could not be fetched: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (didDocument?.id !== parsed.did) {
+      return resolutionError('notFound', `document at ${url} is for ${didDocument?.id ?? 'no DID'}, expected ${parsed.did}`);
+    }
+    return resolved(didDocument);
+  };
+}
+
+// ============================================================================
+// DID:KEY
+// ============================================================================
+
+/** Multicodec prefixes (unsigned varint) of the supported key types */
+const KEY_CODECS = [
+  { name: 'Ed25519', prefix: [0xed, 0x01], length: 32 },
+  { name: 'secp256k1', prefix: [0xe7, 0x01], length: 33 },
+  { name: 'P-256', prefix: [0x80, 0x24], length: 33 }
+] as const;
+
+function decodeBase58btc(text: string): Uint8Array {
+  const zeros = /^1*/.exec(text)![0].length;
+  const rest = text.slice(zeros);
+  const value = rest ? ethers.getBytes(ethers.toBeHex(ethers.decodeBase58(rest))) : new Uint8Array();
+  return ethers.getBytes(ethers.concat([new Uint8Array(zeros), value]));
+}
+
+/**
+ * Key type and raw public key encoded in a did:key identifier
+ *
+ * @throws Error for malformed identifiers and unsupported key types
+ */
+export function decodeDidKey(did: string): { keyType: typeof KEY_CODECS[number]['name']; publicKey: Uint8Array } {
+  const parsed = parseDid(did);
+  if (parsed?.method !== 'key') throw new Error(`${did} is not a did:key identifier`);
+  if (!parsed.id.startsWith('z')) throw new Error(`${did} is not base58btc multibase encoded`);
+
+  const bytes = decodeBase58btc(parsed.id.slice(1));
+  const codec = KEY_CODECS.find(c => c.prefix.every((b, i) => bytes[i] === b));
+  if (!codec) throw new Error(`${did} uses an unsupported key type`);
+
+  const publicKey = bytes.slice(codec.prefix.length);
+  if (publicKey.length !== codec.length) {
+    throw new Error(`${did} has a ${publicKey.length}-byte ${codec.name} key, expected ${codec.length}`);
+  }
+  return { keyType: codec.name, publicKey };
+}
+
+function getKeyResolver(): DIDResolver {
+  return async (did, parsed) => {
+    try {
+      decodeDidKey(parsed.did);
+    } catch (e: unknown) {
+      return resolutionError('invalidDid', e instanceof Error ? e.message : String(e));
+    }
+
+    // The method-specific id is already the key's multibase encoding
+    return resolved(singleKeyDocument(parsed.did, {
+      id: `${parsed.did}#${parsed.id}`,
+      type: 'Multikey',
+      controller: parsed.did,
+      publicKeyMultibase: parsed.id
+    }, MULTIKEY_CONTEXT));
+  };
+}
+
+// ============================================================================
+// DID:PKH
+// ============================================================================
+
+function getPkhResolver(): DIDResolver {
+  return async (did, parsed) => {
+    const [namespace, chainId, address, ...extra] = parsed.id.split(':');
+    if (namespace !== 'eip155') {
+      return resolutionError('invalidDid', `did:pkh namespace ${namespace} is not supported (only eip155)`);
+    }
+    if (extra.length || !/^\d+$/.test(chainId ?? '') || !ethers.isAddress(address ?? '')) {
+      return resolutionError('invalidDid', `${parsed.did} is not an eip155 account (did:pkh:eip155:<chainId>:<address>)`);
+    }
+
+    return resolved(singleKeyDocument(parsed.did, {
+      id: `${parsed.did}#blockchainAccountId`,
+      type: 'EcdsaSecp256k1RecoveryMethod2020',
+      controller: parsed.did,
+      blockchainAccountId: parsed.id
+    }, SECP256K1_RECOVERY_CONTEXT));
+  };
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+/**
+ * Build a resolver for did:ens, did:web, did:key and did:pkh
+ *
+ * @example
+ * const resolver = createDidResolver({
+ *   ens: { name: 'anvil', ensRegistry: '0x5FbDB2315678afecb367f032d93F642f64180aa3' },
+ *   web: { offline: true, fixtures: { 'did:web:custodian.example.com': custodianDoc } }
+ * });
+ * await resolver.resolve('did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK');
+ */
+export function createDidResolver(options: DidResolverOptions = {}): Resolver {
+  const registry: ResolverRegistry = {};
+
+  if (options.ens !== false) registry.ens = getEnsResolver(options.ens ?? {});
+  if (options.web !== false) registry.web = getWebResolver(options.web ?? {});
+  if (options.key !== false) registry.key = getKeyResolver();
+  if (options.pkh !== false) registry.pkh = getPkhResolver();
+
+  return new Resolver(registry, { cache: options.cache });
+}
@@ -0,0 +1,238 @@
+/**
+ * DID Document Validation
+ *
+ * Checks a resolved DID document before it is trusted:
+ *
+ * - structure against DID Core (id, controller, verificationMethod,
+ *   verification relationships, service)
+ * - every relationship reference points at a verification method
+ * - every verification method carries key material
+ * - authentication and assertionMethod are present (warnings otherwise)
+ * - blockchainAccountId values match the address the ENS name resolves to
+ *
+ * @see https://www.w3.org/TR/did-core/#core-properties
+ * @see https://github.com/ChainAgnostic/CAIPs/blob/main/CAIPs/caip-10.md
+ */
+
+import type { DIDDocument, VerificationMethod } from 'did-resolver';
+import { ethers } from 'ethers';
+import {
+  SchemaIssue,
+  Validator,
+  array,
+  joinPath,
+  object,
+  optional,
+  refine,
+  string,
+  union,
+  unknownValue,
+  validate
+} from './schema';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DidIssueCode =
+  | 'structure'
+  | 'id-mismatch'
+  | 'duplicate-id'
+  | 'unknown-reference'
+  | 'no-key-material'
+  | 'missing-authentication'
+  | 'missing-assertion-method'
+  | 'account-mismatch'
+  | 'chain-mismatch';
+
+export interface DidValidationIssue extends SchemaIssue {
+  code: DidIssueCode;
+  /** Errors make the document invalid; warnings are reported only */
+  severity: 'error' | 'warning';
+}
+
+export interface DidValidationOptions {
+  /** DID that was resolved; the document id must match it */
+  did?: string;
+  /** Address the ENS name resolves to; blockchainAccountIds must match it */
+  ensAddress?: string | null;
+  /** Chain blockchainAccountIds should reference */
+  chainId?: number;
+}
+
+export interface DidValidationReport {
+  /** True when there are no error-severity issues */
+  valid: boolean;
+  issues: DidValidationIssue[];
+}
+
+export const VERIFICATION_RELATIONSHIPS = [
+  'authentication',
+  'assertionMethod',
+  'keyAgreement',
+  'capabilityInvocation',
+  'capabilityDelegation'
+] as const;
+
+export type VerificationRelationship = typeof VERIFICATION_RELATIONSHIPS[number];
+
+/** Properties that carry a verification method's key or account */
+const KEY_MATERIAL = [
+  'publicKeyHex',
+  'publicKeyBase58',
+  'publicKeyBase64',
+  'publicKeyMultibase',
+  'publicKeyJwk',
+  'publicKeyPem',
+  'blockchainAccountId',
+  'ethereumAddress'
+] as const;
+
+// ============================================================================
+// STRUCTURE
+// ============================================================================
+
+const did = string({ pattern: /^did:[a-z0-9]+:\S+$/ });
+
+/** Absolute DID URL or a fragment relative to the document */
+const didUrl = string({ pattern: /^(did:[a-z0-9]+:\S+|#\S+)$/ });
+
+const verificationMethodSchema = object({
+  id: didUrl,
+  type: string({ minLength: 1 }),
+  controller: did
+});
+
+const serviceSchema = object({
+  id: string({ minLength: 1 }),
+  type: union<unknown>([string({ minLength: 1 }), array(string({ minLength: 1 }), { minLength: 1 })]),
+  serviceEndpoint: refine(unknownValue(), value =>
+    value === undefined || value === null || value === '' ? 'is required' : null)
+});
+
+const relationship = optional(array(union<unknown>([didUrl, verificationMethodSchema])));
+
+/** DID Core structure; unknown properties are allowed */
+export const didDocumentSchema: Validator<unknown> = object({
+  '@context': optional(unknownValue()),
+  id: did,
+  controller: optional(union<unknown>([did, array(did)])),
+  alsoKnownAs: optional(array(string())),
+  verificationMethod: optional(array(verificationMethodSchema)),
+  authentication: relationship,
+  assertionMethod: relationship,
+  keyAgreement: relationship,
+  capabilityInvocation: relationship,
+  capabilityDelegation: relationship,
+  service: optional(array(serviceSchema))
+});
+
+// ============================================================================
+// ACCOUNTS
+// ============================================================================
+
+/**
+ * Parse an eip155 blockchainAccountId, in CAIP-10 or the legacy
+ * `<address>@eip155:<chainId>` form ens-did-resolver publishes
+ *
+ * @example
+ * parseBlockchainAccountId('eip155:1:0xb9c5714089478a327f09197987f16f9e5d936e8a');
+ * // { chainId: 1, address: '0xb9c5714089478a327F09197987f16f9E5d936E8a' }
+ */
+export function parseBlockchainAccountId(value: string): { chainId: number; address: string } | null {
+  const caip = /^eip155:(\d+):(0x[0-9a-fA-F]{40})$/.exec(value);
+  const legacy = /^(0x[0-9a-fA-F]{40})@eip155:(\d+)$/.exec(value);
+  if (caip) return { chainId: Number(caip[1]), address: ethers.getAddress(caip[2].toLowerCase()) };
+  if (legacy) return { chainId: Number(legacy[2]), address: ethers.getAddress(legacy[1].toLowerCase()) };
+  return null;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function absoluteId(base: string, id: string): string {
+  return id.startsWith('#') ? `${base}${id}` : id;
+}
+
+/**
+ * Validate a DID document
+ *
+ * @example
+ * const report = validateDidDocument(doc, { did: 'did:ens:ap.nobleport.eth', ensAddress });
+ * if (!report.valid) console.warn(formatIssues(report.issues));
+ */
+export function validateDidDocument(
+  document: DIDDocument | unknown,
+  options: DidValidationOptions = {}
+): DidValidationReport {
+  const structure = validate(didDocumentSchema, document);
+  if (!structure.ok) {
+    const issues = structure.issues.map(issue => ({ ...issue, code: 'structure' as const, severity: 'error' as const }));
+    return { valid: false, issues };
+  }
+
+  const doc = document as DIDDocument;
+  const issues: DidValidationIssue[] = [];
+  const error = (code: DidIssueCode, path: string, message: string) =>
+    issues.push({ code, severity: 'error', path, message });
+  const warning = (code: DidIssueCode, path: string, message: string) =>
+    issues.push({ code, severity: 'warning', path, message });
+
+  const expected = options.did?.split('#')[0];
+  if (expected && doc.id !== expected) {
+    error('id-mismatch', '$.id', `document is for ${doc.id}, expected ${expected}`);
+  }
+
+  // Methods may be listed under verificationMethod or embedded in a relationship
+  const methods: Array<{ method: VerificationMethod; path: string }> = (doc.verificationMethod ?? [])
+    .map((method, i) => ({ method, path: joinPath('$.verificationMethod', i) }));
+  for (const key of VERIFICATION_RELATIONSHIPS) {
+    (doc[key] ?? []).forEach((entry, i) => {
+      if (typeof entry !== 'string') methods.push({ method: entry, path: joinPath(joinPath('$', key), i) });
+    });
+  }
+
+  const ids = new Set<string>();
+  for (const { method, path } of methods) {
+    const id = absoluteId(doc.id, method.id);
+    if (ids.has(id)) error('duplicate-id', joinPath(path, 'id'), `${id} is declared more than once`);
+    ids.add(id);
+
+    if (!KEY_MATERIAL.some(key => (method as unknown as Record<string, unknown>)[key] !== undefined)) {
+      error('no-key-material', path, `${id} has none of ${KEY_MATERIAL.join(', ')}`);
+    }
+
+    // Accounts on other chain namespaces are not compared
+    const account = method.blockchainAccountId ? parseBlockchainAccountId(method.blockchainAccountId) : null;
+    if (account) {
+      const accountPath = joinPath(path, 'blockchainAccountId');
+      if (options.ensAddress && account.address.toLowerCase() !== options.ensAddress.toLowerCase()) {
+        error('account-mismatch', accountPath, `${account.address} does not match the ENS address ${options.ensAddress}`);
+      }
+      if (options.chainId !== undefined && account.chainId !== options.chainId) {
+        warning('chain-mismatch', accountPath, `references chain ${account.chainId}, expected ${options.chainId}`);
+      }
+    }
+  }
+
+  for (const key of VERIFICATION_RELATIONSHIPS) {
+    (doc[key] ?? []).forEach((entry, i) => {
+      if (typeof entry !== 'string') return;
+      const id = absoluteId(doc.id, entry);
+      // References into other DID documents cannot be checked here
+      if (id.split('#')[0] === doc.id && !ids.has(id)) {
+        error('unknown-reference', joinPath(joinPath('$', key), i), `${entry} is not a verification method in this document`);
+      }
+    });
+  }
+
+  if (!doc.authentication?.length) {
+    warning('missing-authentication', '$.authentication', 'no authentication methods; DID-Auth requests cannot be verified');
+  }
+  if (!doc.assertionMethod?.length) {
+    warning('missing-assertion-method', '$.assertionMethod', 'no assertion methods; credentials cannot be issued');
+  }
+
+  return { valid: !issues.some(issue => issue.severity === 'error'), issues };
+}
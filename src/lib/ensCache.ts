@@ -0,0 +1,425 @@
+/**
+ * ENS / DID Resolution Cache
+ *
+ * TTL + LRU cache for DID documents, ENS addresses and text records, so the
+ * SSI dashboard and Stephanie's module resolution do not hit the RPC on
+ * every lookup:
+ *
+ * - fresh entries (younger than `ttlMs`) are served directly
+ * - stale entries (up to `staleTtlMs` past the TTL) are served while a
+ *   background refresh runs (stale-while-revalidate), unless the lookup
+ *   passes `allowStale: false`
+ * - entries remember the block number they were read at; callers that just
+ *   wrote ENS records can require `minBlock` to skip older entries
+ * - an optional CacheStore persists entries across reloads (JSON file on
+ *   the server, localStorage in the browser)
+ */
+
+import type { DIDCache, DIDResolutionResult } from 'did-resolver';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CacheEntry<T = unknown> {
+  value: T;
+  /** Milliseconds since the epoch when the value was loaded */
+  storedAt: number;
+  /** Block number the value was read at, when known */
+  blockNumber?: number;
+}
+
+/**
+ * Persistent backing store. The in-memory LRU stays authoritative; the
+ * store only seeds it after a reload.
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+  clear(): Promise<void>;
+}
+
+export interface ResolutionCacheOptions {
+  /** Age until an entry is stale (default: 5 minutes) */
+  ttlMs?: number;
+  /** How long past the TTL a stale entry may still be served while revalidating (default: 1 hour) */
+  staleTtlMs?: number;
+  /** Entries kept in memory before the least recently used is evicted (default: 500) */
+  maxEntries?: number;
+  store?: CacheStore;
+  /** Current block number, recorded with each loaded entry */
+  blockNumber?: () => Promise<number | null>;
+  /** Current time in milliseconds (default: Date.now) */
+  now?: () => number;
+}
+
+export interface CacheGetOptions {
+  /** Treat entries read before this block as expired */
+  minBlock?: number;
+  /** Ignore any cached entry and reload */
+  refresh?: boolean;
+  /** Serve entries past the TTL while revalidating (default: true); false reloads them first */
+  allowStale?: boolean;
+}
+
+export interface CacheStats {
+  size: number;
+  hits: number;
+  staleHits: number;
+  misses: number;
+  revalidations: number;
+}
+
+// ============================================================================
+// STORES
+// ============================================================================
+
+/**
+ * All entries in one JSON file (Node.js only)
+ */
+export class JsonFileCacheStore implements CacheStore {
+  private entries: Record<string, CacheEntry> | null = null;
+  private writing: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly path: string) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    return (await this.load())[key];
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    (await this.load())[key] = entry;
+    await this.flush();
+  }
+
+  async delete(key: string): Promise<void> {
+    delete (await this.load())[key];
+    await this.flush();
+  }
+
+  async keys(): Promise<string[]> {
+    return Object.keys(await this.load());
+  }
+
+  async clear(): Promise<void> {
+    this.entries = {};
+    await this.flush();
+  }
+
+  private async load(): Promise<Record<string, CacheEntry>> {
+    if (this.entries) return this.entries;
+    const { readFile } = await import(/* webpackIgnore: true */ 'node:fs/promises');
+    try {
+      this.entries = JSON.parse(await readFile(this.path, 'utf8'));
+    } catch (e: unknown) {
+      if ((e as { code?: string }).code !== 'ENOENT') throw e;
+      this.entries = {};
+    }
+    return this.entries!;
+  }
+
+  private flush(): Promise<void> {
+    // Serialize writes so a slow write cannot overwrite a newer one
+    const next = this.writing.then(async () => {
+      const { writeFile } = await import(/* webpackIgnore: true */ 'node:fs/promises');
+      await writeFile(this.path, JSON.stringify(this.entries), 'utf8');
+    });
+    this.writing = next.catch(() => undefined);
+    return next;
+  }
+}
+
+/**
+ * Entries in Web Storage (e.g. `window.localStorage`) under a key prefix
+ */
+export class WebStorageCacheStore implements CacheStore {
+  constructor(private readonly storage: Storage, private readonly prefix = 'nobleport:ens-cache:') {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const raw = this.storage.getItem(this.prefix + key);
+    if (!raw) return undefined;
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.storage.setItem(this.prefix + key, JSON.stringify(entry));
+  }
+
+  async delete(key: string): Promise<void> {
+    this.storage.removeItem(this.prefix + key);
+  }
+
+  async keys(): Promise<string[]> {
+    const keys: string[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (key?.startsWith(this.prefix)) keys.push(key.slice(this.prefix.length));
+    }
+    return keys;
+  }
+
+  async clear(): Promise<void> {
+    for (const key of await this.keys()) this.storage.removeItem(this.prefix + key);
+  }
+}
+
+// ============================================================================
+// CACHE
+// ============================================================================
+
+export class ResolutionCache {
+  private entries = new Map<string, CacheEntry>();
+  private inflight = new Map<string, Promise<unknown>>();
+  private readonly ttlMs: number;
+  private readonly staleTtlMs: number;
+  private readonly maxEntries: number;
+  private counters = { hits: 0, staleHits: 0, misses: 0, revalidations: 0 };
+
+  constructor(private readonly options: ResolutionCacheOptions = {}) {
+    this.ttlMs = options.ttlMs ?? 5 * 60_000;
+    this.staleTtlMs = options.staleTtlMs ?? 60 * 60_000;
+    this.maxEntries = options.maxEntries ?? 500;
+  }
+
+  /**
+   * Cached value for a key, loading it on a miss
+   *
+   * @example
+   * const address = await cache.get('addr:nobleport.eth', () => provider.resolveName('nobleport.eth'));
+   */
+  async get<T>(key: string, load: () => Promise<T>, options: CacheGetOptions = {}): Promise<T> {
+    const entry = options.refresh ? undefined : await this.lookup(key, options.minBlock);
+
+    if (entry) {
+      const age = this.now() - entry.storedAt;
+      if (age < this.ttlMs) {
+        this.counters.hits++;
+        return entry.value as T;
+      }
+      if (options.allowStale !== false && age < this.ttlMs + this.staleTtlMs) {
+        this.counters.staleHits++;
+        this.revalidate(key, load);
+        return entry.value as T;
+      }
+    }
+
+    this.counters.misses++;
+    return this.load(key, load);
+  }
+
+  /**
+   * Cached values for several keys. Every key that needs loading or
+   * revalidating is passed to one `loadMany` call, so a batch of lookups
+   * (e.g. a multicall) costs one round trip.
+   *
+   * @param loadMany - Loads the given keys; keys absent from its result failed and are not cached
+   * @returns Values by key; keys that failed to load are absent
+   */
+  async getMany<T>(
+    keys: string[],
+    loadMany: (keys: string[]) => Promise<Map<string, T>>,
+    options: CacheGetOptions = {}
+  ): Promise<Map<string, T>> {
+    const result = new Map<string, T>();
+    const missing: string[] = [];
+    const stale: string[] = [];
+
+    for (const key of keys) {
+      const entry = options.refresh ? undefined : await this.lookup(key, options.minBlock);
+      const age = entry ? this.now() - entry.storedAt : Infinity;
+      if (entry && age < this.ttlMs) {
+        this.counters.hits++;
+        result.set(key, entry.value as T);
+      } else if (entry && options.allowStale !== false && age < this.ttlMs + this.staleTtlMs) {
+        this.counters.staleHits++;
+        result.set(key, entry.value as T);
+        stale.push(key);
+      } else {
+        this.counters.misses++;
+        missing.push(key);
+      }
+    }
+
+    if (stale.length > 0) {
+      this.counters.revalidations++;
+      this.loadMany(stale, loadMany).catch(() => undefined);
+    }
+    if (missing.length > 0) {
+      for (const [key, value] of await this.loadMany(missing, loadMany)) result.set(key, value);
+    }
+    return result;
+  }
+
+  /**
+   * The cached entry for a key, without loading or touching LRU order
+   */
+  peek<T>(key: string): CacheEntry<T> | undefined {
+    return this.entries.get(key) as CacheEntry<T> | undefined;
+  }
+
+  async set<T>(key: string, value: T, blockNumber?: number): Promise<void> {
+    const entry: CacheEntry = { value, storedAt: this.now(), ...(blockNumber !== undefined && { blockNumber }) };
+    this.remember(key, entry);
+    await this.options.store?.set(key, entry).catch(() => undefined);
+  }
+
+  /**
+   * Drop one key, or every key starting with a prefix ending in ':'
+   *
+   * @example
+   * await cache.invalidate('text:nobleport.eth:'); // every text record of nobleport.eth
+   */
+  async invalidate(keyOrPrefix: string): Promise<void> {
+    let keys = [keyOrPrefix];
+    if (keyOrPrefix.endsWith(':')) {
+      const stored = await this.options.store?.keys().catch(() => []) ?? [];
+      keys = Array.from(new Set([...this.entries.keys(), ...stored])).filter(key => key.startsWith(keyOrPrefix));
+    }
+    for (const key of keys) {
+      this.entries.delete(key);
+      await this.options.store?.delete(key).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Drop every entry read before a block (e.g. after a reorg or an ENS update)
+   */
+  async invalidateBefore(blockNumber: number): Promise<void> {
+    const stored = await this.options.store?.keys().catch(() => []) ?? [];
+    for (const key of Array.from(new Set([...this.entries.keys(), ...stored]))) {
+      const entry = this.entries.get(key) ?? await this.options.store?.get(key).catch(() => undefined);
+      if (entry?.blockNumber !== undefined && entry.blockNumber < blockNumber) await this.invalidate(key);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    await this.options.store?.clear().catch(() => undefined);
+  }
+
+  stats(): CacheStats {
+    return { size: this.entries.size, ...this.counters };
+  }
+
+  private now(): number {
+    return this.options.now?.() ?? Date.now();
+  }
+
+  private async lookup(key: string, minBlock?: number): Promise<CacheEntry | undefined> {
+    let entry = this.entries.get(key);
+    if (!entry && this.options.store) {
+      entry = await this.options.store.get(key).catch(() => undefined);
+      if (entry) this.remember(key, entry);
+    }
+    if (!entry) return undefined;
+    if (minBlock !== undefined && (entry.blockNumber === undefined || entry.blockNumber < minBlock)) return undefined;
+
+    // Move to the most recently used end
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  private remember(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  private load<T>(key: string, load: () => Promise<T>): Promise<T> {
+    // Concurrent misses for one key share a single load
+    const pending = this.inflight.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const next = (async () => {
+      const blockNumber = await this.options.blockNumber?.().catch(() => null);
+      const value = await load();
+      await this.set(key, value, blockNumber ?? undefined);
+      return value;
+    })();
+    this.inflight.set(key, next);
+    next.then(() => this.inflight.delete(key), () => this.inflight.delete(key));
+    return next;
+  }
+
+  private async loadMany<T>(keys: string[], loadMany: (keys: string[]) => Promise<Map<string, T>>): Promise<Map<string, T>> {
+    const blockNumber = await this.options.blockNumber?.().catch(() => null);
+    const loaded = await loadMany(keys);
+    for (const [key, value] of loaded) {
+      if (keys.includes(key)) await this.set(key, value, blockNumber ?? undefined);
+    }
+    return loaded;
+  }
+
+  private revalidate<T>(key: string, load: () => Promise<T>): void {
+    if (this.inflight.has(key)) return;
+    this.counters.revalidations++;
+    // A failed refresh keeps serving the stale value until it expires
+    this.load(key, load).catch(() => undefined);
+  }
+}
+
+export function createResolutionCache(options?: ResolutionCacheOptions): ResolutionCache {
+  return new ResolutionCache(options);
+}
+
+// ============================================================================
+// DID-RESOLVER INTEGRATION
+// ============================================================================
+
+export interface DidDocumentCacheOptions {
+  /**
+   * Serve stale documents while revalidating (default: true). Resolvers
+   * used for signature verification pass false, so a rotated-out key is
+   * rejected once its document passes the TTL.
+   */
+  allowStale?: boolean;
+}
+
+/**
+ * Adapt a ResolutionCache to did-resolver's `cache` option. Successful
+ * resolutions are cached under `doc:<did>` (fragments share the entry);
+ * errors are never cached, and `;no-cache=true` DID URLs bypass the cache.
+ *
+ * @example
+ * createDidResolver({ cache: createDidDocumentCache(cache) });
+ *
+ * // Same entries, but never stale: for resolving signing keys
+ * createDidResolver({ cache: createDidDocumentCache(cache, { allowStale: false }) });
+ */
+export function createDidDocumentCache(cache: ResolutionCache, options: DidDocumentCacheOptions = {}): DIDCache {
+  return async (parsed, resolve) => {
+    const key = `doc:${parsed.params ? parsed.didUrl : parsed.did}`;
+    if (parsed.params?.['no-cache'] === 'true') {
+      const result = await resolve();
+      if (!result.didResolutionMetadata.error) await cache.set(key, result);
+      return result;
+    }
+
+    try {
+      return await cache.get(key, async () => {
+        const result = await resolve();
+        if (result.didResolutionMetadata.error) throw new UncachedResolution(result);
+        return result;
+      }, { allowStale: options.allowStale });
+    } catch (e: unknown) {
+      if (e instanceof UncachedResolution) return e.result;
+      throw e;
+    }
+  };
+}
+
+/** Carries an error resolution out of the cache loader so it is not stored */
+class UncachedResolution extends Error {
+  constructor(readonly result: DIDResolutionResult) {
+    super(result.didResolutionMetadata.error);
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * planSubdomains() end to end on a hardhat node started for the test:
+ * deploys an ENS registry and public resolver, registers nobleport.eth to
+ * an account without funds (standing in for the multisig), then runs the
+ * devnet check. No network access beyond 127.0.0.1.
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChildProcess, spawn } from 'node:child_process';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { createServer } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ethers } from 'ethers';
+import { checkSubdomainsOnDevnet } from './ensDevnet';
+import { ModuleSubdomainSpec } from './ensSubdomains';
+
+// Truffle artifacts of the ENS contracts, as published on npm
+import ENSRegistry from '@ensdomains/ens/build/contracts/ENSRegistry.json';
+import PublicResolver from '@ensdomains/resolver/build/contracts/PublicResolver.json';
+
+const STARTUP_TIMEOUT_MS = 60_000;
+
+async function freePort(): Promise<number> {
+  const server = createServer();
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const address = server.address();
+  await new Promise(resolve => server.close(resolve));
+  return typeof address === 'object' && address ? address.port : 8545;
+}
+
+async function waitForNode(provider: ethers.JsonRpcProvider, node: ChildProcess): Promise<void> {
+  const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    if (node.exitCode !== null) throw new Error(`hardhat node exited with code ${node.exitCode}`);
+    try {
+      await provider.send('eth_chainId', []);
+      return;
+    } catch {
+      await new Promise(resolve => setTimeout(resolve, 250));
+    }
+  }
+  throw new Error(`hardhat node did not start within ${STARTUP_TIMEOUT_MS}ms`);
+}
+
+describe('checkSubdomainsOnDevnet', () => {
+  let workDir: string;
+  let node: ChildProcess;
+  let provider: ethers.JsonRpcProvider;
+  let registryAddress: string;
+
+  const spec: ModuleSubdomainSpec = {
+    ens: 'ap.nobleport.eth',
+    endpoint: 'https://ap.nobleport.io',
+    version: '1.0.0',
+    capabilities: ['basket-creation', 'redemption']
+  };
+
+  before(async () => {
+    workDir = await mkdtemp(join(tmpdir(), 'nobleport-devnet-'));
+    const config = join(workDir, 'hardhat.config.js');
+    await writeFile(config, 'module.exports = { networks: { hardhat: { chainId: 31337 } } };\n');
+
+    const port = await freePort();
+    node = spawn(process.execPath, [require.resolve('hardhat/internal/cli/cli'), 'node', '--config', config, '--port', String(port)], {
+      cwd: process.cwd(),
+      env: { ...process.env, HARDHAT_DISABLE_TELEMETRY_PROMPT: 'true' },
+      stdio: 'ignore'
+    });
+    provider = new ethers.JsonRpcProvider(`http://127.0.0.1:${port}`, 31337, { staticNetwork: true });
+    await waitForNode(provider, node);
+
+    const deployer = await provider.getSigner(0);
+    const registry = await new ethers.ContractFactory(ENSRegistry.abi, ENSRegistry.bytecode, deployer).deploy();
+    registryAddress = await registry.getAddress();
+    const resolver = await new ethers.ContractFactory(PublicResolver.abi, PublicResolver.bytecode, deployer).deploy(registryAddress);
+
+    // eth to the deployer, nobleport.eth to an unfunded account the check impersonates
+    const ens = new ethers.Contract(registryAddress, ENSRegistry.abi, deployer);
+    await (await ens.setSubnodeOwner(ethers.ZeroHash, ethers.id('eth'), await deployer.getAddress())).wait();
+    await (await ens.setSubnodeRecord(
+      ethers.namehash('eth'),
+      ethers.id('nobleport'),
+      ethers.Wallet.createRandom().address,
+      await resolver.getAddress(),
+      0
+    )).wait();
+  });
+
+  after(async () => {
+    provider?.destroy();
+    node?.kill();
+    if (workDir) await rm(workDir, { recursive: true, force: true });
+  });
+
+  it('creates a missing subname and re-plans it as ok', async () => {
+    const result = await checkSubdomainsOnDevnet([spec], { provider, registryAddress });
+
+    assert.equal(result.plan.changes[0].status, 'missing');
+    assert.equal(result.transactionHashes.length, result.plan.transactions.length);
+    assert.deepEqual(result.replan.changes.map(change => change.status), ['ok']);
+    assert.equal(result.replan.transactions.length, 0);
+    assert.equal(result.ok, true);
+  });
+
+  it('updates records that drifted from the spec', async () => {
+    const moved = { ...spec, endpoint: 'https://ap-2.nobleport.io' };
+    const result = await checkSubdomainsOnDevnet([moved], { provider, registryAddress });
+
+    assert.equal(result.plan.changes[0].status, 'drift');
+    assert.ok(result.plan.changes[0].records.some(record => record.key === 'url' && record.desired === moved.endpoint));
+    assert.equal(result.ok, true);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * ENS Devnet Check
+ *
+ * Executes a module subname plan on an anvil or hardhat node and plans
+ * again, so planSubdomains() can be checked end to end against a local
+ * chain without a multisig. Each transaction is sent from the account the
+ * plan names, impersonated through the node's dev RPC methods. Node.js
+ * only; not imported by the runtime code.
+ *
+ * The devnet needs an ENS registry, a resolver and a registered parent
+ * name (nobleport.eth) before the check runs.
+ *
+ * @example
+ * // ENS_NETWORK=anvil ENS_REGISTRY_ADDRESS=0x5FbDB2315678afecb367f032d93F642f64180aa3
+ * const network = getEnsNetwork();
+ * const result = await checkSubdomainsOnDevnet([
+ *   { ens: 'ap.nobleport.eth', endpoint: 'https://ap.nobleport.io', capabilities: ['basket-creation'] }
+ * ], {
+ *   provider: new ethers.JsonRpcProvider(network.rpcUrls[0], network.chainId),
+ *   registryAddress: network.ensRegistry,
+ *   multicallAddress: network.multicall
+ * });
+ * result.ok; // true once every subname re-plans as 'ok'
+ */
+
+import { ethers } from 'ethers';
+import { ENS_NETWORKS } from './ensNetworks';
+import { ModuleSubdomainSpec, SubdomainPlan, SubdomainPlanOptions, planSubdomains } from './ensSubdomains';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DevnetCheckOptions extends SubdomainPlanOptions {
+  /** JSON-RPC provider of the devnet; impersonation needs raw RPC access */
+  provider: ethers.JsonRpcProvider;
+}
+
+export interface DevnetCheckResult {
+  /** Plan before execution */
+  plan: SubdomainPlan;
+  /** Hashes of the executed transactions, in plan order */
+  transactionHashes: string[];
+  /** Plan after execution; empty of transactions when the check passes */
+  replan: SubdomainPlan;
+  /** Whether every subname reports 'ok' after execution */
+  ok: boolean;
+}
+
+/** Balance given to signers without funds, so they can pay for gas */
+const SIGNER_FUNDING = ethers.parseEther('1');
+
+// ============================================================================
+// EXECUTION
+// ============================================================================
+
+async function assertDevnet(provider: ethers.JsonRpcProvider): Promise<void> {
+  const chainId = Number((await provider.getNetwork()).chainId);
+  if (Object.values(ENS_NETWORKS).some(network => network.chainId === chainId)) {
+    throw new Error(`Chain ${chainId} is a public ENS network: devnet checks only run against a local node`);
+  }
+}
+
+/**
+ * Send a plan's transactions on a devnet, each from the account it names
+ *
+ * @throws Error on a public ENS network or when a transaction reverts
+ *
+ * @example
+ * const hashes = await executeSubdomainPlan(plan, new ethers.JsonRpcProvider('http://127.0.0.1:8545'));
+ */
+export async function executeSubdomainPlan(
+  plan: SubdomainPlan,
+  provider: ethers.JsonRpcProvider
+): Promise<string[]> {
+  await assertDevnet(provider);
+  const hashes: string[] = [];
+
+  for (const tx of plan.transactions) {
+    // anvil accepts the hardhat_ names as aliases of its own methods
+    await provider.send('hardhat_impersonateAccount', [tx.from]);
+    try {
+      if (await provider.getBalance(tx.from) < SIGNER_FUNDING) {
+        await provider.send('hardhat_setBalance', [tx.from, ethers.toQuantity(SIGNER_FUNDING)]);
+      }
+      const signer = new ethers.JsonRpcSigner(provider, tx.from);
+      const response = await signer.sendTransaction({ to: tx.to, data: tx.data, value: BigInt(tx.value) });
+      const receipt = await response.wait();
+      if (receipt?.status !== 1) {
+        throw new Error(`${tx.description} reverted (${response.hash})`);
+      }
+      hashes.push(response.hash);
+    } finally {
+      await provider.send('hardhat_stopImpersonatingAccount', [tx.from]);
+    }
+  }
+
+  return hashes;
+}
+
+/**
+ * Plan module subnames, execute the plan on a devnet and plan again
+ *
+ * @throws Error on a public ENS network, when planning fails or when a
+ * transaction reverts
+ */
+export async function checkSubdomainsOnDevnet(
+  specs: ModuleSubdomainSpec[],
+  options: DevnetCheckOptions
+): Promise<DevnetCheckResult> {
+  await assertDevnet(options.provider);
+
+  const plan = await planSubdomains(specs, options);
+  const transactionHashes = await executeSubdomainPlan(plan, options.provider);
+  const replan = await planSubdomains(specs, options);
+
+  return {
+    plan,
+    transactionHashes,
+    replan,
+    ok: replan.transactions.length === 0 && replan.changes.every(change => change.status === 'ok')
+  };
+}
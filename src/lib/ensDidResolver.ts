@@ -4,35 +4,134 @@
  * Connects NoblePort SSI to ENS-based DID resolution for names like
  * `nobleport.eth` or `did:ens:nobleport.eth`
  *
- * Uses the ens-did-resolver + did-resolver stack for full DID Document resolution
+ * Uses the ens-did-resolver + did-resolver stack for full DID Document resolution.
+ * The shared resolver also handles did:web, did:key and did:pkh (see didResolvers.ts).
+ *
+ * All lookups share one provider and one ResolutionCache (see ensCache.ts);
+ * call invalidateEnsName() after updating a name's records. The network
+ * comes from ENS_NETWORK / ENS_RPC_URLS (see ensNetworks.ts) or
+ * configureEnsNetwork().
  *
  * @see https://github.com/veramolabs/ens-did-resolver
  * @see https://github.com/veramolabs/did-ens-spec
  */
 
-import { getResolver as getEnsDidResolver } from 'ens-did-resolver';
 import { Resolver, DIDDocument } from 'did-resolver';
 import { ethers } from 'ethers';
+import { createDidResolver } from './didResolvers';
+import { DidValidationReport, validateDidDocument } from './didValidation';
+import { KeyHistory, KeyHistoryOptions, getKeyHistory } from './ensKeyHistory';
+import { readEnsTextRecords } from './ensMulticall';
+import { EnsNetwork, EnsNetworkOptions, createEnsProvider, getEnsNetwork } from './ensNetworks';
+import { TrustChain, getTrustChain } from './trustChain';
+import {
+  ResolutionCache,
+  ResolutionCacheOptions,
+  createDidDocumentCache,
+  createResolutionCache,
+} from './ensCache';
+
+export { parseDid } from './didResolvers';
 
-// Ethereum RPC provider configuration
-// Supports Infura, Alchemy, or any Ethereum RPC provider
-const INFURA_PROJECT_ID = process.env.NEXT_PUBLIC_INFURA_ID || process.env.INFURA_PROJECT_ID || '';
+// Ethereum network configuration
+// Supports Infura, Alchemy, or any Ethereum RPC provider, on mainnet, testnets or a devnet
+let ensNetwork: EnsNetwork = getEnsNetwork();
+let sharedProvider: ethers.AbstractProvider | null = null;
+
+let ensCache: ResolutionCache = createResolutionCache({
+  blockNumber: async () => getEnsProvider().getBlockNumber(),
+});
+
+/**
+ * Shared cache for DID documents, addresses and text records
+ */
+export function getEnsCache(): ResolutionCache {
+  return ensCache;
+}
+
+/**
+ * Replace the shared cache, e.g. to add a persistent store
+ *
+ * @example
+ * configureEnsCache({ store: new WebStorageCacheStore(window.localStorage) });
+ */
+export function configureEnsCache(options: ResolutionCacheOptions): ResolutionCache {
+  ensCache = createResolutionCache({
+    blockNumber: async () => getEnsProvider().getBlockNumber(),
+    ...options,
+  });
+  return ensCache;
+}
+
+/**
+ * Drop every cached entry for an ENS name (DID document, address and
+ * text records), e.g. after updating its records
+ */
+export async function invalidateEnsName(name: string): Promise<void> {
+  const cleanName = name.replace(/^did:ens:/, '');
+  await Promise.all([
+    ensCache.invalidate(`doc:${ensNameToDid(cleanName)}`),
+    ensCache.invalidate(`addr:${cleanName}`),
+    ensCache.invalidate(`text:${cleanName}:`),
+  ]);
+}
+
+function createSharedDidResolver(allowStale = true): Resolver {
+  return createDidResolver({
+    ens: { ...ensNetwork, provider: getEnsProvider },
+    cache: (parsed, resolve) => createDidDocumentCache(ensCache, { allowStale })(parsed, resolve),
+  });
+}
 
 /**
  * DID Resolver instance configured for ENS resolution
- * Handles did:ens:* DIDs like did:ens:nobleport.eth
- */
-export const didResolver = new Resolver({
-  ...getEnsDidResolver({
-    infuraProjectId: INFURA_PROJECT_ID,
-    // Network defaults to mainnet; can be 'sepolia' for testing
-    // network: 'mainnet',
-  }),
-});
+ * Handles did:ens:* DIDs like did:ens:nobleport.eth, plus did:web, did:key and did:pkh
+ */
+export let didResolver: Resolver = createSharedDidResolver();
+
+/**
+ * The shared resolver without stale-while-revalidate, for resolving keys
+ * that check signatures (credentials, DID-Auth): a document past its TTL
+ * is reloaded, so a rotated-out key stops verifying
+ *
+ * @example
+ * const verifier = createCredentialVerifier({ resolve: (did) => keyDidResolver.resolve(did) });
+ */
+export let keyDidResolver: Resolver = createSharedDidResolver(false);
+
+/**
+ * Network the shared provider and resolver use
+ */
+export function getEnsNetworkConfig(): EnsNetwork {
+  return ensNetwork;
+}
+
+/**
+ * Switch the shared provider and resolver to another network and clear the cache
+ *
+ * @example
+ * // anvil with a locally deployed ENS registry
+ * configureEnsNetwork({ name: 'anvil', ensRegistry: '0x5FbDB2315678afecb367f032d93F642f64180aa3' });
+ *
+ * // Sepolia over two RPCs that must agree
+ * configureEnsNetwork({ name: 'sepolia', rpcUrls: [rpcA, rpcB], quorum: 2 });
+ */
+export async function configureEnsNetwork(options: EnsNetworkOptions): Promise<EnsNetwork> {
+  ensNetwork = getEnsNetwork(options);
+  sharedProvider?.destroy();
+  sharedProvider = null;
+  didResolver = createSharedDidResolver();
+  keyDidResolver = createSharedDidResolver(false);
+  await ensCache.clear();
+  return ensNetwork;
+}
 
 /**
  * Resolve an ENS-based DID to its DID Document
  *
+ * Other supported methods (did:web, did:key, did:pkh) resolve through the
+ * same resolver.
+ *
  * @param did - The DID to resolve (e.g., 'did:ens:nobleport.eth')
  * @returns The resolved DID Document or null if not found
  *
@@ -45,6 +144,36 @@ export async function resolveEnsDid(did: string): Promise<DIDDocument | null> {
   return result.didDocument;
 }
 
+/**
+ * Resolve a DID and validate its document (see didValidation.ts)
+ *
+ * For did:ens, blockchainAccountIds are also checked against the name's
+ * ENS address and the configured network.
+ *
+ * @returns The document as resolved, and a report (null when nothing resolved)
+ *
+ * @example
+ * const { didDocument, report } = await resolveValidatedDid('did:ens:ap.nobleport.eth');
+ * report?.issues.filter(issue => issue.severity === 'error');
+ */
+export async function resolveValidatedDid(did: string): Promise<{
+  didDocument: DIDDocument | null;
+  report: DidValidationReport | null;
+}> {
+  const didDocument = await resolveEnsDid(did);
+  if (!didDocument) return { didDocument, report: null };
+
+  const ensAddress = isEnsDid(did)
+    ? await resolveEnsAddress(did.replace(/^did:ens:/, '')).catch(() => null)
+    : null;
+  const report = validateDidDocument(didDocument, {
+    did,
+    ensAddress,
+    chainId: isEnsDid(did) ? ensNetwork.chainId : undefined,
+  });
+  return { didDocument, report };
+}
+
 /**
  * Convert an ENS name to its canonical DID format
  *
@@ -60,6 +189,8 @@ export function ensNameToDid(ensName: string): string {
 /**
  * Check if a string is a valid ENS DID
  *
+ * Use parseDid() to inspect DIDs of any method.
+ *
  * @param did - The string to check
  * @returns True if the string is a valid did:ens DID
  */
@@ -72,13 +203,15 @@ export function isEnsDid(did: string): boolean {
 // ============================================================================
 
 /**
- * Create an Ethereum provider for direct ENS resolution
+ * Shared Ethereum provider for direct ENS resolution (created on first use)
+ *
+ * @throws Error when the network has no RPC URL (set INFURA_PROJECT_ID or ENS_RPC_URLS)
  */
-function createProvider(): ethers.JsonRpcProvider {
-  if (!INFURA_PROJECT_ID) {
-    throw new Error('INFURA_PROJECT_ID is required for ENS resolution');
+export function getEnsProvider(): ethers.AbstractProvider {
+  if (!sharedProvider) {
+    sharedProvider = createEnsProvider(ensNetwork);
   }
-  return new ethers.JsonRpcProvider(`https://mainnet.infura.io/v3/${INFURA_PROJECT_ID}`);
+  return sharedProvider;
 }
 
 /**
@@ -95,9 +228,7 @@ function createProvider(): ethers.JsonRpcProvider {
  * // Returns '0x...' or null
  */
 export async function resolveEnsAddress(name: string): Promise<string | null> {
-  const provider = createProvider();
-  const addr = await provider.resolveName(name);
-  return addr;
+  return ensCache.get(`addr:${name}`, () => getEnsProvider().resolveName(name));
 }
 
 /**
@@ -111,14 +242,14 @@ export async function resolveEnsAddress(name: string): Promise<string | null> {
  * // Returns 'nobleport.eth' or null
  */
 export async function reverseResolveEns(address: string): Promise<string | null> {
-  const provider = createProvider();
-  const name = await provider.lookupAddress(address);
-  return name;
+  return ensCache.get(`name:${address.toLowerCase()}`, () => getEnsProvider().lookupAddress(address));
 }
 
 /**
  * Get ENS text records for a name
  *
+ * Uncached keys are read together in a single Multicall3 call.
+ *
  * @param name - The ENS name
  * @param keys - The text record keys to fetch
  * @returns Object mapping keys to their values
@@ -130,26 +261,72 @@ export async function getEnsTextRecords(
   name: string,
   keys: string[]
 ): Promise<Record<string, string | null>> {
-  const provider = createProvider();
-  const resolver = await provider.getResolver(name);
+  const cacheKey = (key: string) => `text:${name}:${key}`;
+  let cached = new Map<string, string | null>();
 
-  if (!resolver) {
-    return keys.reduce((acc, key) => ({ ...acc, [key]: null }), {});
+  try {
+    // Uncached keys are read in one multicall; failed reads are not cached
+    cached = await ensCache.getMany(keys.map(cacheKey), async missingKeys => {
+      const missing = keys.filter(key => missingKeys.includes(cacheKey(key)));
+      const failed = new Set<string>();
+      const fetched = await readEnsTextRecords(name, missing, {
+        provider: getEnsProvider(),
+        registryAddress: ensNetwork.ensRegistry,
+        multicallAddress: ensNetwork.multicall,
+        onFailure: (_, key) => failed.add(key),
+      });
+      return new Map(missing.filter(key => !failed.has(key)).map(key => [cacheKey(key), fetched[key]]));
+    });
+  } catch {
+    // Provider errors leave every record null
   }
 
   const records: Record<string, string | null> = {};
-
   for (const key of keys) {
-    try {
-      records[key] = await resolver.getText(key);
-    } catch {
-      records[key] = null;
-    }
+    records[key] = cached.get(cacheKey(key)) ?? null;
   }
 
   return records;
 }
 
+/**
+ * Controller and key changes of an ENS name, from registry and resolver events
+ *
+ * @param name - The ENS name (or did:ens DID)
+ * @param options - Block range and log query settings
+ *
+ * @example
+ * const history = await getEnsKeyHistory('ap.nobleport.eth', { fromBlock: 19_000_000, blockRange: 50_000 });
+ * history.lastRotation?.timestamp; // when the module's keys last changed
+ */
+export async function getEnsKeyHistory(
+  name: string,
+  options: Omit<KeyHistoryOptions, 'provider' | 'registryAddress'> = {}
+): Promise<KeyHistory> {
+  return getKeyHistory(name.replace(/^did:ens:/, ''), {
+    ...options,
+    provider: getEnsProvider(),
+    registryAddress: ensNetwork.ensRegistry,
+  });
+}
+
+/**
+ * Walk a did:ens credential issuer up to nobleport.eth
+ *
+ * @example
+ * const chain = await getIssuerTrustChain('did:ens:identity.nobleport.eth');
+ * chain.anchored; // true when identity.nobleport.eth and nobleport.eth are registered and resolve
+ */
+export async function getIssuerTrustChain(did: string, root: string = NOBLEPORT_ENS.ROOT): Promise<TrustChain> {
+  return getTrustChain(did, {
+    provider: getEnsProvider(),
+    registryAddress: ensNetwork.ensRegistry,
+    multicallAddress: ensNetwork.multicall,
+    resolve: (issuer) => didResolver.resolve(issuer),
+    root,
+  });
+}
+
 // ============================================================================
 // NoblePort-specific helpers
 // ============================================================================
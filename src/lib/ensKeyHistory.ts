@@ -0,0 +1,231 @@
+/**
+ * ENS Key-Rotation History
+ *
+ * Rebuilds when a name's controller and keys changed from on-chain events:
+ *
+ *   registry  Transfer(node, owner)        owner            -> 'owner'
+ *             NewResolver(node, resolver)  resolver         -> 'resolver'
+ *   resolver  AddrChanged(node, a)         ETH address      -> 'address'
+ *             TextChanged(node, key, ...)  org.w3c.did.verificationMethod
+ *                                                           -> 'verificationMethods'
+ *
+ * The address becomes the EcdsaSecp256k1RecoveryMethod2020 key of the
+ * did:ens document, and the text record adds further verification methods,
+ * so 'address', 'verificationMethods' and 'resolver' events are rotations.
+ * Resolver events only count while their resolver is the active one.
+ *
+ * Wrapped names change hands inside the NameWrapper, so their ownership
+ * transfers do not appear as registry 'owner' events.
+ */
+
+import { ethers } from 'ethers';
+import { ENS_REGISTRY_ADDRESS } from './ensMulticall';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Text record ens-did-resolver reads additional verification methods from */
+export const VERIFICATION_METHOD_TEXT_KEY = 'org.w3c.did.verificationMethod';
+
+export type KeyHistoryKind = 'owner' | 'resolver' | 'address' | 'verificationMethods';
+
+export interface KeyHistoryEvent {
+  kind: KeyHistoryKind;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  /** Block time in seconds, when timestamps were requested */
+  timestamp?: number;
+  /** New owner, resolver or address, or the verificationMethod text (null when cleared or unreadable) */
+  value: string | null;
+  /** Value before this event, if an earlier event in the range set it */
+  previous: string | null;
+  /** Verification method ids in the new text record ('verificationMethods' events) */
+  keyIds?: string[];
+}
+
+export interface KeyHistory {
+  name: string;
+  did: string;
+  /** Oldest first */
+  events: KeyHistoryEvent[];
+  /** Events that changed the document's keys */
+  rotations: KeyHistoryEvent[];
+  lastRotation: KeyHistoryEvent | null;
+}
+
+export interface KeyHistoryOptions {
+  provider: ethers.AbstractProvider;
+  registryAddress?: string;
+  /** Default: 0 */
+  fromBlock?: number;
+  /** Default: latest */
+  toBlock?: number;
+  /** Split log queries into ranges of this many blocks, for providers that cap eth_getLogs */
+  blockRange?: number;
+  /** Read block timestamps (one request per block with events; default: true) */
+  timestamps?: boolean;
+}
+
+const registryEvents = new ethers.Interface([
+  'event Transfer(bytes32 indexed node, address owner)',
+  'event NewResolver(bytes32 indexed node, address resolver)',
+  'function resolver(bytes32 node) view returns (address)'
+]);
+
+// Older public resolvers emit TextChanged without the value
+const resolverEvents = new ethers.Interface([
+  'event AddrChanged(bytes32 indexed node, address a)',
+  'event TextChanged(bytes32 indexed node, string indexed indexedKey, string key)',
+  'event TextChanged(bytes32 indexed node, string indexed indexedKey, string key, string value)',
+  'function text(bytes32 node, string key) view returns (string)'
+]);
+
+const ROTATION_KINDS: KeyHistoryKind[] = ['resolver', 'address', 'verificationMethods'];
+
+// ============================================================================
+// LOGS
+// ============================================================================
+
+async function getLogs(
+  options: KeyHistoryOptions,
+  filter: { address: string | string[]; topics: Array<string | string[] | null> },
+  toBlock: number
+): Promise<ethers.Log[]> {
+  const fromBlock = options.fromBlock ?? 0;
+  const range = options.blockRange ?? toBlock - fromBlock + 1;
+  const logs: ethers.Log[] = [];
+  for (let start = fromBlock; start <= toBlock; start += range) {
+    logs.push(...await options.provider.getLogs({
+      ...filter,
+      fromBlock: start,
+      toBlock: Math.min(start + range - 1, toBlock)
+    }));
+  }
+  return logs;
+}
+
+function keyIds(text: string | null): string[] {
+  if (!text) return [];
+  try {
+    const methods = JSON.parse(unescape(text));
+    return Array.isArray(methods) ? methods.map(method => method?.id).filter(id => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+const byPosition = (a: { blockNumber: number; index: number }, b: { blockNumber: number; index: number }) =>
+  a.blockNumber - b.blockNumber || a.index - b.index;
+
+// ============================================================================
+// HISTORY
+// ============================================================================
+
+/**
+ * Controller and key changes of an ENS name, oldest first
+ *
+ * @example
+ * const history = await getKeyHistory('ap.nobleport.eth', { provider, fromBlock: 19_000_000 });
+ * history.lastRotation; // { kind: 'address', blockNumber: 19234567, value: '0x...', previous: '0x...', ... }
+ */
+export async function getKeyHistory(name: string, options: KeyHistoryOptions): Promise<KeyHistory> {
+  const { provider } = options;
+  const node = ethers.namehash(name);
+  const registryAddress = options.registryAddress ?? ENS_REGISTRY_ADDRESS;
+  const toBlock = options.toBlock ?? await provider.getBlockNumber();
+
+  const registryLogs = (await getLogs(options, {
+    address: registryAddress,
+    topics: [[registryEvents.getEvent('Transfer')!.topicHash, registryEvents.getEvent('NewResolver')!.topicHash], node]
+  }, toBlock)).sort(byPosition);
+
+  const resolverChanges = registryLogs
+    .map(log => registryEvents.parseLog(log)!)
+    .filter(parsed => parsed.name === 'NewResolver');
+
+  // The resolver active at fromBlock was set before the range. Without an
+  // archive node (or before the registry existed) assume none when the range
+  // sets one, otherwise the current one.
+  const registry = new ethers.Contract(registryAddress, registryEvents, provider);
+  const initialResolver: string = await registry.resolver(node, { blockTag: options.fromBlock ?? 0 })
+    .catch(() => resolverChanges.length ? ethers.ZeroAddress : registry.resolver(node))
+    .catch(() => ethers.ZeroAddress);
+  const resolvers = Array.from(new Set([initialResolver, ...resolverChanges.map(parsed => parsed.args.resolver as string)]))
+    .filter(address => address !== ethers.ZeroAddress);
+
+  const textTopic = ethers.id(VERIFICATION_METHOD_TEXT_KEY);
+  const resolverLogs = resolvers.length
+    ? (await getLogs(options, {
+        address: resolvers,
+        topics: [resolverEvents.fragments
+          .filter((fragment): fragment is ethers.EventFragment => fragment.type === 'event')
+          .map(fragment => fragment.topicHash), node]
+      }, toBlock)).filter(log => log.topics[0] === resolverEvents.getEvent('AddrChanged')!.topicHash || log.topics[2] === textTopic)
+    : [];
+
+  const events: KeyHistoryEvent[] = [];
+  const previous: Partial<Record<KeyHistoryKind, string | null>> = {};
+  let activeResolver = initialResolver;
+
+  for (const log of [...registryLogs, ...resolverLogs].sort(byPosition)) {
+    const fromRegistry = log.address.toLowerCase() === registryAddress.toLowerCase();
+    if (!fromRegistry && log.address.toLowerCase() !== activeResolver.toLowerCase()) continue;
+
+    const parsed = (fromRegistry ? registryEvents : resolverEvents).parseLog(log)!;
+    let kind: KeyHistoryKind;
+    let value: string | null;
+
+    if (parsed.name === 'Transfer') {
+      kind = 'owner';
+      value = parsed.args.owner;
+    } else if (parsed.name === 'NewResolver') {
+      kind = 'resolver';
+      value = parsed.args.resolver;
+      activeResolver = parsed.args.resolver;
+    } else if (parsed.name === 'AddrChanged') {
+      kind = 'address';
+      value = parsed.args.a;
+    } else {
+      kind = 'verificationMethods';
+      value = parsed.args.length > 3
+        ? parsed.args.value
+        : await new ethers.Contract(log.address, resolverEvents, provider)
+          .text(node, VERIFICATION_METHOD_TEXT_KEY, { blockTag: log.blockNumber })
+          .catch(() => null);
+    }
+    if (value === ethers.ZeroAddress || value === '') value = null;
+
+    events.push({
+      kind,
+      blockNumber: log.blockNumber,
+      logIndex: log.index,
+      transactionHash: log.transactionHash,
+      value,
+      previous: previous[kind] ?? null,
+      ...(kind === 'verificationMethods' ? { keyIds: keyIds(value) } : {})
+    });
+    previous[kind] = value;
+  }
+
+  if (options.timestamps !== false) {
+    const blocks = new Map<number, number>();
+    for (const blockNumber of new Set(events.map(event => event.blockNumber))) {
+      const block = await provider.getBlock(blockNumber);
+      if (block) blocks.set(blockNumber, block.timestamp);
+    }
+    events.forEach(event => {
+      event.timestamp = blocks.get(event.blockNumber);
+    });
+  }
+
+  const rotations = events.filter(event => ROTATION_KINDS.includes(event.kind));
+  return {
+    name,
+    did: `did:ens:${name}`,
+    events,
+    rotations,
+    lastRotation: rotations[rotations.length - 1] ?? null
+  };
+}
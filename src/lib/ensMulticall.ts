@@ -0,0 +1,343 @@
+/**
+ * Batched ENS Record Reads
+ *
+ * Reads text, addr, contenthash and avatar records for one or many ENS
+ * names through Multicall3 `aggregate3`, instead of one RPC round trip per
+ * record:
+ *
+ * 1. one batch of `registry.resolver(node)` calls finds each name's resolver
+ * 2. one batch of `text` / `addr` / `contenthash` calls reads the records
+ *
+ * Every call is made with `allowFailure`, so a reverting record reads as
+ * null without affecting the others. Names without a resolver in the
+ * registry (e.g. wildcard subnames) fall back to ethers' EnsResolver.
+ *
+ * readEnsRegistry() reads owners and resolvers the same way, for planning
+ * registry changes (see ensSubdomains.ts).
+ *
+ * @see https://github.com/mds1/multicall
+ */
+
+import { ethers } from 'ethers';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Multicall3, deployed at the same address on mainnet and most EVM chains */
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+export const ENS_REGISTRY_ADDRESS = '0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e';
+
+export interface EnsRecordRequest {
+  /** Text record keys, e.g. ['url', 'email', 'com.twitter'] */
+  texts?: string[];
+  /** Read the ETH address (returned under 'addr') */
+  addr?: boolean;
+  /** Read the content hash, decoded to an ipfs://, ipns:// or bzz:// URL (returned under 'contenthash') */
+  contenthash?: boolean;
+  /** Read the raw avatar text record (returned under 'avatar') */
+  avatar?: boolean;
+}
+
+export interface EnsMulticallOptions {
+  /** Any ethers provider (e.g. JsonRpcProvider); getResolver() serves names without a registry resolver */
+  provider: ethers.AbstractProvider;
+  multicallAddress?: string;
+  registryAddress?: string;
+  /** Calls per aggregate3 request (default: 100) */
+  batchSize?: number;
+  /** Called for each record that failed to read (it is returned as null) */
+  onFailure?: (name: string, key: string) => void;
+}
+
+/** Records per name; a record that is unset or failed to read is null */
+export type EnsRecords = Record<string, string | null>;
+
+export interface EnsRegistryEntry {
+  /** Controlling account: the NameWrapper token owner for wrapped names; null when unregistered */
+  owner: string | null;
+  resolver: string | null;
+  /** NameWrapper contract holding the name, or null when unwrapped */
+  wrapper: string | null;
+}
+
+interface RecordCall {
+  name: string;
+  /** Key in the returned records */
+  key: string;
+  target: string;
+  callData: string;
+  decode: (data: string) => string | null;
+}
+
+const multicall = new ethers.Interface([
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)'
+]);
+
+const registry = new ethers.Interface([
+  'function owner(bytes32 node) view returns (address)',
+  'function resolver(bytes32 node) view returns (address)'
+]);
+
+const nameWrapper = new ethers.Interface(['function ownerOf(uint256 id) view returns (address)']);
+
+const resolverAbi = new ethers.Interface([
+  'function text(bytes32 node, string key) view returns (string)',
+  'function addr(bytes32 node) view returns (address)',
+  'function contenthash(bytes32 node) view returns (bytes)'
+]);
+
+// ============================================================================
+// DECODING
+// ============================================================================
+
+const nonEmpty = (value: string) => (value ? value : null);
+
+function decodeAddress(value: string): string | null {
+  return value === ethers.ZeroAddress ? null : value;
+}
+
+/**
+ * Decode an EIP-1577 content hash to a URL
+ *
+ * @returns ipfs://, ipns:// or bzz:// URL; the hex value for other codecs; null when unset
+ */
+export function decodeContentHash(data: string): string | null {
+  if (!data || data === '0x') return null;
+
+  const ipfs = /^0x(e3010170|e5010172)(([0-9a-f][0-9a-f])([0-9a-f][0-9a-f])([0-9a-f]*))$/.exec(data);
+  if (ipfs && ipfs[5].length === parseInt(ipfs[4], 16) * 2) {
+    const scheme = ipfs[1] === 'e3010170' ? 'ipfs' : 'ipns';
+    return `${scheme}://${ethers.encodeBase58(`0x${ipfs[2]}`)}`;
+  }
+
+  const swarm = /^0xe40101fa011b20([0-9a-f]{64})$/.exec(data);
+  if (swarm) return `bzz://${swarm[1]}`;
+
+  return data;
+}
+
+function recordCalls(name: string, resolver: string, request: EnsRecordRequest): RecordCall[] {
+  const node = ethers.namehash(name);
+  const call = (key: string, fn: string, args: unknown[], decode: RecordCall['decode']): RecordCall => ({
+    name,
+    key,
+    target: resolver,
+    callData: resolverAbi.encodeFunctionData(fn, [node, ...args]),
+    decode: data => decode(resolverAbi.decodeFunctionResult(fn, data)[0])
+  });
+
+  const calls = (request.texts ?? []).map(key => call(key, 'text', [key], nonEmpty));
+  if (request.avatar) calls.push(call('avatar', 'text', ['avatar'], nonEmpty));
+  if (request.addr) calls.push(call('addr', 'addr', [], decodeAddress));
+  if (request.contenthash) calls.push(call('contenthash', 'contenthash', [], decodeContentHash));
+  return calls;
+}
+
+function requestedKeys(request: EnsRecordRequest): string[] {
+  return [
+    ...(request.texts ?? []),
+    ...(request.avatar ? ['avatar'] : []),
+    ...(request.addr ? ['addr'] : []),
+    ...(request.contenthash ? ['contenthash'] : [])
+  ];
+}
+
+// ============================================================================
+// MULTICALL
+// ============================================================================
+
+/**
+ * Run calls through aggregate3 in batches
+ *
+ * @returns Return data per call, or null for calls that reverted. If the
+ * aggregate call itself fails (e.g. no Multicall3 on the chain), each call
+ * of that batch is sent on its own.
+ */
+async function aggregate(
+  calls: Array<{ target: string; callData: string }>,
+  options: EnsMulticallOptions
+): Promise<Array<string | null>> {
+  const { provider } = options;
+  const to = options.multicallAddress ?? MULTICALL3_ADDRESS;
+  const batchSize = options.batchSize ?? 100;
+  const results: Array<string | null> = [];
+
+  for (let start = 0; start < calls.length; start += batchSize) {
+    const batch = calls.slice(start, start + batchSize);
+    try {
+      const data = await provider.call({
+        to,
+        data: multicall.encodeFunctionData('aggregate3', [batch.map(c => [c.target, true, c.callData])])
+      });
+      const [returned] = multicall.decodeFunctionResult('aggregate3', data);
+      for (const [success, returnData] of returned as Array<[boolean, string]>) {
+        results.push(success ? returnData : null);
+      }
+    } catch {
+      const single = await Promise.all(batch.map(c =>
+        provider.call({ to: c.target, data: c.callData }).catch(() => null)));
+      results.push(...single);
+    }
+  }
+  return results;
+}
+
+async function fallbackRecords(name: string, request: EnsRecordRequest, options: EnsMulticallOptions): Promise<EnsRecords> {
+  const records: EnsRecords = Object.fromEntries(requestedKeys(request).map(key => [key, null]));
+  let resolver: ethers.EnsResolver | null;
+  try {
+    resolver = await options.provider.getResolver(name);
+  } catch {
+    requestedKeys(request).forEach(key => options.onFailure?.(name, key));
+    return records;
+  }
+  if (!resolver) return records;
+
+  const read = async (key: string, lookup: () => Promise<string | null>) => {
+    try {
+      records[key] = (await lookup()) || null;
+    } catch {
+      options.onFailure?.(name, key);
+    }
+  };
+  await Promise.all([
+    ...(request.texts ?? []).map(key => read(key, () => resolver.getText(key))),
+    ...(request.avatar ? [read('avatar', () => resolver.getText('avatar'))] : []),
+    ...(request.addr ? [read('addr', () => resolver.getAddress())] : []),
+    ...(request.contenthash ? [read('contenthash', () => resolver.getContentHash())] : [])
+  ]);
+  return records;
+}
+
+/**
+ * Read records for many ENS names in two Multicall3 round trips
+ *
+ * @returns Records keyed by name, then by text key / 'addr' / 'contenthash' / 'avatar'
+ *
+ * @example
+ * const records = await readEnsRecords(['nobleport.eth', 'etf.nobleport.eth'], {
+ *   texts: ['url', 'email'],
+ *   addr: true
+ * }, { provider });
+ * records['nobleport.eth'].url; // 'https://nobleport.io' or null
+ */
+export async function readEnsRecords(
+  names: string[],
+  request: EnsRecordRequest,
+  options: EnsMulticallOptions
+): Promise<Record<string, EnsRecords>> {
+  const unique = Array.from(new Set(names));
+  const registryAddress = options.registryAddress ?? ENS_REGISTRY_ADDRESS;
+
+  const resolverData = await aggregate(unique.map(name => ({
+    target: registryAddress,
+    callData: registry.encodeFunctionData('resolver', [ethers.namehash(name)])
+  })), options);
+
+  const resolvers = new Map<string, string>();
+  const fallback: string[] = [];
+  unique.forEach((name, i) => {
+    let resolver: string | null = null;
+    try {
+      resolver = resolverData[i] && decodeAddress(registry.decodeFunctionResult('resolver', resolverData[i]!)[0]);
+    } catch {
+      resolver = null;
+    }
+    if (resolver) resolvers.set(name, resolver);
+    else fallback.push(name);
+  });
+
+  const calls = Array.from(resolvers).flatMap(([name, resolver]) => recordCalls(name, resolver, request));
+  const [returned, fallbackResults] = await Promise.all([
+    aggregate(calls, options),
+    Promise.all(fallback.map(name => fallbackRecords(name, request, options)))
+  ]);
+
+  const result: Record<string, EnsRecords> = {};
+  for (const name of resolvers.keys()) {
+    result[name] = Object.fromEntries(requestedKeys(request).map(key => [key, null]));
+  }
+  calls.forEach((call, i) => {
+    try {
+      if (returned[i] === null) throw new Error('call reverted');
+      result[call.name][call.key] = call.decode(returned[i]!);
+    } catch {
+      result[call.name][call.key] = null;
+      options.onFailure?.(call.name, call.key);
+    }
+  });
+  fallback.forEach((name, i) => {
+    result[name] = fallbackResults[i];
+  });
+
+  return result;
+}
+
+function decodeRegistryAddress(iface: ethers.Interface, fn: string, data: string | null): string | null {
+  if (!data) return null;
+  try {
+    return decodeAddress(iface.decodeFunctionResult(fn, data)[0]);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read registry owner and resolver for many names in two Multicall3 round trips
+ *
+ * A name is treated as wrapped when its registry owner answers
+ * `ownerOf(namehash)` with an account, as the NameWrapper does.
+ *
+ * @example
+ * const entries = await readEnsRegistry(['nobleport.eth', 'ap.nobleport.eth'], { provider });
+ * entries['ap.nobleport.eth']; // { owner: '0x...', resolver: '0x...', wrapper: null }
+ */
+export async function readEnsRegistry(
+  names: string[],
+  options: EnsMulticallOptions
+): Promise<Record<string, EnsRegistryEntry>> {
+  const unique = Array.from(new Set(names));
+  const target = options.registryAddress ?? ENS_REGISTRY_ADDRESS;
+
+  const data = await aggregate(unique.flatMap(name => {
+    const node = ethers.namehash(name);
+    return [
+      { target, callData: registry.encodeFunctionData('owner', [node]) },
+      { target, callData: registry.encodeFunctionData('resolver', [node]) }
+    ];
+  }), options);
+
+  const owners = unique.map((_, i) => decodeRegistryAddress(registry, 'owner', data[i * 2]));
+  const wrapped = await aggregate(unique.flatMap((name, i) => owners[i]
+    ? [{ target: owners[i]!, callData: nameWrapper.encodeFunctionData('ownerOf', [BigInt(ethers.namehash(name))]) }]
+    : []), options);
+
+  const result: Record<string, EnsRegistryEntry> = {};
+  let w = 0;
+  unique.forEach((name, i) => {
+    const tokenOwner = owners[i] ? decodeRegistryAddress(nameWrapper, 'ownerOf', wrapped[w++]) : null;
+    result[name] = {
+      owner: tokenOwner ?? owners[i],
+      resolver: decodeRegistryAddress(registry, 'resolver', data[i * 2 + 1]),
+      wrapper: tokenOwner ? owners[i] : null
+    };
+  });
+  return result;
+}
+
+/**
+ * Batched equivalent of reading each text record with `resolver.getText`
+ *
+ * @example
+ * await readEnsTextRecords('nobleport.eth', ['url', 'email'], { provider });
+ * // { url: 'https://nobleport.io', email: null }
+ */
+export async function readEnsTextRecords(
+  name: string,
+  keys: string[],
+  options: EnsMulticallOptions
+): Promise<EnsRecords> {
+  return (await readEnsRecords([name], { texts: keys }, options))[name];
+}
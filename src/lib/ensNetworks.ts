@@ -0,0 +1,179 @@
+/**
+ * ENS Network Selection
+ *
+ * Chooses the Ethereum network ENS names are resolved on:
+ *
+ * - mainnet, sepolia, holesky  public ENS deployments (Infura or custom RPCs)
+ * - any other name             a custom chain with its own ENS registry,
+ *                              e.g. an anvil/hardhat devnet
+ *
+ * Several RPC URLs are wrapped in an ethers FallbackProvider, which moves
+ * on to the next URL when one stalls and can require a quorum of matching
+ * answers.
+ *
+ * Settings come from options first, then from the environment:
+ *
+ *   ENS_NETWORK            mainnet | sepolia | holesky | <custom name>
+ *   ENS_RPC_URLS           comma-separated JSON-RPC URLs
+ *   ENS_RPC_QUORUM         providers that must agree (default: 1)
+ *   ENS_REGISTRY_ADDRESS   ENS registry (required for custom networks)
+ *   ENS_CHAIN_ID           chain id of a custom network (default: 31337)
+ *   ENS_MULTICALL_ADDRESS  Multicall3 deployment, if not the canonical one
+ *
+ * Each also reads a NEXT_PUBLIC_ prefixed variant for the dashboard.
+ *
+ * @see https://docs.ens.domains/learn/deployments
+ */
+
+import type { ConfigurationOptions, ProviderConfiguration } from 'ens-did-resolver';
+import { ethers } from 'ethers';
+import { ENS_REGISTRY_ADDRESS, MULTICALL3_ADDRESS } from './ensMulticall';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type KnownEnsNetwork = 'mainnet' | 'sepolia' | 'holesky';
+
+export interface EnsNetwork {
+  /** Network name; also the did:ens network prefix (did:ens:sepolia:name.eth) */
+  name: string;
+  chainId: number;
+  /** JSON-RPC endpoints in priority order */
+  rpcUrls: string[];
+  ensRegistry: string;
+  multicall: string;
+  /** Providers that must return the same result (default: 1) */
+  quorum: number;
+}
+
+export interface EnsNetworkOptions extends Partial<EnsNetwork> {
+  /** Builds an Infura URL for known networks when rpcUrls is empty */
+  infuraProjectId?: string;
+}
+
+/** Public ENS deployments; the registry has the same address on each */
+export const ENS_NETWORKS: Record<KnownEnsNetwork, { chainId: number; ensRegistry: string }> = {
+  mainnet: { chainId: 1, ensRegistry: ENS_REGISTRY_ADDRESS },
+  sepolia: { chainId: 11155111, ensRegistry: ENS_REGISTRY_ADDRESS },
+  holesky: { chainId: 17000, ensRegistry: ENS_REGISTRY_ADDRESS }
+};
+
+/** anvil and hardhat defaults */
+const DEVNET_CHAIN_ID = 31337;
+const DEVNET_RPC_URL = 'http://127.0.0.1:8545';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export function isKnownEnsNetwork(name: string): name is KnownEnsNetwork {
+  return Object.prototype.hasOwnProperty.call(ENS_NETWORKS, name);
+}
+
+function envSettings() {
+  return {
+    name: process.env.NEXT_PUBLIC_ENS_NETWORK || process.env.ENS_NETWORK,
+    rpcUrls: process.env.NEXT_PUBLIC_ENS_RPC_URLS || process.env.ENS_RPC_URLS,
+    quorum: process.env.NEXT_PUBLIC_ENS_RPC_QUORUM || process.env.ENS_RPC_QUORUM,
+    ensRegistry: process.env.NEXT_PUBLIC_ENS_REGISTRY_ADDRESS || process.env.ENS_REGISTRY_ADDRESS,
+    chainId: process.env.NEXT_PUBLIC_ENS_CHAIN_ID || process.env.ENS_CHAIN_ID,
+    multicall: process.env.NEXT_PUBLIC_ENS_MULTICALL_ADDRESS || process.env.ENS_MULTICALL_ADDRESS,
+    infuraProjectId: process.env.NEXT_PUBLIC_INFURA_ID || process.env.INFURA_PROJECT_ID
+  };
+}
+
+/**
+ * Settle the network to resolve ENS names on
+ *
+ * Known networks without RPC URLs use Infura when a project id is set, and
+ * otherwise get no URLs (createEnsProvider then throws).
+ *
+ * @throws Error for a custom network without an ENS registry address
+ *
+ * @example
+ * getEnsNetwork({ name: 'sepolia', rpcUrls: ['https://rpc.sepolia.org', 'https://sepolia.drpc.org'] });
+ * getEnsNetwork({ name: 'anvil', ensRegistry: '0x5FbDB2315678afecb367f032d93F642f64180aa3' });
+ */
+export function getEnsNetwork(options: EnsNetworkOptions = {}): EnsNetwork {
+  const env = envSettings();
+  const name = options.name || env.name || 'mainnet';
+  const known = isKnownEnsNetwork(name) ? ENS_NETWORKS[name] : null;
+
+  const ensRegistry = options.ensRegistry || env.ensRegistry || known?.ensRegistry;
+  if (!ensRegistry) {
+    throw new Error(`ENS network ${name} needs an ENS registry address: set ENS_REGISTRY_ADDRESS`);
+  }
+
+  let rpcUrls = options.rpcUrls?.length
+    ? options.rpcUrls
+    : (env.rpcUrls ?? '').split(',').map(url => url.trim()).filter(Boolean);
+  const infuraProjectId = options.infuraProjectId || env.infuraProjectId;
+  if (!rpcUrls.length && known && infuraProjectId) {
+    rpcUrls = [`https://${name}.infura.io/v3/${infuraProjectId}`];
+  } else if (!rpcUrls.length && !known) {
+    rpcUrls = [DEVNET_RPC_URL];
+  }
+
+  return {
+    name,
+    chainId: options.chainId ?? (env.chainId ? Number(env.chainId) : known?.chainId ?? DEVNET_CHAIN_ID),
+    rpcUrls,
+    ensRegistry: ethers.getAddress(ensRegistry),
+    multicall: options.multicall || env.multicall || MULTICALL3_ADDRESS,
+    quorum: options.quorum ?? (env.quorum ? Number(env.quorum) : 1)
+  };
+}
+
+// ============================================================================
+// PROVIDERS
+// ============================================================================
+
+/**
+ * Provider for an ENS network, using its registry for name resolution
+ *
+ * One URL gives a JsonRpcProvider; several give a FallbackProvider that
+ * tries them in order and waits for `quorum` matching answers.
+ *
+ * @throws Error when the network has no RPC URLs or quorum exceeds them
+ *
+ * @example
+ * const provider = createEnsProvider(getEnsNetwork({ name: 'holesky' }));
+ * await provider.resolveName('nobleport.eth');
+ */
+export function createEnsProvider(network: EnsNetwork): ethers.AbstractProvider {
+  if (!network.rpcUrls.length) {
+    throw new Error(`No RPC URL for ENS network ${network.name}: set INFURA_PROJECT_ID or ENS_RPC_URLS`);
+  }
+  if (network.quorum < 1 || network.quorum > network.rpcUrls.length) {
+    throw new Error(`ENS quorum ${network.quorum} needs between 1 and ${network.rpcUrls.length} RPC URLs`);
+  }
+
+  const staticNetwork = new ethers.Network(network.name, network.chainId);
+  staticNetwork.attachPlugin(new ethers.EnsPlugin(network.ensRegistry, network.chainId));
+
+  const providers = network.rpcUrls.map(url => new ethers.JsonRpcProvider(url, staticNetwork, { staticNetwork }));
+  if (providers.length === 1) return providers[0];
+
+  return new ethers.FallbackProvider(
+    providers.map((provider, i) => ({ provider, priority: i + 1, weight: 1 })),
+    staticNetwork,
+    { quorum: network.quorum }
+  );
+}
+
+/**
+ * ens-did-resolver configuration for a network
+ *
+ * Unprefixed DIDs (did:ens:name.eth) and prefixed ones
+ * (did:ens:<network>:name.eth) both resolve on the given provider.
+ */
+export function ensDidResolverConfig(network: EnsNetwork, provider: ethers.AbstractProvider): ConfigurationOptions {
+  // ens-did-resolver is typed against ethers v5, but only calls getResolver()
+  // and getNetwork(), which ethers v6 providers implement
+  const legacyProvider = provider as unknown as ProviderConfiguration['provider'];
+  return {
+    provider: legacyProvider,
+    networks: [{ name: network.name, chainId: network.chainId, provider: legacyProvider }]
+  };
+}
@@ -0,0 +1,340 @@
+/**
+ * NoblePort Module Subdomain Management
+ *
+ * Compares the module subnames (portfolio.nobleport.eth, ap.nobleport.eth,
+ * ...) against on-chain ENS state and prepares the transactions that bring
+ * them in line:
+ *
+ * 1. create missing subnames with a resolver (registry or NameWrapper)
+ * 2. point existing subnames at the desired resolver
+ * 3. set the address and the text records modules are discovered by
+ *
+ * Nothing is signed or sent. The plan lists unsigned transactions with the
+ * account that has to sign each one, and toSafeTransactionBatch() exports
+ * them for approval in a Safe multisig.
+ *
+ * Text records per module:
+ *
+ *   url                            module sync endpoint
+ *   org.w3c.did.service            NoblePortModule service for the DID document
+ *   nobleport.module.version       module version
+ *   nobleport.module.capabilities  comma-separated capabilities
+ *
+ * @see https://docs.ens.domains/wrapper/overview
+ * @see https://help.safe.global/en/articles/40841-transaction-builder
+ */
+
+import { ethers } from 'ethers';
+import {
+  ENS_REGISTRY_ADDRESS,
+  EnsMulticallOptions,
+  EnsRegistryEntry,
+  readEnsRecords,
+  readEnsRegistry
+} from './ensMulticall';
+import { MODULE_SERVICE_TYPE } from './moduleSync';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const MODULE_TEXT_KEYS = {
+  ENDPOINT: 'url',
+  SERVICES: 'org.w3c.did.service',
+  VERSION: 'nobleport.module.version',
+  CAPABILITIES: 'nobleport.module.capabilities'
+} as const;
+
+/** Desired state of one module subname; records left undefined are not managed */
+export interface ModuleSubdomainSpec {
+  /** Full name, e.g. 'portfolio.nobleport.eth' */
+  ens: string;
+  /** Sync endpoint, published as `url` and as a NoblePortModule DID service */
+  endpoint?: string;
+  version?: string;
+  capabilities?: string[];
+  /** ETH address record */
+  address?: string;
+}
+
+export interface SubdomainPlanOptions extends Omit<EnsMulticallOptions, 'onFailure'> {
+  /** Parent of every module name (default: 'nobleport.eth') */
+  parent?: string;
+  /** Owner of newly created subnames (default: the parent's owner) */
+  owner?: string;
+  /** Resolver every subname should use (default: its current one, else the parent's) */
+  resolver?: string;
+}
+
+export interface RecordChange {
+  /** Text record key, or 'addr' */
+  key: string;
+  current: string | null;
+  desired: string;
+}
+
+export interface SubdomainChange {
+  name: string;
+  /**
+   * missing: not in the registry
+   * drift: resolver or records differ from the spec
+   * ok: nothing to do
+   */
+  status: 'missing' | 'drift' | 'ok';
+  /** Account that controls the name after the plan runs */
+  owner: string;
+  wrapped: boolean;
+  resolver: { current: string | null; desired: string };
+  records: RecordChange[];
+}
+
+export interface UnsignedTransaction {
+  to: string;
+  /** Wei, as a decimal string */
+  value: string;
+  data: string;
+  /** Account that has to sign: the parent owner or the subname owner */
+  from: string;
+  description: string;
+}
+
+export interface SubdomainPlan {
+  chainId: number;
+  parent: string;
+  changes: SubdomainChange[];
+  /** In execution order: subname creation precedes the record updates */
+  transactions: UnsignedTransaction[];
+}
+
+/** Safe Transaction Builder batch file */
+export interface SafeTransactionBatch {
+  version: '1.0';
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    createdFromSafeAddress: string;
+  };
+  transactions: Array<{ to: string; value: string; data: string }>;
+}
+
+const registryAbi = new ethers.Interface([
+  'function setSubnodeRecord(bytes32 node, bytes32 label, address owner, address resolver, uint64 ttl)',
+  'function setResolver(bytes32 node, address resolver)'
+]);
+
+const nameWrapperAbi = new ethers.Interface([
+  'function setSubnodeRecord(bytes32 parentNode, string label, address owner, address resolver, uint64 ttl, uint32 fuses, uint64 expiry) returns (bytes32)',
+  'function setResolver(bytes32 node, address resolver)'
+]);
+
+const resolverAbi = new ethers.Interface([
+  'function setText(bytes32 node, string key, string value)',
+  'function setAddr(bytes32 node, address addr)',
+  'function multicall(bytes[] data) returns (bytes[] results)'
+]);
+
+// ============================================================================
+// DESIRED STATE
+// ============================================================================
+
+/**
+ * Text and address records a module subname should carry
+ *
+ * @example
+ * moduleRecords({ ens: 'ap.nobleport.eth', endpoint: 'https://ap.nobleport.io', version: '1.2.0' });
+ * // { url: 'https://ap.nobleport.io', 'org.w3c.did.service': '[{"id":"did:ens:ap.nobleport.eth#module-sync",...}]',
+ * //   'nobleport.module.version': '1.2.0' }
+ */
+export function moduleRecords(spec: ModuleSubdomainSpec): Record<string, string> {
+  const records: Record<string, string> = {};
+
+  if (spec.endpoint !== undefined) {
+    records[MODULE_TEXT_KEYS.ENDPOINT] = spec.endpoint;
+    records[MODULE_TEXT_KEYS.SERVICES] = JSON.stringify([{
+      id: `did:ens:${spec.ens}#module-sync`,
+      type: MODULE_SERVICE_TYPE,
+      serviceEndpoint: spec.endpoint
+    }]);
+  }
+  if (spec.version !== undefined) records[MODULE_TEXT_KEYS.VERSION] = spec.version;
+  if (spec.capabilities !== undefined) records[MODULE_TEXT_KEYS.CAPABILITIES] = spec.capabilities.join(',');
+  if (spec.address !== undefined) records.addr = ethers.getAddress(spec.address);
+
+  return records;
+}
+
+function label(name: string, parent: string): string {
+  const suffix = `.${parent}`;
+  const sub = name.endsWith(suffix) ? name.slice(0, -suffix.length) : '';
+  if (!sub || sub.includes('.')) {
+    throw new Error(`${name} is not a direct subname of ${parent}`);
+  }
+  return sub;
+}
+
+// ============================================================================
+// PLANNING
+// ============================================================================
+
+function recordTransaction(
+  name: string,
+  resolver: string,
+  owner: string,
+  changes: RecordChange[]
+): UnsignedTransaction {
+  const node = ethers.namehash(name);
+  const calls = changes.map(change => change.key === 'addr'
+    ? resolverAbi.encodeFunctionData('setAddr', [node, change.desired])
+    : resolverAbi.encodeFunctionData('setText', [node, change.key, change.desired]));
+
+  return {
+    to: resolver,
+    value: '0',
+    data: calls.length === 1 ? calls[0] : resolverAbi.encodeFunctionData('multicall', [calls]),
+    from: owner,
+    description: `Set ${changes.map(change => change.key).join(', ')} on ${name}`
+  };
+}
+
+/**
+ * Diff module subnames against the chain and prepare unsigned transactions
+ *
+ * @throws Error when the parent is unregistered, a name is not a direct
+ * subname of it, or no resolver can be determined
+ *
+ * @example
+ * const plan = await planSubdomains([
+ *   { ens: 'ap.nobleport.eth', endpoint: 'https://ap.nobleport.io', capabilities: ['basket-creation'] }
+ * ], { provider: getEnsProvider(), registryAddress: getEnsNetworkConfig().ensRegistry });
+ * plan.changes[0].status; // 'missing'
+ */
+export async function planSubdomains(
+  specs: ModuleSubdomainSpec[],
+  options: SubdomainPlanOptions
+): Promise<SubdomainPlan> {
+  const parent = options.parent ?? 'nobleport.eth';
+  const labels = specs.map(spec => label(spec.ens, parent));
+  const chainId = Number((await options.provider.getNetwork()).chainId);
+
+  const entries = await readEnsRegistry([parent, ...specs.map(spec => spec.ens)], options);
+  const parentEntry = entries[parent];
+  if (!parentEntry.owner) {
+    throw new Error(`${parent} is not registered on chain ${chainId}`);
+  }
+
+  const desiredResolver = (entry: EnsRegistryEntry, name: string): string => {
+    const resolver = options.resolver ?? entry.resolver ?? parentEntry.resolver;
+    if (!resolver) throw new Error(`No resolver for ${name}: set one on ${parent} or pass options.resolver`);
+    return ethers.getAddress(resolver);
+  };
+
+  // Records are only compared where the resolver stays the same; on a new
+  // resolver every desired record has to be written
+  const comparable = specs.filter(spec => {
+    const entry = entries[spec.ens];
+    return entry.owner && entry.resolver && entry.resolver === desiredResolver(entry, spec.ens);
+  });
+  const desired = specs.map(moduleRecords);
+  const textKeys = Array.from(new Set(desired.flatMap(records => Object.keys(records).filter(key => key !== 'addr'))));
+  const current = comparable.length
+    ? await readEnsRecords(comparable.map(spec => spec.ens), {
+        texts: textKeys,
+        addr: specs.some(spec => spec.address !== undefined)
+      }, options)
+    : {};
+
+  const registryAddress = options.registryAddress ?? ENS_REGISTRY_ADDRESS;
+  const changes: SubdomainChange[] = [];
+  const transactions: UnsignedTransaction[] = [];
+
+  specs.forEach((spec, i) => {
+    const entry = entries[spec.ens];
+    const node = ethers.namehash(spec.ens);
+    const resolver = desiredResolver(entry, spec.ens);
+    const owner = entry.owner ?? ethers.getAddress(options.owner ?? parentEntry.owner!);
+
+    if (!entry.owner) {
+      transactions.push(parentEntry.wrapper
+        ? {
+            to: parentEntry.wrapper,
+            value: '0',
+            data: nameWrapperAbi.encodeFunctionData('setSubnodeRecord', [
+              ethers.namehash(parent), labels[i], owner, resolver, 0, 0, 0
+            ]),
+            from: parentEntry.owner!,
+            description: `Create ${spec.ens} (wrapped) owned by ${owner}`
+          }
+        : {
+            to: registryAddress,
+            value: '0',
+            data: registryAbi.encodeFunctionData('setSubnodeRecord', [
+              ethers.namehash(parent), ethers.id(labels[i]), owner, resolver, 0
+            ]),
+            from: parentEntry.owner!,
+            description: `Create ${spec.ens} owned by ${owner}`
+          });
+    } else if (entry.resolver !== resolver) {
+      transactions.push({
+        to: entry.wrapper ?? registryAddress,
+        value: '0',
+        data: (entry.wrapper ? nameWrapperAbi : registryAbi).encodeFunctionData('setResolver', [node, resolver]),
+        from: owner,
+        description: `Set resolver of ${spec.ens} to ${resolver}`
+      });
+    }
+
+    const onChain = current[spec.ens] ?? {};
+    const records = Object.entries(desired[i])
+      .map(([key, value]) => ({ key, current: onChain[key] ?? null, desired: value }))
+      .filter(change => change.current !== change.desired);
+    if (records.length) {
+      transactions.push(recordTransaction(spec.ens, resolver, owner, records));
+    }
+
+    changes.push({
+      name: spec.ens,
+      status: !entry.owner ? 'missing' : entry.resolver !== resolver || records.length ? 'drift' : 'ok',
+      owner,
+      wrapped: Boolean(entry.owner ? entry.wrapper : parentEntry.wrapper),
+      resolver: { current: entry.resolver, desired: resolver },
+      records
+    });
+  });
+
+  return { chainId, parent, changes, transactions };
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Export a plan as a Safe Transaction Builder batch
+ *
+ * @throws Error when some transactions must be signed by another account
+ *
+ * @example
+ * const batch = toSafeTransactionBatch(plan, '0xSafe...');
+ * await writeFile('ens-modules.json', JSON.stringify(batch, null, 2));
+ */
+export function toSafeTransactionBatch(plan: SubdomainPlan, safeAddress: string): SafeTransactionBatch {
+  const safe = ethers.getAddress(safeAddress);
+  const others = Array.from(new Set(plan.transactions.map(tx => tx.from).filter(from => from !== safe)));
+  if (others.length) {
+    throw new Error(`Plan has transactions to be signed by ${others.join(', ')}, not ${safe}`);
+  }
+
+  return {
+    version: '1.0',
+    chainId: String(plan.chainId),
+    createdAt: Date.now(),
+    meta: {
+      name: `${plan.parent} module subnames`,
+      description: plan.transactions.map(tx => tx.description).join('\n'),
+      createdFromSafeAddress: safe
+    },
+    transactions: plan.transactions.map(({ to, value, data }) => ({ to, value, data }))
+  };
+}
@@ -0,0 +1,155 @@
+/**
+ * Exchange Trading Calendar
+ *
+ * Regular sessions, full-day holidays and early closes of the listing
+ * exchange, evaluated in the exchange's own time zone so daylight saving
+ * changes need no special handling. Holiday lists are published a year or
+ * more ahead; extend NYSE_CALENDAR (or pass your own) as they are.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ExchangeCalendar {
+  exchange: string;
+  /** IANA time zone, e.g. 'America/New_York' */
+  timeZone: string;
+  /** Local session open, 'HH:MM' */
+  open: string;
+  /** Local session close, 'HH:MM' */
+  close: string;
+  /** Full-day closures, local 'YYYY-MM-DD' */
+  holidays: string[];
+  /** Half days: local 'YYYY-MM-DD' -> close 'HH:MM' */
+  earlyCloses?: Record<string, string>;
+}
+
+export type MarketClosedReason = 'weekend' | 'holiday' | 'before-open' | 'after-close';
+
+export type MarketStatus =
+  | { open: true; date: string; closesAt: string }
+  | { open: false; date: string; reason: MarketClosedReason };
+
+export const NYSE_CALENDAR: ExchangeCalendar = {
+  exchange: 'NYSE',
+  timeZone: 'America/New_York',
+  open: '09:30',
+  close: '16:00',
+  holidays: [
+    '2026-01-01', '2026-01-19', '2026-02-16', '2026-04-03', '2026-05-25', '2026-06-19',
+    '2026-07-03', '2026-09-07', '2026-11-26', '2026-12-25',
+    '2027-01-01', '2027-01-18', '2027-02-15', '2027-03-26', '2027-05-31', '2027-06-18',
+    '2027-07-05', '2027-09-06', '2027-11-25', '2027-12-24'
+  ],
+  earlyCloses: {
+    '2026-11-27': '13:00',
+    '2026-12-24': '13:00',
+    '2027-11-26': '13:00'
+  }
+};
+
+// ============================================================================
+// CALENDAR
+// ============================================================================
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Local date and minutes since midnight at an instant
+function localTime(at: Date, timeZone: string): { date: string; minutes: number } {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(at).map(part => [part.type, part.value]));
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute)
+  };
+}
+
+// Midnight UTC of a local 'YYYY-MM-DD' date
+function parseDate(date: string): Date {
+  const day = new Date(`${date}T00:00:00Z`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(day.getTime()) || day.toISOString().slice(0, 10) !== date) {
+    throw new RangeError(`${date} is not a YYYY-MM-DD date`);
+  }
+  return day;
+}
+
+/**
+ * Whether the exchange trades on a local date
+ *
+ * @throws RangeError when the date is not a valid 'YYYY-MM-DD' date
+ *
+ * @example
+ * isTradingDay(NYSE_CALENDAR, '2026-11-26'); // false (Thanksgiving)
+ */
+export function isTradingDay(calendar: ExchangeCalendar, date: string): boolean {
+  const weekday = parseDate(date).getUTCDay();
+  return weekday !== 0 && weekday !== 6 && !calendar.holidays.includes(date);
+}
+
+/**
+ * Session state at an instant
+ *
+ * @example
+ * getMarketStatus(NYSE_CALENDAR, new Date('2026-12-24T19:00:00Z'));
+ * // { open: false, date: '2026-12-24', reason: 'after-close' }  (13:00 early close)
+ */
+export function getMarketStatus(calendar: ExchangeCalendar, at: Date = new Date()): MarketStatus {
+  const { date, minutes } = localTime(at, calendar.timeZone);
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  if (weekday === 0 || weekday === 6) return { open: false, date, reason: 'weekend' };
+  if (calendar.holidays.includes(date)) return { open: false, date, reason: 'holiday' };
+
+  const close = calendar.earlyCloses?.[date] ?? calendar.close;
+  if (minutes < minutesOf(calendar.open)) return { open: false, date, reason: 'before-open' };
+  if (minutes >= minutesOf(close)) return { open: false, date, reason: 'after-close' };
+  return { open: true, date, closesAt: close };
+}
+
+/**
+ * Local exchange date at an instant
+ *
+ * @example
+ * localDate(NYSE_CALENDAR, new Date('2026-10-17T01:00:00Z')); // '2026-10-16' (21:00 in New York)
+ */
+export function localDate(calendar: ExchangeCalendar, at: Date = new Date()): string {
+  return localTime(at, calendar.timeZone).date;
+}
+
+export function isMarketOpen(calendar: ExchangeCalendar, at: Date = new Date()): boolean {
+  return getMarketStatus(calendar, at).open;
+}
+
+/**
+ * The trading day `days` trading days after a local date, e.g. T+2 settlement
+ *
+ * @throws RangeError when the date is not a valid 'YYYY-MM-DD' date
+ *
+ * @example
+ * addTradingDays(NYSE_CALENDAR, '2026-11-25', 2); // '2026-11-30' (skips Thanksgiving and the weekend)
+ */
+export function addTradingDays(calendar: ExchangeCalendar, date: string, days: number): string {
+  const day = parseDate(date);
+  for (let remaining = days; remaining > 0;) {
+    day.setUTCDate(day.getUTCDate() + 1);
+    if (isTradingDay(calendar, day.toISOString().slice(0, 10))) remaining--;
+  }
+  return day.toISOString().slice(0, 10);
+}
@@ -0,0 +1,319 @@
+/**
+ * Platform & Module Health Probing
+ *
+ * Background prober that runs every `loadBalancing.healthCheckInterval`,
+ * tracks latency percentiles and error rates per platform and per module,
+ * and drives a circuit breaker that takes failing platforms out of
+ * selection. Real task calls feed the same trackers, so a platform that
+ * starts failing between probes is caught too.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type HealthState = 'healthy' | 'degraded' | 'unhealthy' | 'unknown';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface LatencyPercentiles {
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+export interface HealthSnapshot {
+  state: HealthState;
+  circuit: CircuitState;
+  latency: LatencyPercentiles | null;
+  /** Failed share of the samples in the window (0-1) */
+  errorRate: number;
+  samples: number;
+  lastProbeAt: string | null;
+  lastError: string | null;
+}
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+  /** Time an open circuit waits before allowing a trial call */
+  resetTimeoutMs: number;
+}
+
+export interface HealthProberOptions {
+  intervalMs: number;
+  /** Probe one platform; reject (or throw) when unhealthy */
+  probePlatform: (id: string, signal: AbortSignal) => Promise<void>;
+  /** Probe one module; reject (or throw) when unhealthy */
+  probeModule: (key: string, signal: AbortSignal) => Promise<void>;
+  /** Current platform ids and module keys to probe */
+  targets: () => { platforms: string[]; modules: string[] };
+  probeTimeoutMs?: number;
+  windowSize?: number;
+  circuitBreaker?: Partial<CircuitBreakerOptions>;
+  /** Error rate at which a target is reported as degraded */
+  degradedErrorRate?: number;
+  now?: () => number;
+}
+
+// ============================================================================
+// LATENCY WINDOW
+// ============================================================================
+
+interface Sample {
+  ok: boolean;
+  latencyMs: number;
+}
+
+/**
+ * Fixed-size rolling window of call outcomes
+ */
+export class RollingWindow {
+  private samples: Sample[] = [];
+
+  constructor(private readonly size: number = 100) {}
+
+  add(sample: Sample): void {
+    this.samples.push(sample);
+    if (this.samples.length > this.size) this.samples.shift();
+  }
+
+  get count(): number {
+    return this.samples.length;
+  }
+
+  errorRate(): number {
+    if (this.samples.length === 0) return 0;
+    return this.samples.filter(s => !s.ok).length / this.samples.length;
+  }
+
+  /** Nearest-rank percentiles over successful samples */
+  percentiles(): LatencyPercentiles | null {
+    const sorted = this.samples.filter(s => s.ok).map(s => s.latencyMs).sort((a, b) => a - b);
+    if (sorted.length === 0) return null;
+    const rank = (p: number) => sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+    return { p50: rank(0.5), p95: rank(0.95), p99: rank(0.99) };
+  }
+}
+
+// ============================================================================
+// CIRCUIT BREAKER
+// ============================================================================
+
+export const DEFAULT_CIRCUIT_BREAKER: CircuitBreakerOptions = {
+  failureThreshold: 3,
+  resetTimeoutMs: 60_000
+};
+
+/**
+ * closed -> open after `failureThreshold` consecutive failures;
+ * open -> half-open after `resetTimeoutMs`; one success closes it again,
+ * one failure re-opens it
+ */
+export class CircuitBreaker {
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly options: CircuitBreakerOptions = DEFAULT_CIRCUIT_BREAKER,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === null) return 'closed';
+    return this.now() - this.openedAt >= this.options.resetTimeoutMs ? 'half-open' : 'open';
+  }
+
+  /** Whether a call may go through right now */
+  allowsRequest(): boolean {
+    const state = this.state;
+    if (state === 'closed') return true;
+    if (state === 'open') return false;
+    return !this.trialInFlight;
+  }
+
+  /** Mark the start of a half-open trial call */
+  beginTrial(): void {
+    if (this.state === 'half-open') this.trialInFlight = true;
+  }
+
+  record(ok: boolean): void {
+    this.trialInFlight = false;
+    if (ok) {
+      this.consecutiveFailures = 0;
+      this.openedAt = null;
+      return;
+    }
+    this.consecutiveFailures++;
+    if (this.openedAt !== null || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.openedAt = this.now();
+    }
+  }
+}
+
+// ============================================================================
+// HEALTH TRACKER
+// ============================================================================
+
+class HealthTracker {
+  readonly window: RollingWindow;
+  readonly breaker: CircuitBreaker;
+  lastProbeAt: number | null = null;
+  lastError: string | null = null;
+
+  constructor(windowSize: number, breaker: CircuitBreakerOptions, private readonly now: () => number) {
+    this.window = new RollingWindow(windowSize);
+    this.breaker = new CircuitBreaker(breaker, now);
+  }
+
+  record(ok: boolean, latencyMs: number, error?: string): void {
+    this.window.add({ ok, latencyMs });
+    this.breaker.record(ok);
+    this.lastError = ok ? this.lastError : error ?? 'unknown error';
+  }
+
+  snapshot(degradedErrorRate: number): HealthSnapshot {
+    const circuit = this.breaker.state;
+    const errorRate = this.window.errorRate();
+    const samples = this.window.count;
+
+    let state: HealthState;
+    if (samples === 0) state = 'unknown';
+    else if (circuit === 'open') state = 'unhealthy';
+    else if (circuit === 'half-open' || errorRate >= degradedErrorRate) state = 'degraded';
+    else state = 'healthy';
+
+    return {
+      state,
+      circuit,
+      latency: this.window.percentiles(),
+      errorRate,
+      samples,
+      lastProbeAt: this.lastProbeAt === null ? null : new Date(this.lastProbeAt).toISOString(),
+      lastError: this.lastError
+    };
+  }
+}
+
+// ============================================================================
+// PROBER
+// ============================================================================
+
+export class HealthProber {
+  private platforms = new Map<string, HealthTracker>();
+  private modules = new Map<string, HealthTracker>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running: Promise<void> | null = null;
+  private lastRoundAt: number | null = null;
+  private readonly now: () => number;
+  private readonly breakerOptions: CircuitBreakerOptions;
+
+  constructor(private readonly options: HealthProberOptions) {
+    this.now = options.now ?? Date.now;
+    this.breakerOptions = {
+      ...DEFAULT_CIRCUIT_BREAKER,
+      resetTimeoutMs: Math.max(options.intervalMs * 2, 1000),
+      ...options.circuitBreaker
+    };
+  }
+
+  /** Start background probing; the first round runs immediately */
+  start(): void {
+    if (this.timer || this.options.intervalMs <= 0) return;
+    void this.probeAll();
+    this.timer = setInterval(() => void this.probeAll(), this.options.intervalMs);
+    // Do not keep a Node.js process alive just for probing
+    (this.timer as { unref?: () => void }).unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /** Probe every platform and module once; concurrent callers share a round */
+  probeAll(): Promise<void> {
+    if (!this.running) {
+      this.running = this.runRound().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  get lastProbeAt(): string | null {
+    return this.lastRoundAt === null ? null : new Date(this.lastRoundAt).toISOString();
+  }
+
+  /** Feed the outcome of a real task call into the platform's tracker */
+  recordPlatformResult(id: string, ok: boolean, latencyMs: number, error?: string): void {
+    this.tracker(this.platforms, id).record(ok, latencyMs, error);
+  }
+
+  recordModuleResult(key: string, ok: boolean, latencyMs: number, error?: string): void {
+    this.tracker(this.modules, key).record(ok, latencyMs, error);
+  }
+
+  /** False while the platform's circuit is open */
+  isAvailable(id: string): boolean {
+    return this.platforms.get(id)?.breaker.allowsRequest() ?? true;
+  }
+
+  /** Call before dispatching to a platform so half-open admits only one trial */
+  beginCall(id: string): void {
+    this.platforms.get(id)?.breaker.beginTrial();
+  }
+
+  getPlatformHealth(id: string): HealthSnapshot {
+    return this.tracker(this.platforms, id).snapshot(this.degradedErrorRate);
+  }
+
+  getModuleHealth(key: string): HealthSnapshot {
+    return this.tracker(this.modules, key).snapshot(this.degradedErrorRate);
+  }
+
+  // ========== INTERNALS ==========
+
+  private get degradedErrorRate(): number {
+    return this.options.degradedErrorRate ?? 0.2;
+  }
+
+  private tracker(map: Map<string, HealthTracker>, id: string): HealthTracker {
+    let tracker = map.get(id);
+    if (!tracker) {
+      tracker = new HealthTracker(this.options.windowSize ?? 50, this.breakerOptions, this.now);
+      map.set(id, tracker);
+    }
+    return tracker;
+  }
+
+  private async runRound(): Promise<void> {
+    const { platforms, modules } = this.options.targets();
+    await Promise.all([
+      ...platforms.map(id => this.probe(this.tracker(this.platforms, id), signal => this.options.probePlatform(id, signal))),
+      ...modules.map(key => this.probe(this.tracker(this.modules, key), signal => this.options.probeModule(key, signal)))
+    ]);
+    this.lastRoundAt = this.now();
+  }
+
+  private async probe(tracker: HealthTracker, run: (signal: AbortSignal) => Promise<void>): Promise<void> {
+    const controller = new AbortController();
+    const timeoutMs = this.options.probeTimeoutMs ?? 10_000;
+    const timer = setTimeout(() => controller.abort(new Error(`probe timed out after ${timeoutMs}ms`)), timeoutMs);
+    const started = this.now();
+
+    try {
+      await Promise.race([
+        run(controller.signal),
+        new Promise<never>((_, reject) => controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true }))
+      ]);
+      tracker.record(true, this.now() - started);
+    } catch (e: unknown) {
+      tracker.record(false, this.now() - started, e instanceof Error ? e.message : String(e));
+    } finally {
+      clearTimeout(timer);
+      tracker.lastProbeAt = this.now();
+    }
+  }
+}
@@ -0,0 +1,414 @@
+/**
+ * Intraday Indicative NAV (iNAV) Publisher
+ *
+ * Exchanges expect an indicative value for NBPT about every 15 seconds
+ * while the market is open. The publisher reprices the last end-of-day
+ * valuation (navEngine.ts) with live prices from the ORACLE_NETWORK
+ * module's `price-feeds` capability:
+ *
+ *   GET {serviceEndpoint}/price-feeds/latest
+ *   <- { module, prices: [{ holdingId, price, observedAt, source }] }
+ *
+ * It recomputes on every oracle tick ('tick' mode) or on a fixed cadence
+ * ('cadence' mode), publishes nothing outside exchange hours or on
+ * holidays, and marks a value stale when any price it used is older than
+ * `staleAfterMs` or dated further in the future than `maxClockSkewMs`.
+ * Consumers subscribe to the event stream.
+ */
+
+import type { DidAuthSigner } from './didAuth';
+import { ExchangeCalendar, MarketClosedReason, NYSE_CALENDAR, getMarketStatus } from './exchangeCalendar';
+import { NavEngine, NavInputs, NavResult } from './navEngine';
+import { array, formatIssues, object, refine, string, validate } from './schema';
+import type { ModuleConnection } from './stephanieAI';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PriceTick {
+  /** PropertyHolding id the price is for */
+  holdingId: string;
+  /** USD per token, decimal string */
+  price: string;
+  /** ISO 8601 */
+  observedAt: string;
+  source: string;
+}
+
+export interface PriceFeed {
+  /** Latest price of every holding the feed covers */
+  latest(signal?: AbortSignal): Promise<PriceTick[]>;
+  /** Push new prices as they arrive; returns an unsubscribe function */
+  subscribe?(listener: (ticks: PriceTick[]) => void, onError?: (error: unknown) => void): () => void;
+}
+
+export interface OraclePriceFeedOptions {
+  fetch?: typeof fetch;
+  timeoutMs?: number;
+  /** Poll interval behind subscribe() (default 5_000) */
+  pollIntervalMs?: number;
+  /** Signs requests as Stephanie's DID */
+  signer?: DidAuthSigner;
+}
+
+export type InavTrigger = 'tick' | 'cadence' | 'manual';
+
+export interface InavPublication {
+  /** 1-based, increasing for the life of the publisher */
+  sequence: number;
+  fund: string;
+  publishedAt: string;
+  trigger: InavTrigger;
+  /** Indicative net assets in USD */
+  inav: string;
+  inavPerShare: string;
+  /** NAV per share of the end-of-day valuation being repriced */
+  navPerShare: string;
+  /** Some price used is older than staleAfterMs, or dated in the future beyond maxClockSkewMs */
+  stale: boolean;
+  staleHoldings: string[];
+  /** Oldest price used (ISO 8601); null when no price has a timestamp */
+  oldestPriceAt: string | null;
+  result: NavResult;
+}
+
+export type InavEvent =
+  | { type: 'published'; publication: InavPublication }
+  | { type: 'market-closed'; at: string; date: string; reason: MarketClosedReason }
+  | { type: 'error'; at: string; error: string };
+
+export interface InavPublisherOptions {
+  /** End-of-day valuation whose holdings are repriced (replace with setBaseInputs) */
+  baseInputs: NavInputs;
+  feed: PriceFeed;
+  engine?: NavEngine;
+  /**
+   * tick: recompute on every feed tick (requires feed.subscribe)
+   * cadence: read the feed and recompute every cadenceMs
+   * Default: 'cadence'
+   */
+  mode?: 'tick' | 'cadence';
+  /** Default: 15_000 */
+  cadenceMs?: number;
+  /** Age at which a price makes the value stale (default 60_000) */
+  staleAfterMs?: number;
+  /** How far a price may be timestamped in the future before it counts as stale (default 5_000) */
+  maxClockSkewMs?: number;
+  /** Default: NYSE_CALENDAR */
+  calendar?: ExchangeCalendar;
+  now?: () => number;
+}
+
+const priceFeedResponseSchema = object({
+  module: string({ pattern: /^did:/ }),
+  prices: array(object({
+    holdingId: string({ minLength: 1 }),
+    price: string({ pattern: /^\d+(\.\d+)?$/ }),
+    observedAt: refine(string({ pattern: /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/ }), value =>
+      Number.isNaN(Date.parse(value)) ? 'is not an ISO 8601 date-time' : null),
+    source: string({ minLength: 1 })
+  }))
+});
+
+// ============================================================================
+// ORACLE PRICE FEED
+// ============================================================================
+
+/**
+ * Price feed served by the ORACLE_NETWORK module
+ *
+ * @throws Error when the module is not connected or does not serve `price-feeds`
+ *
+ * @example
+ * const feed = createOraclePriceFeed(stephanie.getModuleByKey('ORACLE_NETWORK')!, {
+ *   signer: stephanie.getDidAuthSigner() ?? undefined
+ * });
+ * await feed.latest(); // [{ holdingId: 'miami-condo', price: '18.25', observedAt, source: 'chainlink' }]
+ */
+export function createOraclePriceFeed(connection: ModuleConnection, options: OraclePriceFeedOptions = {}): PriceFeed {
+  if (connection.status !== 'connected' || !connection.endpoint) {
+    throw new Error(`${connection.module} is not connected`);
+  }
+  if (connection.missingCapabilities?.includes('price-feeds')) {
+    throw new Error(`${connection.module} does not serve price-feeds`);
+  }
+  const url = `${connection.endpoint.replace(/\/+$/, '')}/price-feeds/latest`;
+
+  const latest = async (signal?: AbortSignal): Promise<PriceTick[]> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), options.timeoutMs ?? 10_000);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const headers: Record<string, string> = { accept: 'application/json' };
+    if (options.signer) {
+      headers.authorization = options.signer.authorize({ method: 'GET', url, audience: connection.did });
+    }
+
+    try {
+      const response = await (options.fetch ?? fetch)(url, { headers, signal: controller.signal });
+      if (!response.ok) throw new Error(`price-feeds failed with HTTP ${response.status}`);
+
+      const result = validate(priceFeedResponseSchema, await response.json());
+      if (!result.ok) throw new Error(`malformed price-feeds response:\n${formatIssues(result.issues)}`);
+      if (result.value.module !== connection.did) {
+        throw new Error(`price-feeds answered by ${result.value.module}, expected ${connection.did}`);
+      }
+      return result.value.prices.map(({ holdingId, price, observedAt, source }) => ({ holdingId, price, observedAt, source }));
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  };
+
+  // Poll, pushing only prices newer than the last ones seen
+  const subscribe = (listener: (ticks: PriceTick[]) => void, onError?: (error: unknown) => void): (() => void) => {
+    const seen = new Map<string, string>();
+    const poll = async () => {
+      try {
+        const ticks = (await latest()).filter(tick => seen.get(tick.holdingId) !== tick.observedAt);
+        ticks.forEach(tick => seen.set(tick.holdingId, tick.observedAt));
+        if (ticks.length) listener(ticks);
+      } catch (e: unknown) {
+        onError?.(e);
+      }
+    };
+    void poll();
+    const timer = setInterval(() => void poll(), options.pollIntervalMs ?? 5_000);
+    (timer as { unref?: () => void }).unref?.();
+    return () => clearInterval(timer);
+  };
+
+  return { latest, subscribe };
+}
+
+// ============================================================================
+// PUBLISHER
+// ============================================================================
+
+export class InavPublisher {
+  private baseInputs: NavInputs;
+  private readonly engine: NavEngine;
+  private readonly now: () => number;
+  private readonly listeners = new Set<(event: InavEvent) => void>();
+  private readonly prices = new Map<string, PriceTick>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private unsubscribeFeed: (() => void) | null = null;
+  private sequence = 0;
+  private lastPublication: InavPublication | null = null;
+  private baseNavPerShare: string | null = null;
+  // `${date}:${reason}` of the last market-closed event, so it is sent once
+  private lastClosed: string | null = null;
+
+  constructor(private readonly options: InavPublisherOptions) {
+    this.baseInputs = options.baseInputs;
+    this.engine = options.engine ?? new NavEngine();
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Start publishing; in cadence mode the first value is computed immediately
+   *
+   * @throws Error in tick mode when the feed cannot push ticks
+   */
+  start(): void {
+    if (this.timer || this.unsubscribeFeed) return;
+
+    if (this.options.mode === 'tick') {
+      if (!this.options.feed.subscribe) throw new Error('tick mode needs a feed that supports subscribe()');
+      this.unsubscribeFeed = this.options.feed.subscribe(
+        ticks => {
+          this.applyTicks(ticks);
+          this.publish('tick');
+        },
+        e => this.emit({ type: 'error', at: this.isoNow(), error: e instanceof Error ? e.message : String(e) })
+      );
+      return;
+    }
+
+    const refresh = () => void this.refresh().catch(
+      e => this.emit({ type: 'error', at: this.isoNow(), error: e instanceof Error ? e.message : String(e) })
+    );
+    refresh();
+    this.timer = setInterval(refresh, this.options.cadenceMs ?? 15_000);
+    // Do not keep a Node.js process alive just for publishing
+    (this.timer as { unref?: () => void }).unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.unsubscribeFeed?.();
+    this.timer = null;
+    this.unsubscribeFeed = null;
+  }
+
+  /** Reprice a new end-of-day valuation from now on */
+  setBaseInputs(inputs: NavInputs): void {
+    this.baseInputs = inputs;
+    this.baseNavPerShare = null;
+    const held = new Set(inputs.holdings.map(holding => holding.id));
+    for (const id of Array.from(this.prices.keys())) {
+      if (!held.has(id)) this.prices.delete(id);
+    }
+  }
+
+  /**
+   * Record prices without publishing; prices older than those held, or
+   * without a parseable observedAt, are ignored
+   */
+  applyTicks(ticks: PriceTick[]): void {
+    const held = new Set(this.baseInputs.holdings.map(holding => holding.id));
+    for (const tick of ticks) {
+      if (!held.has(tick.holdingId) || Number.isNaN(Date.parse(tick.observedAt))) continue;
+      const current = this.prices.get(tick.holdingId);
+      if (current && Date.parse(current.observedAt) >= Date.parse(tick.observedAt)) continue;
+      this.prices.set(tick.holdingId, tick);
+    }
+  }
+
+  /**
+   * Read the feed and publish. A failed read is reported as an error event
+   * and the value is published from the prices already held (and goes stale).
+   */
+  async refresh(): Promise<InavPublication | null> {
+    if (!this.marketOpen()) return null;
+    try {
+      this.applyTicks(await this.options.feed.latest());
+    } catch (e: unknown) {
+      this.emit({ type: 'error', at: this.isoNow(), error: e instanceof Error ? e.message : String(e) });
+    }
+    return this.publish('cadence');
+  }
+
+  /**
+   * Compute and publish a value from the prices held
+   *
+   * @returns null while the market is closed or when the value cannot be computed
+   */
+  publish(trigger: InavTrigger = 'manual'): InavPublication | null {
+    if (!this.marketOpen()) return null;
+
+    const now = this.now();
+    const publishedAt = new Date(now).toISOString();
+    const staleAfterMs = this.options.staleAfterMs ?? 60_000;
+    const maxClockSkewMs = this.options.maxClockSkewMs ?? 5_000;
+    const holdings = this.baseInputs.holdings.map(holding => {
+      const tick = this.prices.get(holding.id);
+      return tick ? { ...holding, price: tick.price, priceSource: tick.source, pricedAt: tick.observedAt } : holding;
+    });
+
+    let result: NavResult;
+    try {
+      result = this.engine.calculate({ ...this.baseInputs, asOf: publishedAt, holdings }, 'inav');
+    } catch (e: unknown) {
+      this.emit({ type: 'error', at: publishedAt, error: e instanceof Error ? e.message : String(e) });
+      return null;
+    }
+
+    const pricedAt = holdings.map(holding => (holding.pricedAt ? Date.parse(holding.pricedAt) : NaN));
+    const staleHoldings = holdings
+      .filter((_, i) => Number.isNaN(pricedAt[i]) || now - pricedAt[i] > staleAfterMs || pricedAt[i] - now > maxClockSkewMs)
+      .map(holding => holding.id);
+    const timestamps = pricedAt.filter(time => !Number.isNaN(time));
+
+    const publication: InavPublication = {
+      sequence: ++this.sequence,
+      fund: result.fund,
+      publishedAt,
+      trigger,
+      inav: result.nav,
+      inavPerShare: result.navPerShare,
+      navPerShare: this.baseNavPerShare ??= this.engine.calculate(this.baseInputs).navPerShare,
+      stale: staleHoldings.length > 0,
+      staleHoldings,
+      oldestPriceAt: timestamps.length ? new Date(Math.min(...timestamps)).toISOString() : null,
+      result
+    };
+    this.lastPublication = publication;
+    this.emit({ type: 'published', publication });
+    return publication;
+  }
+
+  get latest(): InavPublication | null {
+    return this.lastPublication;
+  }
+
+  /** Listen to publications, market closures and errors; returns an unsubscribe function */
+  subscribe(listener: (event: InavEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Events as an async stream, e.g. to forward over server-sent events
+   *
+   * @example
+   * for await (const event of publisher.stream(request.signal)) {
+   *   if (event.type === 'published') send(event.publication.inavPerShare);
+   * }
+   */
+  async *stream(signal?: AbortSignal): AsyncGenerator<InavEvent, void> {
+    const buffer: InavEvent[] = [];
+    let wake: (() => void) | null = null;
+    const unsubscribe = this.subscribe(event => {
+      buffer.push(event);
+      wake?.();
+    });
+    const onAbort = () => wake?.();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      while (!signal?.aborted) {
+        if (buffer.length) {
+          yield buffer.shift()!;
+          continue;
+        }
+        await new Promise<void>(resolve => {
+          wake = resolve;
+        });
+        wake = null;
+      }
+    } finally {
+      unsubscribe();
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  // ========== INTERNALS ==========
+
+  private marketOpen(): boolean {
+    const status = getMarketStatus(this.options.calendar ?? NYSE_CALENDAR, new Date(this.now()));
+    if (status.open) {
+      this.lastClosed = null;
+      return true;
+    }
+    const key = `${status.date}:${status.reason}`;
+    if (this.lastClosed !== key) {
+      this.lastClosed = key;
+      this.emit({ type: 'market-closed', at: this.isoNow(), date: status.date, reason: status.reason });
+    }
+    return false;
+  }
+
+  // A throwing subscriber must not stop publishing or the other subscribers
+  private emit(event: InavEvent): void {
+    for (const listener of Array.from(this.listeners)) {
+      try {
+        listener(event);
+      } catch (e: unknown) {
+        console.warn(`[iNAV] Subscriber failed on ${event.type} event: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+  }
+
+  private isoNow(): string {
+    return new Date(this.now()).toISOString();
+  }
+}
+
+export function createInavPublisher(options: InavPublisherOptions): InavPublisher {
+  return new InavPublisher(options);
+}
@@ -0,0 +1,199 @@
+/**
+ * Platform Load Balancing
+ *
+ * Strategies for choosing one platform out of a candidate pool, selected by
+ * `orchestration.loadBalancing.strategy` in mcp.config.json. Every balancer
+ * keeps per-platform selection stats for StephanieAI.getStatus().
+ */
+
+import type { MCPConnection } from './stephanieAI';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const LOAD_BALANCING_STRATEGIES = [
+  'round-robin-with-priority',
+  'weighted-random',
+  'least-outstanding-requests'
+] as const;
+
+export type LoadBalancingStrategy = typeof LOAD_BALANCING_STRATEGIES[number];
+
+export interface PlatformSelectionStats {
+  selected: number;
+  inFlight: number;
+  succeeded: number;
+  failed: number;
+  lastSelectedAt?: string;
+}
+
+export interface LoadBalancer {
+  readonly strategy: LoadBalancingStrategy;
+  /** Pick one platform from the pool, or null when the pool is empty */
+  select(candidates: MCPConnection[]): MCPConnection | null;
+  /** A call to the platform has started */
+  onStart(platformId: string): void;
+  /** A call to the platform has finished */
+  onFinish(platformId: string, succeeded: boolean): void;
+  getStats(): Record<string, PlatformSelectionStats>;
+}
+
+/** Priority assumed for platforms without one in the config */
+const DEFAULT_PRIORITY = 100;
+
+function priorityOf(platform: MCPConnection): number {
+  return platform.priority ?? DEFAULT_PRIORITY;
+}
+
+// ============================================================================
+// BASE
+// ============================================================================
+
+abstract class BaseLoadBalancer implements LoadBalancer {
+  abstract readonly strategy: LoadBalancingStrategy;
+  protected stats = new Map<string, PlatformSelectionStats>();
+
+  protected abstract pick(candidates: MCPConnection[]): MCPConnection;
+
+  select(candidates: MCPConnection[]): MCPConnection | null {
+    if (candidates.length === 0) return null;
+
+    const chosen = candidates.length === 1 ? candidates[0] : this.pick(candidates);
+    const stats = this.statsFor(chosen.id);
+    stats.selected++;
+    stats.lastSelectedAt = new Date().toISOString();
+    return chosen;
+  }
+
+  onStart(platformId: string): void {
+    this.statsFor(platformId).inFlight++;
+  }
+
+  onFinish(platformId: string, succeeded: boolean): void {
+    const stats = this.statsFor(platformId);
+    stats.inFlight = Math.max(0, stats.inFlight - 1);
+    if (succeeded) stats.succeeded++;
+    else stats.failed++;
+  }
+
+  getStats(): Record<string, PlatformSelectionStats> {
+    const result: Record<string, PlatformSelectionStats> = {};
+    for (const [id, stats] of this.stats) result[id] = { ...stats };
+    return result;
+  }
+
+  protected statsFor(platformId: string): PlatformSelectionStats {
+    let stats = this.stats.get(platformId);
+    if (!stats) {
+      stats = { selected: 0, inFlight: 0, succeeded: 0, failed: 0 };
+      this.stats.set(platformId, stats);
+    }
+    return stats;
+  }
+}
+
+// ============================================================================
+// STRATEGIES
+// ============================================================================
+
+/**
+ * Smooth weighted round-robin where the weight comes from priority:
+ * within a pool, priority 1 gets the most turns and the lowest priority
+ * still gets one turn per cycle.
+ *
+ * @example
+ * // compliance-review pool: claude (priority 1) and mistral (priority 7)
+ * // weights 7 and 1 -> claude serves 7 of every 8 requests
+ */
+export class RoundRobinWithPriorityBalancer extends BaseLoadBalancer {
+  readonly strategy = 'round-robin-with-priority' as const;
+  private currentWeights = new Map<string, number>();
+
+  protected pick(candidates: MCPConnection[]): MCPConnection {
+    const worstPriority = Math.max(...candidates.map(priorityOf));
+    let total = 0;
+    let best: MCPConnection = candidates[0];
+    let bestWeight = -Infinity;
+
+    for (const candidate of candidates) {
+      const weight = worstPriority - priorityOf(candidate) + 1;
+      const current = (this.currentWeights.get(candidate.id) ?? 0) + weight;
+      this.currentWeights.set(candidate.id, current);
+      total += weight;
+
+      if (current > bestWeight) {
+        best = candidate;
+        bestWeight = current;
+      }
+    }
+
+    this.currentWeights.set(best.id, bestWeight - total);
+    return best;
+  }
+}
+
+/**
+ * Random choice weighted by 1 / priority
+ */
+export class WeightedRandomBalancer extends BaseLoadBalancer {
+  readonly strategy = 'weighted-random' as const;
+
+  constructor(private readonly random: () => number = Math.random) {
+    super();
+  }
+
+  protected pick(candidates: MCPConnection[]): MCPConnection {
+    const weights = candidates.map(c => 1 / priorityOf(c));
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    let roll = this.random() * total;
+
+    for (let i = 0; i < candidates.length; i++) {
+      roll -= weights[i];
+      if (roll < 0) return candidates[i];
+    }
+    return candidates[candidates.length - 1];
+  }
+}
+
+/**
+ * Fewest in-flight calls wins; ties go to the better priority, then to the
+ * platform selected least often
+ */
+export class LeastOutstandingRequestsBalancer extends BaseLoadBalancer {
+  readonly strategy = 'least-outstanding-requests' as const;
+
+  protected pick(candidates: MCPConnection[]): MCPConnection {
+    return [...candidates].sort((a, b) => {
+      const sa = this.statsFor(a.id);
+      const sb = this.statsFor(b.id);
+      return sa.inFlight - sb.inFlight ||
+        priorityOf(a) - priorityOf(b) ||
+        sa.selected - sb.selected;
+    })[0];
+  }
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+export function isLoadBalancingStrategy(value: string): value is LoadBalancingStrategy {
+  return (LOAD_BALANCING_STRATEGIES as readonly string[]).includes(value);
+}
+
+/**
+ * Create the balancer named by `orchestration.loadBalancing.strategy`
+ */
+export function createLoadBalancer(strategy: string, options: { random?: () => number } = {}): LoadBalancer {
+  switch (strategy) {
+    case 'round-robin-with-priority':
+      return new RoundRobinWithPriorityBalancer();
+    case 'weighted-random':
+      return new WeightedRandomBalancer(options.random);
+    case 'least-outstanding-requests':
+      return new LeastOutstandingRequestsBalancer();
+    default:
+      throw new Error(`Unknown load-balancing strategy: ${strategy}`);
+  }
+}
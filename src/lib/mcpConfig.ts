@@ -0,0 +1,440 @@
+/**
+ * MCP Configuration Loader
+ *
+ * Loads and validates `mcp.config.json`, expands `${ENV}` placeholders and
+ * turns the file into the platform, module and routing maps that
+ * Stephanie.ai uses at runtime. Operations can change routing, fallback
+ * and load-balancing settings by editing the file instead of the code.
+ *
+ * @see ../../mcp.config.json
+ */
+
+import bundledMcpConfig from '../../mcp.config.json';
+import type { MCPConnection, ModuleConnection } from './stephanieAI';
+import { LOAD_BALANCING_STRATEGIES, LoadBalancingStrategy } from './loadBalancer';
+import {
+  SchemaIssue,
+  Validator,
+  array,
+  boolean,
+  formatIssues,
+  joinPath,
+  number,
+  object,
+  oneOf,
+  optional,
+  record,
+  string,
+  validate
+} from './schema';
+
+// ============================================================================
+// CONFIG TYPES
+// ============================================================================
+
+export interface McpServerConfig {
+  provider: string;
+  command: string;
+  args: string[];
+  env: Record<string, string>;
+  capabilities: Record<string, boolean>;
+  roles: string[];
+  priority: number;
+  endpoint?: string;
+  protocol?: MCPConnection['protocol'];
+  status?: MCPConnection['status'];
+  rateLimits?: {
+    requestsPerMinute: number;
+    tokensPerRequest: number;
+  };
+}
+
+export interface NoblePortModuleConfig {
+  ens: string;
+  did: string;
+  capabilities: string[];
+  aiIntegrations: string[];
+}
+
+export interface LoadBalancingConfig {
+  strategy: LoadBalancingStrategy;
+  healthCheckInterval: number;
+  retryAttempts: number;
+  retryDelay: number;
+}
+
+export interface OrchestrationConfig {
+  defaultPlatform: string;
+  fallbackChain: string[];
+  taskRouting: Record<string, string[]>;
+  loadBalancing: LoadBalancingConfig;
+}
+
+export interface SecurityConfig {
+  authentication: {
+    primary: string;
+    fallback?: string;
+    didMethods: string[];
+  };
+  encryption?: Record<string, string>;
+  rateLimit?: {
+    global: {
+      requestsPerMinute: number;
+      tokensPerMinute: number;
+    };
+  };
+}
+
+export interface McpConfig {
+  version: string;
+  name: string;
+  description?: string;
+  identity: {
+    ens: string;
+    did: string;
+    domain: string[];
+    rootIdentity: string;
+  };
+  mcpServers: Record<string, McpServerConfig>;
+  nobleportModules: Record<string, NoblePortModuleConfig>;
+  orchestration: OrchestrationConfig;
+  security?: SecurityConfig;
+  logging?: {
+    level: string;
+    destinations: string[];
+    retention?: string;
+  };
+  /** `${ENV}` placeholders that had no value when the file was loaded */
+  unresolvedEnv: string[];
+}
+
+export interface LoadMcpConfigOptions {
+  env?: Record<string, string | undefined>;
+}
+
+/**
+ * Thrown when the configuration does not match the expected schema.
+ * Each issue carries the JSON path of the offending value.
+ */
+export class McpConfigError extends Error {
+  readonly issues: SchemaIssue[];
+
+  constructor(issues: SchemaIssue[]) {
+    super(`Invalid MCP configuration:\n${formatIssues(issues)}`);
+    this.name = 'McpConfigError';
+    this.issues = issues;
+  }
+}
+
+// ============================================================================
+// SCHEMA
+// ============================================================================
+
+const stringList = array(string({ minLength: 1 }));
+
+const serverSchema: Validator<McpServerConfig> = object({
+  provider: string({ minLength: 1 }),
+  command: string({ minLength: 1 }),
+  args: array(string()),
+  env: record(string()),
+  capabilities: record(boolean()),
+  roles: stringList,
+  priority: number({ integer: true, min: 1 }),
+  endpoint: optional(string({ minLength: 1 })),
+  protocol: optional(oneOf(['mcp', 'rest', 'graphql', 'websocket'] as const)),
+  status: optional(oneOf(['active', 'pending', 'disabled'] as const)),
+  rateLimits: optional(object({
+    requestsPerMinute: number({ integer: true, min: 1 }),
+    tokensPerRequest: number({ integer: true, min: 1 })
+  }))
+});
+
+const moduleSchema: Validator<NoblePortModuleConfig> = object({
+  ens: string({ pattern: /\.eth$/ }),
+  did: string({ pattern: /^did:[a-z0-9]+:.+/ }),
+  capabilities: stringList,
+  aiIntegrations: stringList
+});
+
+const configSchema = object({
+  version: string(),
+  name: string(),
+  description: optional(string()),
+  identity: object({
+    ens: string({ pattern: /\.eth$/ }),
+    did: string({ pattern: /^did:[a-z0-9]+:.+/ }),
+    domain: stringList,
+    rootIdentity: string()
+  }),
+  mcpServers: record(serverSchema),
+  nobleportModules: record(moduleSchema),
+  orchestration: object({
+    defaultPlatform: string({ minLength: 1 }),
+    fallbackChain: stringList,
+    taskRouting: record(array(string({ minLength: 1 }), { minLength: 1 })),
+    loadBalancing: object({
+      strategy: oneOf(LOAD_BALANCING_STRATEGIES),
+      healthCheckInterval: number({ integer: true, min: 0 }),
+      retryAttempts: number({ integer: true, min: 0 }),
+      retryDelay: number({ integer: true, min: 0 })
+    })
+  }),
+  security: optional(object({
+    authentication: object({
+      primary: string(),
+      fallback: optional(string()),
+      didMethods: stringList
+    }),
+    encryption: optional(record(string())),
+    rateLimit: optional(object({
+      global: object({
+        requestsPerMinute: number({ integer: true, min: 1 }),
+        tokensPerMinute: number({ integer: true, min: 1 })
+      })
+    }))
+  })),
+  logging: optional(object({
+    level: string(),
+    destinations: stringList,
+    retention: optional(string())
+  }))
+});
+
+/**
+ * Every platform reference in orchestration and module sections must name
+ * a server declared under `mcpServers`
+ */
+function checkServerReferences(config: Omit<McpConfig, 'unresolvedEnv'>): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  const servers = new Set(Object.keys(config.mcpServers));
+  const check = (name: string, path: string) => {
+    if (!servers.has(name)) {
+      issues.push({ path, message: `unknown MCP server "${name}"` });
+    }
+  };
+
+  check(config.orchestration.defaultPlatform, '$.orchestration.defaultPlatform');
+  config.orchestration.fallbackChain.forEach((name, i) =>
+    check(name, joinPath('$.orchestration.fallbackChain', i)));
+
+  for (const [route, names] of Object.entries(config.orchestration.taskRouting)) {
+    const routePath = joinPath('$.orchestration.taskRouting', route);
+    names.forEach((name, i) => check(name, joinPath(routePath, i)));
+  }
+
+  for (const [key, module] of Object.entries(config.nobleportModules)) {
+    const modulePath = joinPath(joinPath('$.nobleportModules', key), 'aiIntegrations');
+    module.aiIntegrations.forEach((name, i) => check(name, joinPath(modulePath, i)));
+  }
+
+  return issues;
+}
+
+// ============================================================================
+// ENV EXPANSION
+// ============================================================================
+
+const ENV_PLACEHOLDER = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+/**
+ * Recursively replace `${NAME}` and `${NAME:-default}` placeholders in every
+ * string of a JSON value. Names without a value expand to an empty string
+ * (or the default) and are collected in `unresolved`.
+ */
+export function expandEnvPlaceholders<T>(
+  value: T,
+  env: Record<string, string | undefined>,
+  unresolved: Set<string> = new Set()
+): T {
+  if (typeof value === 'string') {
+    return value.replace(ENV_PLACEHOLDER, (_match, name: string, fallback?: string) => {
+      const resolved = env[name];
+      if (resolved !== undefined && resolved !== '') return resolved;
+      if (fallback === undefined) unresolved.add(name);
+      return fallback ?? '';
+    }) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => expandEnvPlaceholders(item, env, unresolved)) as T;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = expandEnvPlaceholders(item, env, unresolved);
+    }
+    return result as T;
+  }
+  return value;
+}
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+/**
+ * Validate a parsed configuration object
+ *
+ * @param raw - The parsed JSON (defaults to the bundled mcp.config.json)
+ * @param options - Environment used for `${ENV}` expansion (defaults to process.env)
+ * @returns The validated configuration
+ * @throws McpConfigError listing every schema issue with its JSON path
+ *
+ * @example
+ * const config = loadMcpConfig();
+ * config.orchestration.fallbackChain; // ['claude', 'chatgpt', 'gemini', 'mistral']
+ */
+export function loadMcpConfig(raw: unknown = bundledMcpConfig, options: LoadMcpConfigOptions = {}): McpConfig {
+  const unresolved = new Set<string>();
+  const expanded = expandEnvPlaceholders(raw, options.env ?? process.env, unresolved);
+
+  const result = validate(configSchema, expanded);
+  if (!result.ok) {
+    throw new McpConfigError(result.issues);
+  }
+
+  const config = result.value as Omit<McpConfig, 'unresolvedEnv'>;
+  const referenceIssues = checkServerReferences(config);
+  if (referenceIssues.length > 0) {
+    throw new McpConfigError(referenceIssues);
+  }
+
+  return { ...config, unresolvedEnv: Array.from(unresolved).sort() };
+}
+
+/**
+ * Read and validate a configuration file from disk (server-side only)
+ *
+ * @param path - Path to a JSON file with the mcp.config.json layout
+ */
+export async function loadMcpConfigFile(path: string, options: LoadMcpConfigOptions = {}): Promise<McpConfig> {
+  const { readFile } = await import(/* webpackIgnore: true */ 'node:fs/promises');
+  const text = await readFile(path, 'utf8');
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : String(e);
+    throw new McpConfigError([{ path: '$', message: `invalid JSON in ${path}: ${message}` }]);
+  }
+
+  return loadMcpConfig(raw, options);
+}
+
+// ============================================================================
+// ORCHESTRATION SETTINGS
+// ============================================================================
+
+export interface OrchestrationSettings {
+  /** Platform connections keyed by platform id (e.g. `claude-mcp`) */
+  platforms: Map<string, MCPConnection>;
+  /** Module connections keyed by module key (e.g. `PORTFOLIO_MANAGER`) */
+  modules: Map<string, ModuleConnection>;
+  /** MCP server key (e.g. `claude`) to platform id */
+  serverAliases: Record<string, string>;
+  defaultPlatform: string;
+  fallbackChain: string[];
+  /** Route name (e.g. `compliance-review`) to ordered platform ids */
+  taskRouting: Record<string, string[]>;
+  loadBalancing: LoadBalancingConfig;
+  globalRateLimit?: NonNullable<SecurityConfig['rateLimit']>['global'];
+  /** DID methods accepted for DID-Auth (security.authentication.didMethods) */
+  didAuthMethods?: string[];
+}
+
+/**
+ * Convert a camelCase module key from the config (`nbptGovernance`) to the
+ * NOBLEPORT_MODULES key (`NBPT_GOVERNANCE`)
+ */
+export function toModuleKey(configKey: string): string {
+  return configKey.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase();
+}
+
+function toPlatformConnection(
+  key: string,
+  server: McpServerConfig,
+  base: MCPConnection | undefined
+): MCPConnection {
+  const envVar = Object.keys(server.env)[0] ?? base?.authentication.config.envVar;
+  const authConfig = { ...(base?.authentication.config ?? { headerName: 'Authorization', prefix: 'Bearer' }) };
+  if (envVar) authConfig.envVar = envVar;
+
+  return {
+    id: base?.id ?? `${key}-mcp`,
+    name: base?.name ?? server.provider,
+    provider: server.provider,
+    endpoint: server.endpoint ?? base?.endpoint ?? `mcp://${key}`,
+    protocol: server.protocol ?? base?.protocol ?? 'mcp',
+    capabilities: [...server.roles],
+    authentication: {
+      type: base?.authentication.type ?? 'api_key',
+      config: authConfig
+    },
+    status: server.status ?? base?.status ?? 'active',
+    rateLimits: server.rateLimits ?? base?.rateLimits,
+    priority: server.priority,
+    server: {
+      key,
+      command: server.command,
+      args: [...server.args],
+      env: { ...server.env }
+    }
+  };
+}
+
+/**
+ * Build the platform, module and routing maps used by StephanieAI.initialize()
+ *
+ * Servers are matched to the built-in platform definitions by provider name,
+ * which supply endpoint, protocol and authentication defaults. Roles,
+ * priority and command come from the config.
+ *
+ * @param config - A validated configuration
+ * @param basePlatforms - Built-in platform definitions (AI_PLATFORM_CONNECTIONS)
+ */
+export function buildOrchestrationSettings(
+  config: McpConfig,
+  basePlatforms: MCPConnection[]
+): OrchestrationSettings {
+  const platforms = new Map<string, MCPConnection>();
+  const serverAliases: Record<string, string> = {};
+
+  for (const [key, server] of Object.entries(config.mcpServers)) {
+    const base = basePlatforms.find(p => p.provider.toLowerCase() === server.provider.toLowerCase());
+    const connection = toPlatformConnection(key, server, base);
+    platforms.set(connection.id, connection);
+    serverAliases[key] = connection.id;
+  }
+
+  const toIds = (names: string[]) => names.map(name => serverAliases[name]);
+
+  const modules = new Map<string, ModuleConnection>();
+  for (const [configKey, module] of Object.entries(config.nobleportModules)) {
+    const key = toModuleKey(configKey);
+    modules.set(key, {
+      module: key,
+      ens: module.ens,
+      did: module.did,
+      status: 'pending',
+      capabilities: [...module.capabilities],
+      aiIntegrations: toIds(module.aiIntegrations)
+    });
+  }
+
+  const taskRouting: Record<string, string[]> = {};
+  for (const [route, names] of Object.entries(config.orchestration.taskRouting)) {
+    taskRouting[route] = toIds(names);
+  }
+
+  return {
+    platforms,
+    modules,
+    serverAliases,
+    defaultPlatform: serverAliases[config.orchestration.defaultPlatform],
+    fallbackChain: toIds(config.orchestration.fallbackChain),
+    taskRouting,
+    loadBalancing: { ...config.orchestration.loadBalancing },
+    globalRateLimit: config.security?.rateLimit?.global,
+    didAuthMethods: config.security?.authentication.didMethods
+  };
+}
@@ -0,0 +1,109 @@
+/**
+ * Module sync against mock modules on 127.0.0.1: handshakes, cursors,
+ * outages and DID-Auth signed handshakes.
+ */
+
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import {
+  MockModuleServer,
+  createFixtureResolver,
+  createSignerDidDocument,
+  startMockModuleServer
+} from './mockModuleServer';
+import { FakePlatformAdapter } from './platformAdapters';
+import { NOBLEPORT_MODULES, StephanieAI, createStephanieAI } from './stephanieAI';
+import { createDidAuthSigner } from './didAuth';
+import { MODULE_SYNC_PROTOCOL } from './moduleSync';
+
+const PORTFOLIO_DID = `did:ens:${NOBLEPORT_MODULES.MODULES.PORTFOLIO_MANAGER}`;
+const PORTFOLIO_CAPABILITIES = ['asset-valuation', 'rebalancing', 'risk-assessment', 'performance-tracking'];
+
+describe('mock module server', () => {
+  let server: MockModuleServer | null = null;
+  let stephanie: StephanieAI | null = null;
+
+  afterEach(async () => {
+    await stephanie?.shutdown();
+    await server?.close();
+    stephanie = null;
+    server = null;
+  });
+
+  function connect(mock: MockModuleServer, options: { didAuthKey?: string; extraDocuments?: Parameters<typeof createFixtureResolver>[0] } = {}) {
+    return createStephanieAI({
+      adapters: [new FakePlatformAdapter()],
+      resolver: createFixtureResolver({ [mock.did]: mock.didDocument, ...options.extraDocuments }),
+      healthProbing: false,
+      didAuthKey: options.didAuthKey
+    });
+  }
+
+  it('connects a module whose DID document points at the server', async () => {
+    server = await startMockModuleServer({ did: PORTFOLIO_DID, version: '2.1.0', capabilities: PORTFOLIO_CAPABILITIES });
+    stephanie = connect(server);
+    await stephanie.initialize();
+
+    const module = stephanie.getModuleByKey('PORTFOLIO_MANAGER')!;
+    assert.equal(module.status, 'connected');
+    assert.equal(module.endpoint, server.url);
+    assert.equal(module.version, '2.1.0');
+    assert.deepEqual(module.missingCapabilities, []);
+
+    assert.equal(server.handshakes.length, 1);
+    assert.equal(server.handshakes[0].protocol, MODULE_SYNC_PROTOCOL);
+    assert.equal(server.handshakes[0].client.did, NOBLEPORT_MODULES.STEPHANIE_DID);
+    assert.deepEqual(server.handshakes[0].capabilities, PORTFOLIO_CAPABILITIES);
+
+    // Modules without a fixture document stay pending
+    assert.equal(stephanie.getModuleByKey('ORACLE_NETWORK')!.status, 'pending');
+  });
+
+  it('sends the last cursor and reports capabilities the module lacks', async () => {
+    server = await startMockModuleServer({ did: PORTFOLIO_DID, capabilities: ['asset-valuation'] });
+    stephanie = connect(server);
+    await stephanie.initialize();
+    assert.deepEqual(stephanie.getModuleByKey('PORTFOLIO_MANAGER')!.missingCapabilities,
+      ['rebalancing', 'risk-assessment', 'performance-tracking']);
+
+    server.publishEvent();
+    server.publishEvent();
+    assert.equal(await stephanie.syncModule('PORTFOLIO_MANAGER'), true);
+
+    assert.equal(server.handshakes[1].cursor, '0');
+    assert.equal(stephanie.getModuleByKey('PORTFOLIO_MANAGER')!.cursor, '2');
+  });
+
+  it('marks the module disconnected while the server is down', async () => {
+    server = await startMockModuleServer({ did: PORTFOLIO_DID });
+    stephanie = connect(server);
+    await stephanie.initialize();
+
+    server.setDown(true);
+    assert.equal(await stephanie.syncModule('PORTFOLIO_MANAGER'), false);
+    assert.equal(stephanie.getModuleByKey('PORTFOLIO_MANAGER')!.status, 'disconnected');
+
+    server.setDown(false);
+    assert.equal(await stephanie.syncModule('PORTFOLIO_MANAGER'), true);
+  });
+
+  it('accepts DID-Auth signed handshakes and rejects unsigned ones', async () => {
+    const privateKey = ethers.Wallet.createRandom().privateKey;
+    const signer = createDidAuthSigner({ did: NOBLEPORT_MODULES.STEPHANIE_DID, privateKey });
+    const stephanieDocument = { [signer.did]: createSignerDidDocument(signer) };
+
+    server = await startMockModuleServer({ did: PORTFOLIO_DID, resolver: createFixtureResolver(stephanieDocument) });
+
+    stephanie = connect(server);
+    await stephanie.initialize();
+    assert.equal(stephanie.getModuleByKey('PORTFOLIO_MANAGER')!.status, 'disconnected');
+    assert.equal(server.handshakes.length, 0);
+    await stephanie.shutdown();
+
+    stephanie = connect(server, { didAuthKey: privateKey, extraDocuments: stephanieDocument });
+    await stephanie.initialize();
+    assert.equal(stephanie.getModuleByKey('PORTFOLIO_MANAGER')!.status, 'connected');
+    assert.deepEqual(server.authentications.map(auth => auth.did), [NOBLEPORT_MODULES.STEPHANIE_DID]);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Mock NoblePort Module Server
+ *
+ * Local HTTP server that speaks the module sync protocol, plus a matching
+ * DID document, so module sync can be exercised without deployed modules.
+ * Node.js only; not imported by the runtime code.
+ *
+ * @example
+ * const server = await startMockModuleServer({ did: 'did:ens:portfolio.nobleport.eth' });
+ * const stephanie = createStephanieAI({
+ *   resolver: createFixtureResolver({ [server.did]: server.didDocument })
+ * });
+ * await server.close();
+ *
+ * Pass `resolver` to require DID-Auth signed handshakes; unsigned or
+ * invalid requests are answered with HTTP 401.
+ */
+
+import type { Server } from 'node:http';
+import type { DIDDocument, DIDResolutionResult, Resolvable } from 'did-resolver';
+import { MODULE_SERVICE_TYPE, MODULE_SYNC_PROTOCOL, HandshakeRequest } from './moduleSync';
+import { DidAuthError, DidAuthResult, DidAuthSigner, DidAuthVerifier, parseAuthorization } from './didAuth';
+
+export interface MockModuleServerOptions {
+  did: string;
+  version?: string;
+  capabilities?: string[];
+  port?: number;
+  /** Resolver for verifying DID-Auth signatures; handshakes must be signed when set */
+  resolver?: Resolvable;
+}
+
+export interface MockModuleServer {
+  did: string;
+  url: string;
+  /** DID document whose NoblePortModule service points at this server */
+  didDocument: DIDDocument;
+  /** Handshake requests received so far */
+  handshakes: HandshakeRequest[];
+  /** Verified DID-Auth signatures, one per accepted handshake */
+  authentications: DidAuthResult[];
+  /** Publish an event, advancing the module's cursor */
+  publishEvent(): string;
+  /** Answer every request with HTTP 503 while down */
+  setDown(down: boolean): void;
+  close(): Promise<void>;
+}
+
+export function createModuleDidDocument(did: string, endpoint: string): DIDDocument {
+  return {
+    '@context': ['https://www.w3.org/ns/did/v1'],
+    id: did,
+    service: [{ id: `${did}#module`, type: MODULE_SERVICE_TYPE, serviceEndpoint: endpoint }]
+  };
+}
+
+/**
+ * DID document publishing a signer's key for authentication (e.g. a
+ * fixture for did:ens:stephanie.nobleport.eth)
+ */
+export function createSignerDidDocument(signer: DidAuthSigner): DIDDocument {
+  return {
+    '@context': ['https://www.w3.org/ns/did/v1'],
+    id: signer.did,
+    verificationMethod: [signer.verificationMethod()],
+    authentication: [signer.keyId]
+  };
+}
+
+/**
+ * Start a mock module on 127.0.0.1 (random port unless given)
+ */
+export async function startMockModuleServer(options: MockModuleServerOptions): Promise<MockModuleServer> {
+  const { createServer } = await import('node:http');
+  const handshakes: HandshakeRequest[] = [];
+  const authentications: DidAuthResult[] = [];
+  const resolver = options.resolver;
+  const verifier = resolver
+    ? new DidAuthVerifier({ resolve: did => resolver.resolve(did), audience: options.did })
+    : null;
+  let eventCount = 0;
+  let down = false;
+  let url = '';
+
+  const server: Server = createServer((req, res) => {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { 'content-type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (down) return send(503, { error: 'unavailable' });
+
+    if (req.method === 'POST' && req.url === '/sync/handshake') {
+      let body = '';
+      req.setEncoding('utf8');
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', async () => {
+        if (verifier) {
+          try {
+            const token = parseAuthorization(req.headers.authorization);
+            authentications.push(await verifier.verify(token, { method: 'POST', url: `${url}${req.url}`, body }));
+          } catch (e: unknown) {
+            return send(401, { error: e instanceof DidAuthError ? `${e.code}: ${e.message}` : String(e) });
+          }
+        }
+        try {
+          handshakes.push(JSON.parse(body));
+        } catch {
+          return send(400, { error: 'invalid JSON' });
+        }
+        send(200, {
+          protocol: MODULE_SYNC_PROTOCOL,
+          module: options.did,
+          version: options.version ?? '1.0.0',
+          capabilities: options.capabilities ?? [],
+          cursor: String(eventCount)
+        });
+      });
+      return;
+    }
+
+    send(404, { error: 'not found' });
+  });
+
+  await new Promise<void>(resolve => server.listen(options.port ?? 0, '127.0.0.1', resolve));
+  const address = server.address();
+  const port = typeof address === 'object' && address ? address.port : options.port;
+  url = `http://127.0.0.1:${port}`;
+
+  return {
+    did: options.did,
+    url,
+    didDocument: createModuleDidDocument(options.did, url),
+    handshakes,
+    authentications,
+    publishEvent: () => String(++eventCount),
+    setDown: value => { down = value; },
+    close: () => new Promise((resolve, reject) => server.close(err => (err ? reject(err) : resolve())))
+  };
+}
+
+/**
+ * Resolver that serves fixed DID documents (unknown DIDs report notFound)
+ */
+export function createFixtureResolver(documents: Record<string, DIDDocument>): Resolvable {
+  return {
+    resolve: async (did: string): Promise<DIDResolutionResult> => {
+      const didDocument = documents[did] ?? null;
+      return {
+        didResolutionMetadata: didDocument ? { contentType: 'application/did+ld+json' } : { error: 'notFound' },
+        didDocument,
+        didDocumentMetadata: {}
+      };
+    }
+  };
+}
@@ -0,0 +1,217 @@
+/**
+ * NoblePort Module Sync Protocol
+ *
+ * Each NoblePort module publishes a `NoblePortModule` service in its DID
+ * document (e.g. did:ens:portfolio.nobleport.eth). Stephanie.ai reads the
+ * service endpoint and performs a handshake that exchanges protocol
+ * version, capabilities and the last-event cursor:
+ *
+ *   POST {serviceEndpoint}/sync/handshake
+ *   -> { protocol, client: { did, version }, capabilities, cursor }
+ *   <- { protocol, module, version, capabilities, cursor }
+ *
+ * When a DID-Auth signer is configured the handshake carries an
+ * `Authorization: DIDAuth <jws>` header addressed to the module DID.
+ */
+
+import type { DIDDocument, Service } from 'did-resolver';
+import type { DidAuthSigner } from './didAuth';
+import { array, formatIssues, object, string, validate } from './schema';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const MODULE_SYNC_PROTOCOL = 'nobleport-module-sync/1';
+
+/** DID document service type that carries a module's sync endpoint */
+export const MODULE_SERVICE_TYPE = 'NoblePortModule';
+
+export interface HandshakeRequest {
+  protocol: string;
+  client: {
+    did: string;
+    version: string;
+  };
+  /** Capabilities the client expects the module to serve */
+  capabilities: string[];
+  /** Last event cursor the client has processed, if any */
+  cursor?: string;
+}
+
+export interface HandshakeResponse {
+  protocol: string;
+  /** The module's DID */
+  module: string;
+  version: string;
+  capabilities: string[];
+  /** Cursor of the newest event the module has published */
+  cursor: string;
+}
+
+export interface ModuleSyncResult {
+  /**
+   * connected: handshake succeeded
+   * pending: the module has no resolvable DID document or sync endpoint yet
+   * disconnected: the endpoint exists but the handshake failed
+   */
+  status: 'connected' | 'disconnected' | 'pending';
+  endpoint?: string;
+  handshake?: HandshakeResponse;
+  /** Expected capabilities the module did not advertise */
+  missingCapabilities: string[];
+  error?: string;
+}
+
+export interface ModuleSyncOptions {
+  clientDid: string;
+  clientVersion?: string;
+  fetch?: typeof fetch;
+  timeoutMs?: number;
+  /** Signs handshakes as the client DID */
+  signer?: DidAuthSigner;
+}
+
+const handshakeResponseSchema = object({
+  protocol: string({ minLength: 1 }),
+  module: string({ pattern: /^did:/ }),
+  version: string({ minLength: 1 }),
+  capabilities: array(string()),
+  cursor: string()
+});
+
+// ============================================================================
+// ENDPOINT DISCOVERY
+// ============================================================================
+
+function endpointUrl(endpoint: Service['serviceEndpoint']): string | null {
+  const first = Array.isArray(endpoint) ? endpoint[0] : endpoint;
+  if (typeof first === 'string') return first;
+  if (first && typeof first === 'object' && typeof first.uri === 'string') return first.uri;
+  return null;
+}
+
+/**
+ * Find the module sync endpoint in a DID document: a `NoblePortModule`
+ * service if present, otherwise the first service with an HTTP(S) endpoint
+ *
+ * @example
+ * getModuleServiceEndpoint(doc); // 'https://portfolio.nobleport.io'
+ */
+export function getModuleServiceEndpoint(didDocument: DIDDocument | null | undefined): string | null {
+  const services = didDocument?.service ?? [];
+  const typed = services.find(s =>
+    (Array.isArray(s.type) ? s.type : [s.type]).includes(MODULE_SERVICE_TYPE));
+  if (typed) return endpointUrl(typed.serviceEndpoint);
+
+  for (const service of services) {
+    const url = endpointUrl(service.serviceEndpoint);
+    if (url && /^https?:\/\//.test(url)) return url;
+  }
+  return null;
+}
+
+// ============================================================================
+// HANDSHAKE
+// ============================================================================
+
+/**
+ * Perform the sync handshake against a module endpoint
+ *
+ * @throws Error when the endpoint is unreachable, answers with a non-2xx
+ * status, speaks another protocol or returns a malformed response
+ */
+export async function performHandshake(
+  endpoint: string,
+  request: HandshakeRequest,
+  options: Pick<ModuleSyncOptions, 'fetch' | 'timeoutMs' | 'signer'> & { audience?: string } = {}
+): Promise<HandshakeResponse> {
+  const doFetch = options.fetch ?? fetch;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), options.timeoutMs ?? 10_000);
+  const url = `${endpoint.replace(/\/+$/, '')}/sync/handshake`;
+  const body = JSON.stringify(request);
+
+  const headers: Record<string, string> = { 'content-type': 'application/json' };
+  if (options.signer) {
+    headers.authorization = options.signer.authorize({ method: 'POST', url, body, audience: options.audience });
+  }
+
+  try {
+    const response = await doFetch(url, {
+      method: 'POST',
+      headers,
+      body,
+      signal: controller.signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`handshake failed with HTTP ${response.status}`);
+    }
+
+    const result = validate(handshakeResponseSchema, await response.json());
+    if (!result.ok) {
+      throw new Error(`malformed handshake response:\n${formatIssues(result.issues)}`);
+    }
+    if (result.value.protocol !== request.protocol) {
+      throw new Error(`unsupported protocol ${result.value.protocol} (expected ${request.protocol})`);
+    }
+
+    const { protocol, module, version, capabilities, cursor } = result.value;
+    return { protocol, module, version, capabilities, cursor };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Resolve-and-handshake flow for one module
+ *
+ * @param did - The module DID (e.g. 'did:ens:portfolio.nobleport.eth')
+ * @param didDocument - The resolved DID document, or null if resolution failed
+ * @param expected - Capabilities Stephanie expects from this module
+ * @param cursor - Last-event cursor from the previous sync
+ */
+export async function syncModuleEndpoint(
+  did: string,
+  didDocument: DIDDocument | null,
+  expected: string[],
+  cursor: string | undefined,
+  options: ModuleSyncOptions
+): Promise<ModuleSyncResult> {
+  if (!didDocument) {
+    return { status: 'pending', missingCapabilities: [], error: `${did} did not resolve` };
+  }
+
+  const endpoint = getModuleServiceEndpoint(didDocument);
+  if (!endpoint) {
+    return { status: 'pending', missingCapabilities: [], error: `${did} has no ${MODULE_SERVICE_TYPE} service` };
+  }
+
+  try {
+    const handshake = await performHandshake(endpoint, {
+      protocol: MODULE_SYNC_PROTOCOL,
+      client: { did: options.clientDid, version: options.clientVersion ?? '1.0.0' },
+      capabilities: expected,
+      cursor
+    }, { ...options, audience: did });
+
+    if (handshake.module !== did) {
+      throw new Error(`endpoint identifies as ${handshake.module}, expected ${did}`);
+    }
+
+    return {
+      status: 'connected',
+      endpoint,
+      handshake,
+      missingCapabilities: expected.filter(c => !handshake.capabilities.includes(c))
+    };
+  } catch (e: unknown) {
+    return {
+      status: 'disconnected',
+      endpoint,
+      missingCapabilities: [],
+      error: e instanceof Error ? e.message : String(e)
+    };
+  }
+}
@@ -0,0 +1,442 @@
+/**
+ * NBPT Net Asset Value Engine
+ *
+ * Deterministic NAV for the Noble Port Real Estate ETF. Every amount is a
+ * decimal string and all arithmetic is fixed-point on bigint (18 decimals),
+ * so the same inputs always give the same figures to the cent:
+ *
+ *   holdings        Σ quantity × price            (each rounded to cents)
+ * + cash            Σ amount × USD rate (USD, USDC, …)
+ * + accrued income
+ * = gross assets
+ * − liabilities
+ * − management fee  previously accrued + (gross − liabilities − previously accrued)
+ *                   × 0.35% × days / 365
+ * = net assets (NAV)
+ * ÷ shares outstanding
+ * = NAV per share   (rounded to 4 decimals)
+ *
+ * Rounding is half away from zero. Totals are summed from the rounded lines
+ * shown in the breakdown, so the breakdown always adds up.
+ *
+ * iNAV reprices the holdings at live prices and keeps every other input of
+ * the last valuation. A snapshot (config + inputs + result) lets an auditor
+ * recompute a published figure with `verifySnapshot()`.
+ */
+
+import { hashValue } from './taskLedger';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PropertyHolding {
+  /** Property token id, e.g. the Token-2022 mint address */
+  id: string;
+  name?: string;
+  /** Tokens held */
+  quantity: string;
+  /** USD valuation per token */
+  price: string;
+  /** Appraisal or oracle feed the price came from */
+  priceSource?: string;
+  /** When the price was observed (ISO 8601) */
+  pricedAt?: string;
+}
+
+export interface CashBalance {
+  /** 'USD', 'USDC', … */
+  currency: string;
+  amount: string;
+  /** USD per unit (default '1') */
+  usdRate?: string;
+}
+
+export interface NavAdjustment {
+  description: string;
+  /** USD, positive */
+  amount: string;
+}
+
+export interface NavInputs {
+  /** Valuation point (ISO 8601) */
+  asOf: string;
+  holdings: PropertyHolding[];
+  cash: CashBalance[];
+  /** Rent and other income earned but not yet received */
+  accruedIncome: NavAdjustment[];
+  /** Amounts owed other than the management fee */
+  liabilities: NavAdjustment[];
+  /** Management fee accrued in earlier periods and not yet paid */
+  accruedManagementFee: string;
+  /** Days of management fee to accrue at this valuation (default 1) */
+  feeAccrualDays?: number;
+  sharesOutstanding: string;
+}
+
+export interface NavEngineOptions {
+  /** Default: 'NBPT' */
+  fund?: string;
+  /** Annual management fee in basis points (default 35, i.e. 0.35%) */
+  managementFeeBps?: number;
+  /** Day-count basis for fee accrual (default 365) */
+  daysPerYear?: number;
+  /** Decimals of USD amounts (default 2) */
+  amountDecimals?: number;
+  /** Decimals of NAV per share (default 4) */
+  navPerShareDecimals?: number;
+}
+
+export type NavConfig = Required<NavEngineOptions>;
+
+export type NavKind = 'nav' | 'inav';
+
+export interface HoldingValuation extends PropertyHolding {
+  marketValue: string;
+  /** Share of total holdings (fraction, 6 decimals) */
+  weight: string;
+}
+
+export interface CashValuation extends CashBalance {
+  usdValue: string;
+}
+
+export interface ManagementFeeAccrual {
+  rateBps: number;
+  days: number;
+  daysPerYear: number;
+  /** Net assets before this valuation's accrual */
+  basis: string;
+  /** basis × rate × days / daysPerYear */
+  accrual: string;
+  previouslyAccrued: string;
+  total: string;
+}
+
+export interface NavBreakdown {
+  holdings: HoldingValuation[];
+  totalHoldings: string;
+  cash: CashValuation[];
+  totalCash: string;
+  accruedIncome: NavAdjustment[];
+  totalAccruedIncome: string;
+  grossAssets: string;
+  liabilities: NavAdjustment[];
+  totalLiabilities: string;
+  managementFee: ManagementFeeAccrual;
+  netAssets: string;
+  sharesOutstanding: string;
+  navPerShare: string;
+}
+
+export interface NavResult {
+  fund: string;
+  kind: NavKind;
+  asOf: string;
+  /** Net assets in USD */
+  nav: string;
+  navPerShare: string;
+  breakdown: NavBreakdown;
+  /** hashValue() of the config and inputs */
+  inputsHash: string;
+  /** hashValue() of the breakdown */
+  breakdownHash: string;
+}
+
+/** Everything needed to recompute a published NAV */
+export interface NavSnapshot {
+  config: NavConfig;
+  inputs: NavInputs;
+  result: NavResult;
+}
+
+export interface NavSnapshotVerification {
+  valid: boolean;
+  /** Breakdown hash recorded in the snapshot */
+  expected: string;
+  /** Breakdown hash recomputed from the snapshot's inputs */
+  actual: string;
+  /** Paths of result fields that differ, e.g. 'navPerShare' or 'breakdown.managementFee.accrual' */
+  differences: string[];
+}
+
+export type NavErrorCode = 'invalid-input' | 'no-shares' | 'unknown-holding';
+
+export class NavError extends Error {
+  readonly code: NavErrorCode;
+
+  constructor(code: NavErrorCode, message: string) {
+    super(message);
+    this.name = 'NavError';
+    this.code = code;
+  }
+}
+
+export const DEFAULT_NAV_CONFIG: NavConfig = {
+  fund: 'NBPT',
+  managementFeeBps: 35,
+  daysPerYear: 365,
+  amountDecimals: 2,
+  navPerShareDecimals: 4
+};
+
+// ============================================================================
+// DECIMALS
+// ============================================================================
+
+const DECIMALS = 18;
+const SCALE = 10n ** BigInt(DECIMALS);
+const DECIMAL_PATTERN = /^-?\d+(\.\d+)?$/;
+
+function parseDecimal(value: string, field: string, { signed = false } = {}): bigint {
+  if (typeof value !== 'string' || !DECIMAL_PATTERN.test(value)) {
+    throw new NavError('invalid-input', `${field} must be a decimal string, got ${JSON.stringify(value)}`);
+  }
+  const negative = value.startsWith('-');
+  if (negative && !signed) throw new NavError('invalid-input', `${field} must not be negative`);
+
+  const [whole, fraction = ''] = (negative ? value.slice(1) : value).split('.');
+  if (fraction.length > DECIMALS) {
+    throw new NavError('invalid-input', `${field} has more than ${DECIMALS} decimals`);
+  }
+  const units = BigInt(whole) * SCALE + BigInt(fraction.padEnd(DECIMALS, '0'));
+  return negative ? -units : units;
+}
+
+/** Integer division rounding half away from zero */
+function divRound(numerator: bigint, denominator: bigint): bigint {
+  const negative = (numerator < 0n) !== (denominator < 0n);
+  const n = numerator < 0n ? -numerator : numerator;
+  const d = denominator < 0n ? -denominator : denominator;
+  const quotient = (2n * n + d) / (2n * d);
+  return negative ? -quotient : quotient;
+}
+
+const multiply = (a: bigint, b: bigint): bigint => divRound(a * b, SCALE);
+const divide = (a: bigint, b: bigint): bigint => divRound(a * SCALE, b);
+
+function round(value: bigint, decimals: number): bigint {
+  const step = 10n ** BigInt(DECIMALS - decimals);
+  return divRound(value, step) * step;
+}
+
+function formatDecimal(value: bigint, decimals: number): string {
+  const rounded = round(value, decimals);
+  const abs = rounded < 0n ? -rounded : rounded;
+  const fraction = (abs % SCALE).toString().padStart(DECIMALS, '0').slice(0, decimals);
+  return `${rounded < 0n ? '-' : ''}${abs / SCALE}${decimals ? `.${fraction}` : ''}`;
+}
+
+const sum = (values: bigint[]): bigint => values.reduce((total, value) => total + value, 0n);
+
+// Paths where two JSON values differ
+function differingPaths(expected: unknown, actual: unknown, path = ''): string[] {
+  if (expected && actual && typeof expected === 'object' && typeof actual === 'object') {
+    const keys = Array.from(new Set([...Object.keys(expected), ...Object.keys(actual)]));
+    return keys.flatMap(key => differingPaths(
+      (expected as Record<string, unknown>)[key],
+      (actual as Record<string, unknown>)[key],
+      path ? `${path}.${key}` : key
+    ));
+  }
+  return expected === actual ? [] : [path];
+}
+
+// ============================================================================
+// ENGINE
+// ============================================================================
+
+/**
+ * Reprice holdings at live prices, keeping every other input
+ *
+ * @throws NavError ('unknown-holding') for a price of a holding the fund does not hold
+ *
+ * @example
+ * const live = repriceHoldings(inputs, { 'miami-condo': '18.25' }, new Date().toISOString(), 'chainlink');
+ */
+export function repriceHoldings(
+  inputs: NavInputs,
+  prices: Record<string, string>,
+  asOf: string,
+  priceSource?: string
+): NavInputs {
+  const held = new Set(inputs.holdings.map(holding => holding.id));
+  const unknown = Object.keys(prices).filter(id => !held.has(id));
+  if (unknown.length) throw new NavError('unknown-holding', `no holding ${unknown.join(', ')}`);
+
+  return {
+    ...inputs,
+    asOf,
+    holdings: inputs.holdings.map(holding => holding.id in prices
+      ? { ...holding, price: prices[holding.id], pricedAt: asOf, ...(priceSource && { priceSource }) }
+      : holding)
+  };
+}
+
+export class NavEngine {
+  readonly config: NavConfig;
+
+  constructor(options: NavEngineOptions = {}) {
+    this.config = { ...DEFAULT_NAV_CONFIG, ...options };
+    const { managementFeeBps, daysPerYear, amountDecimals, navPerShareDecimals } = this.config;
+    if (!Number.isInteger(managementFeeBps) || managementFeeBps < 0) {
+      throw new NavError('invalid-input', 'managementFeeBps must be a non-negative integer');
+    }
+    if (!Number.isInteger(daysPerYear) || daysPerYear <= 0) {
+      throw new NavError('invalid-input', 'daysPerYear must be a positive integer');
+    }
+    for (const [field, decimals] of Object.entries({ amountDecimals, navPerShareDecimals })) {
+      if (!Number.isInteger(decimals) || decimals < 0 || decimals > DECIMALS) {
+        throw new NavError('invalid-input', `${field} must be an integer from 0 to ${DECIMALS}`);
+      }
+    }
+  }
+
+  /**
+   * Calculate NAV and NAV per share
+   *
+   * @throws NavError when an input is malformed or no shares are outstanding
+   *
+   * @example
+   * const result = engine.calculate({
+   *   asOf: '2026-10-16T20:00:00Z',
+   *   holdings: [{ id: 'miami-condo', quantity: '100000', price: '18.00' }],
+   *   cash: [{ currency: 'USDC', amount: '250000' }],
+   *   accruedIncome: [{ description: 'October rent', amount: '12000' }],
+   *   liabilities: [],
+   *   accruedManagementFee: '0',
+   *   sharesOutstanding: '200000'
+   * });
+   * result.navPerShare; // '10.3099'
+   */
+  calculate(inputs: NavInputs, kind: NavKind = 'nav'): NavResult {
+    const { fund, managementFeeBps, daysPerYear, amountDecimals, navPerShareDecimals } = this.config;
+    const amount = (value: bigint) => formatDecimal(value, amountDecimals);
+    const money = (value: bigint) => round(value, amountDecimals);
+
+    if (Number.isNaN(Date.parse(inputs.asOf))) throw new NavError('invalid-input', 'asOf must be an ISO 8601 date');
+    const days = inputs.feeAccrualDays ?? 1;
+    if (!Number.isInteger(days) || days < 0) throw new NavError('invalid-input', 'feeAccrualDays must be a non-negative integer');
+    const shares = parseDecimal(inputs.sharesOutstanding, 'sharesOutstanding');
+    if (shares === 0n) throw new NavError('no-shares', 'no shares outstanding');
+
+    const ids = new Set<string>();
+    const holdings = inputs.holdings.map((holding, i) => {
+      if (!holding.id || ids.has(holding.id)) throw new NavError('invalid-input', `holdings[${i}] needs a unique id`);
+      ids.add(holding.id);
+      const quantity = parseDecimal(holding.quantity, `holdings[${i}].quantity`);
+      const price = parseDecimal(holding.price, `holdings[${i}].price`);
+      return { holding, value: money(multiply(quantity, price)) };
+    });
+    const totalHoldings = sum(holdings.map(({ value }) => value));
+
+    const cash = inputs.cash.map((balance, i) => {
+      const units = parseDecimal(balance.amount, `cash[${i}].amount`, { signed: true });
+      const rate = parseDecimal(balance.usdRate ?? '1', `cash[${i}].usdRate`);
+      return { balance, value: money(multiply(units, rate)) };
+    });
+    const totalCash = sum(cash.map(({ value }) => value));
+
+    const adjustments = (entries: NavAdjustment[], field: string) =>
+      entries.map((entry, i) => money(parseDecimal(entry.amount, `${field}[${i}].amount`)));
+    const income = adjustments(inputs.accruedIncome, 'accruedIncome');
+    const liabilities = adjustments(inputs.liabilities, 'liabilities');
+    const totalIncome = sum(income);
+    const totalLiabilities = sum(liabilities);
+    const grossAssets = totalHoldings + totalCash + totalIncome;
+
+    const previouslyAccrued = money(parseDecimal(inputs.accruedManagementFee, 'accruedManagementFee'));
+    const basis = grossAssets - totalLiabilities - previouslyAccrued;
+    const accrual = basis > 0n
+      ? money(divRound(basis * BigInt(managementFeeBps) * BigInt(days), 10000n * BigInt(daysPerYear)))
+      : 0n;
+    const totalFee = previouslyAccrued + accrual;
+
+    const netAssets = grossAssets - totalLiabilities - totalFee;
+    const navPerShare = formatDecimal(divide(netAssets, shares), navPerShareDecimals);
+
+    const breakdown: NavBreakdown = {
+      holdings: holdings.map(({ holding, value }) => ({
+        ...holding,
+        marketValue: amount(value),
+        weight: formatDecimal(totalHoldings ? divide(value, totalHoldings) : 0n, 6)
+      })),
+      totalHoldings: amount(totalHoldings),
+      cash: cash.map(({ balance, value }) => ({ ...balance, usdValue: amount(value) })),
+      totalCash: amount(totalCash),
+      accruedIncome: inputs.accruedIncome.map((entry, i) => ({ ...entry, amount: amount(income[i]) })),
+      totalAccruedIncome: amount(totalIncome),
+      grossAssets: amount(grossAssets),
+      liabilities: inputs.liabilities.map((entry, i) => ({ ...entry, amount: amount(liabilities[i]) })),
+      totalLiabilities: amount(totalLiabilities),
+      managementFee: {
+        rateBps: managementFeeBps,
+        days,
+        daysPerYear,
+        basis: amount(basis),
+        accrual: amount(accrual),
+        previouslyAccrued: amount(previouslyAccrued),
+        total: amount(totalFee)
+      },
+      netAssets: amount(netAssets),
+      sharesOutstanding: inputs.sharesOutstanding,
+      navPerShare
+    };
+
+    return {
+      fund,
+      kind,
+      asOf: inputs.asOf,
+      nav: breakdown.netAssets,
+      navPerShare,
+      breakdown,
+      inputsHash: hashValue({ config: this.config, kind, inputs }),
+      breakdownHash: hashValue(breakdown)
+    };
+  }
+
+  /**
+   * Indicative NAV at live holding prices
+   *
+   * @throws NavError as calculate(), or 'unknown-holding' for a price of a holding the fund does not hold
+   */
+  calculateInav(inputs: NavInputs, prices: Record<string, string>, asOf: string, priceSource?: string): NavResult {
+    return this.calculate(repriceHoldings(inputs, prices, asOf, priceSource), 'inav');
+  }
+
+  /**
+   * Calculate and keep everything needed to recompute the figure
+   */
+  snapshot(inputs: NavInputs, kind: NavKind = 'nav'): NavSnapshot {
+    return {
+      config: { ...this.config },
+      inputs: JSON.parse(JSON.stringify(inputs)),
+      result: this.calculate(inputs, kind)
+    };
+  }
+}
+
+/**
+ * Recompute a snapshot with its own config and compare the whole result:
+ * the published nav and navPerShare, the inputs hash and the breakdown
+ *
+ * @throws NavError when the snapshot's inputs are malformed
+ *
+ * @example
+ * const check = verifySnapshot(JSON.parse(await readFile('nav-2026-10-16.json', 'utf8')));
+ * if (!check.valid) console.warn('result differs at', check.differences);
+ */
+export function verifySnapshot(snapshot: NavSnapshot): NavSnapshotVerification {
+  const recomputed = new NavEngine(snapshot.config).calculate(snapshot.inputs, snapshot.result.kind);
+  const differences = differingPaths(snapshot.result, recomputed);
+  return {
+    valid: !differences.length,
+    expected: snapshot.result.breakdownHash,
+    actual: recomputed.breakdownHash,
+    differences
+  };
+}
+
+export function createNavEngine(options?: NavEngineOptions): NavEngine {
+  return new NavEngine(options);
+}
@@ -0,0 +1,138 @@
+/**
+ * Offline orchestration tests: FakePlatformAdapter on its own and behind
+ * createStephanieAI, with a fixture resolver so no RPC or module is needed.
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakePlatformAdapter, PlatformCallError } from './platformAdapters';
+import { AI_PLATFORM_CONNECTIONS, AITaskRequest, StephanieAI, createStephanieAI } from './stephanieAI';
+import { createFixtureResolver } from './mockModuleServer';
+import { parseTaskResult } from './taskSchemas';
+
+const claude = AI_PLATFORM_CONNECTIONS.find(platform => platform.id === 'claude-mcp')!;
+
+const analysisTask: AITaskRequest = {
+  taskType: 'analysis',
+  priority: 'high',
+  context: { portfolioData: { nav: 1_000_000 } }
+};
+
+function offlineStephanie(adapter: FakePlatformAdapter): StephanieAI {
+  return createStephanieAI({
+    adapters: [adapter],
+    resolver: createFixtureResolver({}),
+    healthProbing: false,
+    retryPolicy: { retryDelay: 1, maxDelay: 1 }
+  });
+}
+
+describe('FakePlatformAdapter', () => {
+  it('answers each task type with a schema-valid result and records the call', async () => {
+    const adapter = new FakePlatformAdapter();
+    const result = await adapter.call({ platform: claude, task: analysisTask, messages: [] });
+
+    assert.equal(adapter.calls.length, 1);
+    assert.equal(result.model, 'fake');
+    assert.deepEqual(parseTaskResult('analysis', result.output).issues, []);
+  });
+
+  it('fails the configured number of calls with a retryable error', async () => {
+    const adapter = new FakePlatformAdapter({ failures: { 'claude-mcp': 1 } });
+
+    await assert.rejects(
+      adapter.call({ platform: claude, task: analysisTask, messages: [] }),
+      (e: unknown) => e instanceof PlatformCallError && e.retryable
+    );
+    await adapter.call({ platform: claude, task: analysisTask, messages: [] });
+  });
+
+  it('streams the result word by word, ending with done', async () => {
+    const adapter = new FakePlatformAdapter({ handler: () => 'three word answer' });
+    const events = [];
+    for await (const event of adapter.stream({ platform: claude, task: analysisTask, messages: [] })) {
+      events.push(event);
+    }
+
+    assert.deepEqual(events.slice(0, 3), [
+      { type: 'delta', text: 'three ' },
+      { type: 'delta', text: 'word ' },
+      { type: 'delta', text: 'answer' }
+    ]);
+    assert.equal(events[3].type, 'done');
+  });
+});
+
+describe('offline orchestration', () => {
+  let adapter: FakePlatformAdapter;
+  let stephanie: StephanieAI;
+
+  before(async () => {
+    adapter = new FakePlatformAdapter({ unhealthy: ['xai-grok'] });
+    stephanie = offlineStephanie(adapter);
+    await stephanie.initialize();
+  });
+
+  after(() => stephanie.shutdown());
+
+  it('routes analyzePortfolio to a document-analysis platform and records it', async () => {
+    const response = await stephanie.analyzePortfolio({ nav: 1_000_000 });
+
+    assert.ok(stephanie.getTaskRoute(analysisTask).includes(response.platform));
+    assert.equal(response.result.riskScore, 42);
+
+    const [entry] = await stephanie.queryTaskLedger({ module: 'PORTFOLIO_MANAGER' });
+    assert.equal(entry.status, 'success');
+    assert.equal(entry.platform, response.platform);
+    assert.equal((await stephanie.verifyTaskLedger()).valid, true);
+  });
+
+  it('runs compliance reviews as consensus across two platforms', async () => {
+    const response = await stephanie.reviewCompliance({ document: 'prospectus' });
+
+    assert.equal(response.result.compliant, true);
+    assert.deepEqual(response.consensus?.answers.map(answer => answer.platform).sort(), ['claude-mcp', 'mistral-ai']);
+  });
+
+  it('reports failing platforms from the health check', async () => {
+    const report = await stephanie.healthCheck();
+
+    assert.notEqual(report.platforms['xai-grok'], 'healthy');
+    assert.equal(report.platforms['claude-mcp'], 'healthy');
+  });
+});
+
+describe('offline failover', () => {
+  it('retries a platform after a retryable failure', async () => {
+    const route = ['claude-mcp', 'openai-chatgpt', 'google-gemini'];
+    const stephanie = offlineStephanie(new FakePlatformAdapter({
+      failures: Object.fromEntries(route.map(id => [id, 1]))
+    }));
+    await stephanie.initialize();
+
+    try {
+      const response = await stephanie.executeTask(analysisTask);
+
+      assert.deepEqual(response.attempts.map(attempt => [attempt.platform, attempt.status]), [
+        [response.platform, 'failed'],
+        [response.platform, 'success']
+      ]);
+    } finally {
+      await stephanie.shutdown();
+    }
+  });
+
+  it('falls back to the next platform in the chain when one is down', async () => {
+    const stephanie = offlineStephanie(new FakePlatformAdapter({ unhealthy: ['claude-mcp'] }));
+    await stephanie.initialize();
+
+    try {
+      const response = await stephanie.executeTask({ ...analysisTask, preferredPlatforms: ['claude-mcp'] });
+
+      assert.notEqual(response.platform, 'claude-mcp');
+      assert.ok(response.attempts.some(attempt => attempt.platform === 'claude-mcp' && attempt.status === 'failed'));
+    } finally {
+      await stephanie.shutdown();
+    }
+  });
+});
@@ -0,0 +1,1102 @@
+/**
+ * AI Platform Adapters
+ *
+ * Provider adapters that turn an AITaskRequest into a real call against an
+ * MCP connection. Each adapter handles one transport:
+ *
+ * - McpStdioAdapter: launches the configured MCP server (`mcpServers.*.command`)
+ *   and speaks JSON-RPC 2.0 over stdio
+ * - RestChatAdapter: OpenAI-style `POST /chat/completions`
+ * - FakePlatformAdapter: in-process adapter for offline development and tests
+ *
+ * Credentials are read from `authentication.config` (headerName, prefix, envVar).
+ * Platforms with `did_auth` authentication get a DID-Auth signed header
+ * instead, and MCP stdio tool calls carry the DID-Auth token in `_meta`
+ * whenever a signer is configured.
+ * Adapters may also implement `stream()`, mapping provider SSE chunks or MCP
+ * progress notifications onto PlatformStreamEvents.
+ */
+
+import type { AITaskRequest, MCPConnection } from './stephanieAI';
+import { DID_AUTH_SCHEME, DidAuthRequest, DidAuthSigner, signJsonRpcParams } from './didAuth';
+import { describeTaskResult } from './taskSchemas';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PlatformMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface PlatformCallRequest {
+  platform: MCPConnection;
+  task: AITaskRequest;
+  messages: PlatformMessage[];
+  signal?: AbortSignal;
+  temperature?: number;
+  maxTokens?: number;
+  /** Ask the provider for per-token logprobs, where supported */
+  logprobs?: boolean;
+}
+
+export interface PlatformCallResult {
+  /** Raw text returned by the model */
+  text: string;
+  /** Parsed JSON when the text is valid JSON, otherwise the text */
+  output: unknown;
+  model?: string;
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+  };
+  citations?: string[];
+  /** Per-token log probabilities, when the provider returned them */
+  logprobs?: number[];
+  raw?: unknown;
+}
+
+/**
+ * Incremental output of a streamed platform call. `done` is always last
+ * and carries the same result `call()` would have returned.
+ */
+export type PlatformStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'tool-call'; id?: string; name: string; arguments: unknown }
+  | { type: 'citation'; url: string }
+  | { type: 'done'; result: PlatformCallResult };
+
+export interface PlatformAdapter {
+  readonly name: string;
+  supports(platform: MCPConnection): boolean;
+  call(request: PlatformCallRequest): Promise<PlatformCallResult>;
+  /** Streamed variant of call(); adapters without it are streamed by streamPlatformCall */
+  stream?(request: PlatformCallRequest): AsyncIterable<PlatformStreamEvent>;
+  /** Lightweight liveness check used by the health prober */
+  probe?(platform: MCPConnection, signal?: AbortSignal): Promise<void>;
+  close?(): Promise<void>;
+}
+
+/**
+ * Raised by adapters when a platform call fails. `retryable` is true for
+ * transient failures (timeouts, 429, 5xx, dropped transports).
+ */
+export class PlatformCallError extends Error {
+  readonly platformId: string;
+  readonly retryable: boolean;
+  readonly status?: number;
+
+  constructor(platformId: string, message: string, options: { retryable?: boolean; status?: number; cause?: unknown } = {}) {
+    super(`[${platformId}] ${message}`, { cause: options.cause });
+    this.name = 'PlatformCallError';
+    this.platformId = platformId;
+    this.retryable = options.retryable ?? false;
+    this.status = options.status;
+  }
+}
+
+type Env = Record<string, string | undefined>;
+
+// ============================================================================
+// SHARED HELPERS
+// ============================================================================
+
+/**
+ * Build the system/user messages sent to every platform for a task
+ */
+export function buildTaskMessages(request: AITaskRequest): PlatformMessage[] {
+  const messages: PlatformMessage[] = [
+    {
+      role: 'system',
+      content: [
+        'You are Stephanie.ai, the AI orchestration hub for the NoblePort.eth ecosystem.',
+        `Task type: ${request.taskType}. Priority: ${request.priority}.`,
+        describeTaskResult(request.taskType)
+      ].join('\n')
+    },
+    {
+      role: 'user',
+      content: JSON.stringify(request.context)
+    }
+  ];
+
+  if (request.repairFeedback) {
+    messages.push({
+      role: 'user',
+      content: `Your previous response did not match the required format:\n${request.repairFeedback}\nRespond again with only the corrected JSON object.`
+    });
+  }
+  return messages;
+}
+
+/**
+ * Read the credential named by `authentication.config.envVar`
+ */
+export function getCredential(platform: MCPConnection, env: Env = process.env): string {
+  const { envVar } = platform.authentication.config;
+  const value = envVar ? env[envVar] : undefined;
+  if (!value) {
+    throw new PlatformCallError(platform.id, `missing credential: set ${envVar || 'authentication.config.envVar'}`);
+  }
+  return value;
+}
+
+/**
+ * Build HTTP authentication headers from `authentication.config`
+ *
+ * @param didAuth - Signer and request, required for `did_auth` platforms
+ *
+ * @example
+ * // { headerName: 'Authorization', prefix: 'Bearer', envVar: 'OPENAI_API_KEY' }
+ * buildAuthHeaders(platform); // { Authorization: 'Bearer sk-...' }
+ */
+export function buildAuthHeaders(
+  platform: MCPConnection,
+  env: Env = process.env,
+  didAuth?: { signer?: DidAuthSigner; request: DidAuthRequest }
+): Record<string, string> {
+  const { type, config } = platform.authentication;
+
+  switch (type) {
+    case 'api_key':
+    case 'jwt':
+    case 'oauth2': {
+      const credential = getCredential(platform, env);
+      const headerName = config.headerName || 'Authorization';
+      const prefix = config.prefix ?? (type === 'api_key' ? '' : 'Bearer');
+      return { [headerName]: prefix ? `${prefix} ${credential}` : credential };
+    }
+    case 'did_auth': {
+      if (!didAuth?.signer) {
+        throw new PlatformCallError(platform.id, 'did_auth requires a DID-Auth signer: set STEPHANIE_DID_PRIVATE_KEY');
+      }
+      const headerName = config.headerName || 'Authorization';
+      return { [headerName]: `${config.prefix || DID_AUTH_SCHEME} ${didAuth.signer.sign(didAuth.request)}` };
+    }
+    default:
+      throw new PlatformCallError(platform.id, `authentication type "${type}" is not supported by this adapter`);
+  }
+}
+
+/**
+ * Convert a configured endpoint (`mcp://api.openai.com/v1/chat`) into the
+ * HTTPS chat-completions URL
+ */
+export function toChatCompletionsUrl(endpoint: string): string {
+  const url = endpoint.replace(/^mcp:\/\//, 'https://').replace(/\/+$/, '');
+  if (url.endsWith('/chat/completions')) return url;
+  if (url.endsWith('/chat')) return `${url}/completions`;
+  return `${url}/chat/completions`;
+}
+
+/**
+ * Model name from the server args (`--model gpt-4o`), if any
+ */
+export function getModelName(platform: MCPConnection): string | undefined {
+  const args = platform.server?.args ?? [];
+  const index = args.indexOf('--model');
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function parseOutput(text: string): unknown {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) return text;
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return text;
+  }
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Combine an optional caller signal with a timeout
+ */
+function withTimeout(
+  signal: AbortSignal | undefined,
+  timeoutMs: number
+): { signal: AbortSignal; clear: () => void; abort: (reason: unknown) => void } {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  const timer = setTimeout(() => controller.abort(new Error(`timed out after ${timeoutMs}ms`)), timeoutMs);
+
+  if (signal?.aborted) controller.abort(signal.reason);
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  return {
+    signal: controller.signal,
+    clear: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    },
+    abort: reason => controller.abort(reason)
+  };
+}
+
+/**
+ * Push-based queue exposed as an async iterator, for bridging callbacks
+ * (transport notifications) into a stream
+ */
+class EventQueue<T> implements AsyncIterable<T> {
+  private items: T[] = [];
+  private waiting: ((result: IteratorResult<T>) => void) | null = null;
+  private failWaiting: ((error: unknown) => void) | null = null;
+  private ended = false;
+  private error: unknown = null;
+
+  push(item: T): void {
+    if (this.ended) return;
+    if (this.waiting) {
+      this.waiting({ value: item, done: false });
+      this.waiting = this.failWaiting = null;
+    } else {
+      this.items.push(item);
+    }
+  }
+
+  end(error?: unknown): void {
+    if (this.ended) return;
+    this.ended = true;
+    this.error = error ?? null;
+    if (error !== undefined) this.failWaiting?.(error);
+    else this.waiting?.({ value: undefined, done: true });
+    this.waiting = this.failWaiting = null;
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    return {
+      next: () => {
+        if (this.items.length > 0) return Promise.resolve({ value: this.items.shift()!, done: false });
+        if (this.error !== null) return Promise.reject(this.error);
+        if (this.ended) return Promise.resolve({ value: undefined, done: true });
+        return new Promise((resolve, reject) => {
+          this.waiting = resolve;
+          this.failWaiting = reject;
+        });
+      }
+    };
+  }
+}
+
+// ============================================================================
+// JSON-RPC TRANSPORT (MCP STDIO)
+// ============================================================================
+
+export type JsonRpcNotificationHandler = (method: string, params: unknown) => void;
+
+export interface JsonRpcTransport {
+  request(method: string, params?: unknown, signal?: AbortSignal): Promise<unknown>;
+  notify(method: string, params?: unknown): void;
+  /** Subscribe to server-to-client notifications; returns an unsubscribe function */
+  onNotification?(handler: JsonRpcNotificationHandler): () => void;
+  close(): Promise<void>;
+}
+
+export class JsonRpcError extends Error {
+  readonly code: number;
+  readonly data?: unknown;
+
+  constructor(code: number, message: string, data?: unknown) {
+    super(message);
+    this.name = 'JsonRpcError';
+    this.code = code;
+    this.data = data;
+  }
+}
+
+interface PendingRequest {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Newline-delimited JSON-RPC 2.0 over a child process's stdin/stdout,
+ * as described by the MCP stdio transport. Node.js only.
+ */
+export class StdioJsonRpcTransport implements JsonRpcTransport {
+  private child: import('node:child_process').ChildProcess | null = null;
+  private starting: Promise<void> | null = null;
+  private pending = new Map<number, PendingRequest>();
+  private handlers = new Set<JsonRpcNotificationHandler>();
+  private buffer = '';
+  private nextId = 1;
+
+  constructor(
+    private readonly options: { command: string; args: string[]; env?: Record<string, string> }
+  ) {}
+
+  async request(method: string, params?: unknown, signal?: AbortSignal): Promise<unknown> {
+    await this.start();
+    const id = this.nextId++;
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.pending.delete(id);
+        this.notify('notifications/cancelled', { requestId: id, reason: String(signal?.reason ?? 'aborted') });
+        reject(signal?.reason instanceof Error ? signal.reason : new Error('Request aborted'));
+      };
+      if (signal?.aborted) return onAbort();
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pending.set(id, {
+        resolve: value => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        reject: error => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      });
+      this.write({ jsonrpc: '2.0', id, method, params });
+    });
+  }
+
+  notify(method: string, params?: unknown): void {
+    if (this.child) this.write({ jsonrpc: '2.0', method, params });
+  }
+
+  onNotification(handler: JsonRpcNotificationHandler): () => void {
+    this.handlers.add(handler);
+    return () => this.handlers.delete(handler);
+  }
+
+  async close(): Promise<void> {
+    this.child?.kill();
+    this.child = null;
+    this.starting = null;
+    this.failAll(new Error('Transport closed'));
+  }
+
+  private start(): Promise<void> {
+    if (!this.starting) {
+      this.starting = (async () => {
+        const { spawn } = await import(/* webpackIgnore: true */ 'node:child_process');
+        const child = spawn(this.options.command, this.options.args, {
+          env: { ...process.env, ...this.options.env },
+          stdio: ['pipe', 'pipe', 'inherit']
+        });
+
+        child.stdout?.setEncoding('utf8');
+        child.stdout?.on('data', (chunk: string) => this.onData(chunk));
+        child.on('error', error => this.failAll(error));
+        child.on('exit', code => {
+          this.child = null;
+          this.starting = null;
+          this.failAll(new Error(`${this.options.command} exited with code ${code}`));
+        });
+
+        this.child = child;
+      })();
+    }
+    return this.starting;
+  }
+
+  private write(message: unknown): void {
+    this.child?.stdin?.write(`${JSON.stringify(message)}\n`);
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) >= 0) {
+      const line = this.buffer.slice(0, newline).trim();
+      this.buffer = this.buffer.slice(newline + 1);
+      if (line) this.onMessage(line);
+    }
+  }
+
+  private onMessage(line: string): void {
+    let message: {
+      id?: number;
+      method?: string;
+      params?: unknown;
+      result?: unknown;
+      error?: { code: number; message: string; data?: unknown };
+    };
+    try {
+      message = JSON.parse(line);
+    } catch {
+      return;
+    }
+    if (message.method !== undefined && message.id === undefined) {
+      for (const handler of this.handlers) handler(message.method, message.params);
+      return;
+    }
+    if (typeof message.id !== 'number') return;
+
+    const pending = this.pending.get(message.id);
+    if (!pending) return;
+    this.pending.delete(message.id);
+
+    if (message.error) {
+      pending.reject(new JsonRpcError(message.error.code, message.error.message, message.error.data));
+    } else {
+      pending.resolve(message.result);
+    }
+  }
+
+  private failAll(error: Error): void {
+    for (const pending of this.pending.values()) pending.reject(error);
+    this.pending.clear();
+  }
+}
+
+// ============================================================================
+// MCP STDIO ADAPTER
+// ============================================================================
+
+export interface McpStdioAdapterOptions {
+  /** MCP tool invoked for each task (default: 'chat') */
+  toolName?: string;
+  timeoutMs?: number;
+  env?: Env;
+  /** Override transport creation (e.g. to connect to an existing process) */
+  createTransport?: (platform: MCPConnection, env: Record<string, string>) => JsonRpcTransport;
+  /** Signs tool calls (`_meta.didAuth`) as Stephanie's DID */
+  signer?: DidAuthSigner;
+}
+
+interface McpContent {
+  type: string;
+  text?: string;
+  resource?: { uri?: string };
+}
+
+interface McpToolResult {
+  content?: McpContent[];
+  isError?: boolean;
+  _meta?: { usage?: PlatformCallResult['usage']; logprobs?: number[] };
+}
+
+interface McpProgressParams {
+  progressToken?: string | number;
+  message?: string;
+}
+
+export const MCP_PROTOCOL_VERSION = '2024-11-05';
+
+export class McpStdioAdapter implements PlatformAdapter {
+  readonly name = 'mcp-stdio';
+  private sessions = new Map<string, Promise<JsonRpcTransport>>();
+  private nextProgressToken = 1;
+
+  constructor(private readonly options: McpStdioAdapterOptions = {}) {}
+
+  supports(platform: MCPConnection): boolean {
+    return platform.protocol === 'mcp' && Boolean(platform.server?.command);
+  }
+
+  async call(request: PlatformCallRequest): Promise<PlatformCallResult> {
+    const { platform } = request;
+    const { signal, clear } = withTimeout(request.signal, this.options.timeoutMs ?? 60_000);
+
+    try {
+      const transport = await this.getSession(platform, signal);
+      const result = await transport.request('tools/call', this.toolCallParams(request), signal) as McpToolResult;
+      return this.toCallResult(platform, result);
+    } catch (e: unknown) {
+      throw this.toCallError(platform, e);
+    } finally {
+      clear();
+    }
+  }
+
+  /**
+   * Call the tool with a progress token; `notifications/progress` messages
+   * for that token are streamed as deltas. If the consumer stops iterating
+   * before the call settles, the request is cancelled on the server.
+   */
+  async *stream(request: PlatformCallRequest): AsyncGenerator<PlatformStreamEvent> {
+    const { platform } = request;
+    const { signal, clear, abort } = withTimeout(request.signal, this.options.timeoutMs ?? 60_000);
+    const queue = new EventQueue<PlatformStreamEvent>();
+    let unsubscribe = () => {};
+    let settled = false;
+
+    try {
+      const transport = await this.getSession(platform, signal).catch(e => {
+        throw this.toCallError(platform, e);
+      });
+      const progressToken = `stephanie-${this.nextProgressToken++}`;
+      let streamed = false;
+
+      unsubscribe = transport.onNotification?.((method, params) => {
+        const progress = params as McpProgressParams | undefined;
+        if (method !== 'notifications/progress' || progress?.progressToken !== progressToken) return;
+        if (progress.message) {
+          streamed = true;
+          queue.push({ type: 'delta', text: progress.message });
+        }
+      }) ?? unsubscribe;
+
+      transport.request('tools/call', this.toolCallParams(request, { progressToken }), signal)
+        .then(raw => {
+          settled = true;
+          const result = this.toCallResult(platform, raw as McpToolResult);
+          if (!streamed && result.text) queue.push({ type: 'delta', text: result.text });
+          for (const url of result.citations ?? []) queue.push({ type: 'citation', url });
+          queue.push({ type: 'done', result });
+          queue.end();
+        })
+        .catch(e => {
+          settled = true;
+          queue.end(this.toCallError(platform, e));
+        });
+
+      yield* queue;
+    } finally {
+      // Sends notifications/cancelled for a tools/call still in flight
+      if (!settled) abort(new Error('stream closed by consumer'));
+      unsubscribe();
+      clear();
+    }
+  }
+
+  async probe(platform: MCPConnection, signal?: AbortSignal): Promise<void> {
+    const { signal: timed, clear } = withTimeout(signal, this.options.timeoutMs ?? 60_000);
+    try {
+      const transport = await this.getSession(platform, timed);
+      await transport.request('ping', {}, timed);
+    } catch (e: unknown) {
+      if (!(e instanceof JsonRpcError)) await this.dropSession(platform.id);
+      throw e;
+    } finally {
+      clear();
+    }
+  }
+
+  private toolCallParams(request: PlatformCallRequest, meta?: Record<string, unknown>): Record<string, unknown> {
+    const params = {
+      name: this.options.toolName ?? 'chat',
+      arguments: {
+        model: getModelName(request.platform),
+        messages: request.messages,
+        temperature: request.temperature,
+        maxTokens: request.maxTokens,
+        logprobs: request.logprobs
+      },
+      ...(meta && { _meta: meta })
+    };
+    const { signer } = this.options;
+    return signer ? signJsonRpcParams(signer, request.platform.endpoint, 'tools/call', params) : params;
+  }
+
+  private toCallResult(platform: MCPConnection, result: McpToolResult | undefined): PlatformCallResult {
+    const content = result?.content ?? [];
+    const text = content.filter(c => c.type === 'text').map(c => c.text ?? '').join('');
+
+    if (result?.isError) {
+      throw new PlatformCallError(platform.id, text || 'tool call failed');
+    }
+
+    return {
+      text,
+      output: parseOutput(text),
+      model: getModelName(platform),
+      usage: result?._meta?.usage,
+      logprobs: result?._meta?.logprobs,
+      citations: content.filter(c => c.type === 'resource' && c.resource?.uri).map(c => c.resource!.uri!),
+      raw: result
+    };
+  }
+
+  private toCallError(platform: MCPConnection, e: unknown): PlatformCallError {
+    if (e instanceof PlatformCallError) return e;
+    const message = e instanceof Error ? e.message : String(e);
+    // JSON-RPC errors are protocol-level answers from a working session;
+    // anything else is transport trouble, so the session is replaced
+    if (e instanceof JsonRpcError) {
+      return new PlatformCallError(platform.id, message, { retryable: false, cause: e });
+    }
+    void this.dropSession(platform.id);
+    return new PlatformCallError(platform.id, message, { retryable: true, cause: e });
+  }
+
+  // Forget a session and stop its server process
+  private async dropSession(platformId: string): Promise<void> {
+    const session = this.sessions.get(platformId);
+    if (!session) return;
+    this.sessions.delete(platformId);
+    await (await session.catch(() => null))?.close().catch(() => {});
+  }
+
+  async close(): Promise<void> {
+    const sessions = Array.from(this.sessions.values());
+    this.sessions.clear();
+    await Promise.all(sessions.map(async session => (await session.catch(() => null))?.close()));
+  }
+
+  private getSession(platform: MCPConnection, signal: AbortSignal): Promise<JsonRpcTransport> {
+    let session = this.sessions.get(platform.id);
+    if (!session) {
+      const opening = this.openSession(platform, signal);
+      // A session that failed to open is not reused
+      opening.catch(() => {
+        if (this.sessions.get(platform.id) === opening) this.sessions.delete(platform.id);
+      });
+      this.sessions.set(platform.id, session = opening);
+    }
+    return session;
+  }
+
+  private async openSession(platform: MCPConnection, signal: AbortSignal): Promise<JsonRpcTransport> {
+    const env = this.options.env ?? process.env;
+    const childEnv: Record<string, string> = { ...platform.server?.env };
+    const { envVar } = platform.authentication.config;
+    if (envVar && !childEnv[envVar] && platform.authentication.type !== 'did_auth') {
+      childEnv[envVar] = getCredential(platform, env);
+    }
+
+    const transport = this.options.createTransport
+      ? this.options.createTransport(platform, childEnv)
+      : new StdioJsonRpcTransport({
+        command: platform.server!.command,
+        args: platform.server!.args,
+        env: childEnv
+      });
+
+    try {
+      await transport.request('initialize', {
+        protocolVersion: MCP_PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: { name: 'stephanie.ai', version: '1.0.0' }
+      }, signal);
+    } catch (e: unknown) {
+      await transport.close().catch(() => {});
+      throw e;
+    }
+    transport.notify('notifications/initialized');
+
+    return transport;
+  }
+}
+
+// ============================================================================
+// REST CHAT ADAPTER (OPENAI-STYLE)
+// ============================================================================
+
+export interface RestChatAdapterOptions {
+  fetch?: typeof fetch;
+  timeoutMs?: number;
+  env?: Env;
+  /** Also handle `mcp` platforms that have no server command */
+  handleMcpEndpoints?: boolean;
+  /** Signs requests to `did_auth` platforms */
+  signer?: DidAuthSigner;
+}
+
+interface ChatCompletionLogprobs {
+  content?: Array<{ logprob: number }> | null;
+}
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: Array<{ message?: { content?: string | null }; logprobs?: ChatCompletionLogprobs | null }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+  citations?: string[];
+}
+
+interface ChatCompletionChunk {
+  model?: string;
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      tool_calls?: Array<{ index: number; id?: string; function?: { name?: string; arguments?: string } }>;
+    };
+    logprobs?: ChatCompletionLogprobs | null;
+  }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number } | null;
+  citations?: string[];
+}
+
+function toLogprobs(logprobs: ChatCompletionLogprobs | null | undefined): number[] {
+  return logprobs?.content?.map(token => token.logprob) ?? [];
+}
+
+function toUsage(usage: ChatCompletionResponse['usage'] | null): PlatformCallResult['usage'] {
+  return usage ? { promptTokens: usage.prompt_tokens ?? 0, completionTokens: usage.completion_tokens ?? 0 } : undefined;
+}
+
+/**
+ * Split a byte stream into server-sent event `data:` payloads
+ */
+async function* readSseData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) >= 0) {
+        const line = buffer.slice(0, newline).replace(/\r$/, '');
+        buffer = buffer.slice(newline + 1);
+        if (line.startsWith('data:')) yield line.slice(5).trimStart();
+      }
+      if (done) break;
+    }
+    if (buffer.startsWith('data:')) yield buffer.slice(5).trim();
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export class RestChatAdapter implements PlatformAdapter {
+  readonly name = 'rest-chat';
+
+  constructor(private readonly options: RestChatAdapterOptions = {}) {}
+
+  supports(platform: MCPConnection): boolean {
+    if (platform.protocol === 'rest') return true;
+    return Boolean(this.options.handleMcpEndpoints) && platform.protocol === 'mcp' && !platform.server?.command;
+  }
+
+  async call(request: PlatformCallRequest): Promise<PlatformCallResult> {
+    const { signal, clear } = withTimeout(request.signal, this.options.timeoutMs ?? 60_000);
+
+    try {
+      const response = await this.send(request, signal, false);
+      const body = await response.json() as ChatCompletionResponse;
+      const text = body.choices?.[0]?.message?.content ?? '';
+
+      return {
+        text,
+        output: parseOutput(text),
+        model: body.model,
+        usage: toUsage(body.usage),
+        citations: body.citations,
+        logprobs: request.logprobs ? toLogprobs(body.choices?.[0]?.logprobs) : undefined,
+        raw: body
+      };
+    } finally {
+      clear();
+    }
+  }
+
+  /**
+   * `stream: true` chat completion; content deltas, tool calls (emitted
+   * once their arguments are complete) and citations are parsed from SSE
+   */
+  async *stream(request: PlatformCallRequest): AsyncGenerator<PlatformStreamEvent> {
+    const { platform } = request;
+    const { signal, clear } = withTimeout(request.signal, this.options.timeoutMs ?? 60_000);
+
+    try {
+      const response = await this.send(request, signal, true);
+      if (!response.body) {
+        throw new PlatformCallError(platform.id, 'streaming response has no body');
+      }
+
+      let text = '';
+      let model: string | undefined;
+      let usage: PlatformCallResult['usage'];
+      const citations: string[] = [];
+      const logprobs: number[] = [];
+      const toolCalls = new Map<number, { id?: string; name: string; arguments: string }>();
+
+      for await (const data of readSseData(response.body)) {
+        if (data === '[DONE]') break;
+
+        let chunk: ChatCompletionChunk;
+        try {
+          chunk = JSON.parse(data);
+        } catch {
+          continue;
+        }
+
+        model = chunk.model ?? model;
+        usage = toUsage(chunk.usage) ?? usage;
+
+        for (const url of chunk.citations ?? []) {
+          if (!citations.includes(url)) {
+            citations.push(url);
+            yield { type: 'citation', url };
+          }
+        }
+
+        logprobs.push(...toLogprobs(chunk.choices?.[0]?.logprobs));
+        const delta = chunk.choices?.[0]?.delta;
+        if (delta?.content) {
+          text += delta.content;
+          yield { type: 'delta', text: delta.content };
+        }
+        for (const call of delta?.tool_calls ?? []) {
+          const existing = toolCalls.get(call.index) ?? { name: '', arguments: '' };
+          existing.id = call.id ?? existing.id;
+          existing.name += call.function?.name ?? '';
+          existing.arguments += call.function?.arguments ?? '';
+          toolCalls.set(call.index, existing);
+        }
+      }
+
+      for (const call of toolCalls.values()) {
+        yield { type: 'tool-call', id: call.id, name: call.name, arguments: parseOutput(call.arguments) };
+      }
+
+      yield {
+        type: 'done',
+        result: {
+          text,
+          output: parseOutput(text),
+          model,
+          usage,
+          citations: citations.length ? citations : undefined,
+          logprobs: request.logprobs ? logprobs : undefined
+        }
+      };
+    } catch (e: unknown) {
+      if (e instanceof PlatformCallError) throw e;
+      const message = e instanceof Error ? e.message : String(e);
+      throw new PlatformCallError(platform.id, `stream failed: ${message}`, { retryable: true, cause: e });
+    } finally {
+      clear();
+    }
+  }
+
+  private async send(request: PlatformCallRequest, signal: AbortSignal, stream: boolean): Promise<Response> {
+    const { platform } = request;
+    const doFetch = this.options.fetch ?? fetch;
+    const url = toChatCompletionsUrl(platform.endpoint);
+    const body = JSON.stringify({
+      model: getModelName(platform),
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.logprobs && { logprobs: true }),
+      ...(stream && { stream: true, stream_options: { include_usage: true } })
+    });
+    const headers = {
+      'content-type': 'application/json',
+      ...buildAuthHeaders(platform, this.options.env ?? process.env, {
+        signer: this.options.signer,
+        request: { method: 'POST', url, body }
+      })
+    };
+
+    let response: Response;
+    try {
+      response = await doFetch(url, {
+        method: 'POST',
+        headers,
+        signal,
+        body
+      });
+    } catch (e: unknown) {
+      const message = e instanceof Error ? e.message : String(e);
+      throw new PlatformCallError(platform.id, `request failed: ${message}`, { retryable: true, cause: e });
+    }
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new PlatformCallError(platform.id, `HTTP ${response.status}: ${body.slice(0, 200)}`, {
+        status: response.status,
+        retryable: isRetryableStatus(response.status)
+      });
+    }
+    return response;
+  }
+
+  async probe(platform: MCPConnection, signal?: AbortSignal): Promise<void> {
+    const doFetch = this.options.fetch ?? fetch;
+    const url = toChatCompletionsUrl(platform.endpoint).replace(/\/chat\/completions$/, '/models');
+    const { signal: timed, clear } = withTimeout(signal, this.options.timeoutMs ?? 60_000);
+
+    try {
+      const response = await doFetch(url, {
+        headers: buildAuthHeaders(platform, this.options.env ?? process.env, {
+          signer: this.options.signer,
+          request: { method: 'GET', url }
+        }),
+        signal: timed
+      });
+      if (!response.ok) {
+        throw new PlatformCallError(platform.id, `probe HTTP ${response.status}`, { status: response.status });
+      }
+    } finally {
+      clear();
+    }
+  }
+}
+
+// ============================================================================
+// FAKE ADAPTER (OFFLINE)
+// ============================================================================
+
+export type FakeHandler = (request: PlatformCallRequest) =>
+  string | Partial<PlatformCallResult> | Promise<string | Partial<PlatformCallResult>>;
+
+export interface FakePlatformAdapterOptions {
+  /** Produce a response; defaults to a schema-valid JSON result for the task type */
+  handler?: FakeHandler;
+  /** Simulated latency per call */
+  latencyMs?: number;
+  /** Number of calls to fail (with a retryable error) per platform id */
+  failures?: Record<string, number>;
+  /** Platform ids whose calls and probes always fail */
+  unhealthy?: string[];
+  /** Delay between streamed word deltas */
+  streamDelayMs?: number;
+}
+
+/**
+ * Default fake output per task type; each satisfies the TASK_SCHEMAS result
+ */
+const FAKE_RESULTS: Record<AITaskRequest['taskType'], Record<string, unknown>> = {
+  analysis: {
+    summary: 'Portfolio is within target allocation bands.',
+    riskScore: 42,
+    allocations: [{ asset: 'Waterfront Luxury Condo', currentWeight: 0.409, targetWeight: 0.4 }],
+    recommendations: [{ action: 'hold', asset: 'Waterfront Luxury Condo', rationale: 'Drift below rebalance threshold.' }]
+  },
+  prediction: {
+    horizon: '90d',
+    outlook: 'neutral',
+    predictions: [{ metric: 'nav', value: 1.0, low: 0.97, high: 1.03 }],
+    drivers: ['rates']
+  },
+  generation: {
+    title: 'Investor Report',
+    period: 'current',
+    summary: 'Simulated report.',
+    sections: [{ heading: 'Performance', body: 'Simulated performance commentary.' }],
+    disclosures: ['Simulated output for offline development.']
+  },
+  communication: {
+    subject: 'Update',
+    body: 'Simulated investor communication.'
+  },
+  compliance: {
+    compliant: true,
+    summary: 'No issues found in simulated review.',
+    findings: []
+  }
+};
+
+/**
+ * In-process adapter that never touches the network. Records every call
+ * so the orchestration path can be exercised offline.
+ */
+export class FakePlatformAdapter implements PlatformAdapter {
+  readonly name = 'fake';
+  readonly calls: PlatformCallRequest[] = [];
+  private failures: Record<string, number>;
+
+  constructor(private readonly options: FakePlatformAdapterOptions = {}) {
+    this.failures = { ...options.failures };
+  }
+
+  supports(): boolean {
+    return true;
+  }
+
+  async call(request: PlatformCallRequest): Promise<PlatformCallResult> {
+    this.calls.push(request);
+    const { platform } = request;
+
+    if (this.options.latencyMs) {
+      await new Promise(resolve => setTimeout(resolve, this.options.latencyMs));
+    }
+    if (request.signal?.aborted) {
+      throw new PlatformCallError(platform.id, 'aborted');
+    }
+    if (this.options.unhealthy?.includes(platform.id)) {
+      throw new PlatformCallError(platform.id, 'simulated outage', { retryable: true, status: 503 });
+    }
+    if ((this.failures[platform.id] ?? 0) > 0) {
+      this.failures[platform.id]--;
+      throw new PlatformCallError(platform.id, 'simulated failure', { retryable: true, status: 503 });
+    }
+
+    const produced = this.options.handler
+      ? await this.options.handler(request)
+      : JSON.stringify({
+        status: 'success',
+        platform: platform.name,
+        taskType: request.task.taskType,
+        timestamp: new Date().toISOString(),
+        ...FAKE_RESULTS[request.task.taskType]
+      });
+
+    const partial = typeof produced === 'string' ? { text: produced } : produced;
+    const text = partial.text ?? JSON.stringify(partial.output ?? null);
+
+    return {
+      model: 'fake',
+      ...partial,
+      text,
+      output: partial.output ?? parseOutput(text)
+    };
+  }
+
+  /**
+   * Stream the call() result word by word
+   */
+  async *stream(request: PlatformCallRequest): AsyncGenerator<PlatformStreamEvent> {
+    const result = await this.call(request);
+
+    for (const word of result.text.match(/\s*\S+\s*/g) ?? []) {
+      if (this.options.streamDelayMs) {
+        await new Promise(resolve => setTimeout(resolve, this.options.streamDelayMs));
+      }
+      if (request.signal?.aborted) {
+        throw new PlatformCallError(request.platform.id, 'aborted');
+      }
+      yield { type: 'delta', text: word };
+    }
+    for (const url of result.citations ?? []) yield { type: 'citation', url };
+    yield { type: 'done', result };
+  }
+
+  async probe(platform: MCPConnection): Promise<void> {
+    if (this.options.unhealthy?.includes(platform.id)) {
+      throw new PlatformCallError(platform.id, 'simulated outage', { status: 503 });
+    }
+  }
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+/**
+ * Default adapters: MCP stdio for configured servers, REST for `rest` platforms
+ */
+export function createDefaultAdapters(
+  options: { env?: Env; fetch?: typeof fetch; signer?: DidAuthSigner } = {}
+): PlatformAdapter[] {
+  return [
+    new McpStdioAdapter({ env: options.env, signer: options.signer }),
+    new RestChatAdapter({ env: options.env, fetch: options.fetch, signer: options.signer })
+  ];
+}
+
+export function selectAdapter(adapters: PlatformAdapter[], platform: MCPConnection): PlatformAdapter | null {
+  return adapters.find(adapter => adapter.supports(platform)) ?? null;
+}
+
+/**
+ * Stream a call through any adapter. Adapters without `stream()` yield the
+ * whole call() result as one delta.
+ */
+export async function* streamPlatformCall(
+  adapter: PlatformAdapter,
+  request: PlatformCallRequest
+): AsyncGenerator<PlatformStreamEvent> {
+  if (adapter.stream) {
+    yield* adapter.stream(request);
+    return;
+  }
+
+  const result = await adapter.call(request);
+  if (result.text) yield { type: 'delta', text: result.text };
+  for (const url of result.citations ?? []) yield { type: 'citation', url };
+  yield { type: 'done', result };
+}
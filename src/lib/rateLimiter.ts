@@ -0,0 +1,393 @@
+/**
+ * Client-side Rate Limiting & Token Budgeting
+ *
+ * Enforces `MCPConnection.rateLimits` per platform and
+ * `security.rateLimit.global` from mcp.config.json with token buckets.
+ * Requests that exceed a limit wait in a priority queue or are rejected,
+ * depending on `AITaskRequest.priority`; critical work preempts queued
+ * low-priority work.
+ */
+
+import type { AITaskRequest, MCPConnection } from './stephanieAI';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type TaskPriority = AITaskRequest['priority'];
+
+export interface PriorityPolicy {
+  /** Higher ranks are served first */
+  rank: number;
+  /** Longest a request may wait for capacity before it is rejected */
+  maxWaitMs: number;
+  /** Queued requests of this priority are dropped when a critical request has to wait */
+  preemptible: boolean;
+}
+
+export const PRIORITY_POLICIES: Record<TaskPriority, PriorityPolicy> = {
+  low: { rank: 0, maxWaitMs: 5_000, preemptible: true },
+  medium: { rank: 1, maxWaitMs: 30_000, preemptible: false },
+  high: { rank: 2, maxWaitMs: 60_000, preemptible: false },
+  critical: { rank: 3, maxWaitMs: Infinity, preemptible: false }
+};
+
+export interface RateLimitRequest {
+  platform: MCPConnection;
+  priority: TaskPriority;
+  estimatedTokens: number;
+  signal?: AbortSignal;
+}
+
+export type RateLimitReason = 'token-limit' | 'wait-exceeded' | 'preempted' | 'queue-full' | 'aborted';
+
+export class RateLimitError extends Error {
+  readonly platformId: string;
+  readonly reason: RateLimitReason;
+
+  constructor(platformId: string, reason: RateLimitReason, message: string) {
+    super(`[${platformId}] ${message}`);
+    this.name = 'RateLimitError';
+    this.platformId = platformId;
+    this.reason = reason;
+  }
+}
+
+export interface RateLimiterOptions {
+  global?: {
+    requestsPerMinute: number;
+    tokensPerMinute: number;
+  };
+  /** Maximum number of waiting requests across all platforms */
+  maxQueueDepth?: number;
+  now?: () => number;
+}
+
+export interface RateLimiterStats {
+  queued: number;
+  granted: number;
+  rejected: Record<RateLimitReason, number>;
+  global: { requestsAvailable: number; tokensAvailable: number } | null;
+  platforms: Record<string, { requestsAvailable: number }>;
+}
+
+// ============================================================================
+// TOKEN BUCKET
+// ============================================================================
+
+/**
+ * Classic token bucket: holds up to `capacity` tokens and refills
+ * continuously at `capacity` per `intervalMs`
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private readonly refillPerMs: number;
+
+  constructor(
+    readonly capacity: number,
+    intervalMs: number,
+    private readonly now: () => number = Date.now
+  ) {
+    this.tokens = capacity;
+    this.lastRefill = now();
+    this.refillPerMs = capacity / intervalMs;
+  }
+
+  available(): number {
+    this.refill();
+    return this.tokens;
+  }
+
+  tryTake(amount: number): boolean {
+    this.refill();
+    if (this.tokens < amount) return false;
+    this.tokens -= amount;
+    return true;
+  }
+
+  /** Return (or, with a negative amount, charge) tokens after the fact */
+  adjust(amount: number): void {
+    this.refill();
+    this.tokens = Math.min(this.capacity, this.tokens + amount);
+  }
+
+  /** Milliseconds until `amount` tokens are available */
+  timeUntil(amount: number): number {
+    this.refill();
+    if (amount > this.capacity) return Infinity;
+    return this.tokens >= amount ? 0 : Math.ceil((amount - this.tokens) / this.refillPerMs);
+  }
+
+  private refill(): void {
+    const now = this.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+  }
+}
+
+// ============================================================================
+// TOKEN ESTIMATION
+// ============================================================================
+
+/** Completion budget assumed when a task does not state one */
+export const DEFAULT_COMPLETION_TOKENS = 1024;
+
+/** Fixed overhead for the system prompt and message framing */
+const PROMPT_OVERHEAD_TOKENS = 64;
+
+/**
+ * Rough token count for text (~4 characters per token for English/JSON)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Estimated prompt + completion tokens for a task, used before dispatch
+ */
+export function estimateTaskTokens(request: AITaskRequest, completionTokens = DEFAULT_COMPLETION_TOKENS): number {
+  return PROMPT_OVERHEAD_TOKENS + estimateTokens(JSON.stringify(request.context ?? {})) + completionTokens;
+}
+
+// ============================================================================
+// RATE LIMITER
+// ============================================================================
+
+const MINUTE = 60_000;
+
+interface Waiter {
+  request: RateLimitRequest;
+  enqueuedAt: number;
+  resolve: () => void;
+  reject: (error: RateLimitError) => void;
+}
+
+export class RateLimiter {
+  private platformBuckets = new Map<string, TokenBucket>();
+  private globalRequests: TokenBucket | null;
+  private globalTokens: TokenBucket | null;
+  private queue: Waiter[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private granted = 0;
+  private rejected: Record<RateLimitReason, number> = {
+    'token-limit': 0,
+    'wait-exceeded': 0,
+    'preempted': 0,
+    'queue-full': 0,
+    'aborted': 0
+  };
+  private readonly now: () => number;
+  private readonly maxQueueDepth: number;
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.now = options.now ?? Date.now;
+    this.maxQueueDepth = options.maxQueueDepth ?? 100;
+    this.globalRequests = options.global
+      ? new TokenBucket(options.global.requestsPerMinute, MINUTE, this.now)
+      : null;
+    this.globalTokens = options.global
+      ? new TokenBucket(options.global.tokensPerMinute, MINUTE, this.now)
+      : null;
+  }
+
+  /**
+   * Wait until the platform and global limits allow the request
+   *
+   * @throws RateLimitError when the request can never fit, waits too long
+   * for its priority, is preempted by critical work, or the queue is full
+   */
+  acquire(request: RateLimitRequest): Promise<void> {
+    const { platform, estimatedTokens, priority } = request;
+    const tokensPerRequest = platform.rateLimits?.tokensPerRequest;
+
+    if (tokensPerRequest !== undefined && estimatedTokens > tokensPerRequest) {
+      return this.reject(platform.id, 'token-limit',
+        `estimated ${estimatedTokens} tokens exceeds ${tokensPerRequest} tokens/request`);
+    }
+    if (this.globalTokens && estimatedTokens > this.globalTokens.capacity) {
+      return this.reject(platform.id, 'token-limit',
+        `estimated ${estimatedTokens} tokens exceeds global ${this.globalTokens.capacity} tokens/min`);
+    }
+    if (request.signal?.aborted) {
+      return this.reject(platform.id, 'aborted', 'aborted before dispatch');
+    }
+
+    // Fast path: nothing of equal or higher priority is waiting and capacity exists
+    const rank = PRIORITY_POLICIES[priority].rank;
+    const blocked = this.queue.some(w => PRIORITY_POLICIES[w.request.priority].rank >= rank);
+    if (!blocked && this.tryGrant(request)) {
+      return Promise.resolve();
+    }
+
+    const wait = this.estimateWait(request);
+    if (wait > PRIORITY_POLICIES[priority].maxWaitMs) {
+      return this.reject(platform.id, 'wait-exceeded',
+        `${priority} request would wait ~${wait}ms for capacity`);
+    }
+
+    if (priority === 'critical') this.preemptLowPriority();
+
+    if (this.queue.length >= this.maxQueueDepth && !this.evictLowerThan(rank)) {
+      return this.reject(platform.id, 'queue-full', 'rate-limit queue is full');
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        if (this.remove(waiter)) {
+          this.rejected.aborted++;
+          waiter.reject(new RateLimitError(platform.id, 'aborted', 'aborted while waiting for capacity'));
+        }
+      };
+      // However the wait ends, stop listening so long-lived signals do not collect listeners
+      const waiter: Waiter = {
+        request,
+        enqueuedAt: this.now(),
+        resolve: () => {
+          request.signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+        reject: (error) => {
+          request.signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      };
+      const index = this.queue.findIndex(w => PRIORITY_POLICIES[w.request.priority].rank < rank);
+      this.queue.splice(index < 0 ? this.queue.length : index, 0, waiter);
+
+      request.signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.schedule();
+    });
+  }
+
+  /**
+   * Reconcile the global token budget once actual usage is known
+   */
+  settle(estimatedTokens: number, actualTokens: number): void {
+    this.globalTokens?.adjust(estimatedTokens - actualTokens);
+  }
+
+  getStats(): RateLimiterStats {
+    const platforms: RateLimiterStats['platforms'] = {};
+    for (const [id, bucket] of this.platformBuckets) {
+      platforms[id] = { requestsAvailable: Math.floor(bucket.available()) };
+    }
+    return {
+      queued: this.queue.length,
+      granted: this.granted,
+      rejected: { ...this.rejected },
+      global: this.globalRequests && this.globalTokens
+        ? {
+          requestsAvailable: Math.floor(this.globalRequests.available()),
+          tokensAvailable: Math.floor(this.globalTokens.available())
+        }
+        : null,
+      platforms
+    };
+  }
+
+  // ========== INTERNALS ==========
+
+  private bucketFor(platform: MCPConnection): TokenBucket | null {
+    const rpm = platform.rateLimits?.requestsPerMinute;
+    if (!rpm) return null;
+
+    let bucket = this.platformBuckets.get(platform.id);
+    if (!bucket) {
+      bucket = new TokenBucket(rpm, MINUTE, this.now);
+      this.platformBuckets.set(platform.id, bucket);
+    }
+    return bucket;
+  }
+
+  private globalWait(tokens: number): number {
+    return Math.max(this.globalRequests?.timeUntil(1) ?? 0, this.globalTokens?.timeUntil(tokens) ?? 0);
+  }
+
+  private estimateWait(request: RateLimitRequest): number {
+    const platformWait = this.bucketFor(request.platform)?.timeUntil(1) ?? 0;
+    return Math.max(platformWait, this.globalWait(request.estimatedTokens));
+  }
+
+  private tryGrant(request: RateLimitRequest): boolean {
+    if (this.estimateWait(request) > 0) return false;
+
+    this.bucketFor(request.platform)?.tryTake(1);
+    this.globalRequests?.tryTake(1);
+    this.globalTokens?.tryTake(request.estimatedTokens);
+    this.granted++;
+    return true;
+  }
+
+  /**
+   * Serve waiters in priority order. A waiter blocked only by its own
+   * platform does not hold up others; one blocked by the global budget does.
+   */
+  private drain(): void {
+    this.timer = null;
+    const now = this.now();
+
+    for (const waiter of [...this.queue]) {
+      const { request } = waiter;
+      if (now - waiter.enqueuedAt > PRIORITY_POLICIES[request.priority].maxWaitMs) {
+        this.remove(waiter);
+        this.rejected['wait-exceeded']++;
+        waiter.reject(new RateLimitError(request.platform.id, 'wait-exceeded', `${request.priority} request waited too long`));
+        continue;
+      }
+      if (this.tryGrant(request)) {
+        this.remove(waiter);
+        waiter.resolve();
+        continue;
+      }
+      if (this.globalWait(request.estimatedTokens) > 0) break;
+    }
+
+    this.schedule();
+  }
+
+  private schedule(): void {
+    if (this.timer || this.queue.length === 0) return;
+    const now = this.now();
+    const next = Math.min(...this.queue.map(w => Math.min(
+      this.estimateWait(w.request),
+      w.enqueuedAt + PRIORITY_POLICIES[w.request.priority].maxWaitMs - now
+    )));
+    this.timer = setTimeout(() => this.drain(), Math.max(1, Math.min(next, MINUTE)));
+  }
+
+  private preemptLowPriority(): void {
+    for (const waiter of this.queue.filter(w => PRIORITY_POLICIES[w.request.priority].preemptible)) {
+      this.remove(waiter);
+      this.rejected.preempted++;
+      waiter.reject(new RateLimitError(waiter.request.platform.id, 'preempted', 'preempted by a critical task'));
+    }
+  }
+
+  private evictLowerThan(rank: number): boolean {
+    const victim = this.queue[this.queue.length - 1];
+    if (!victim || PRIORITY_POLICIES[victim.request.priority].rank >= rank) return false;
+
+    this.remove(victim);
+    this.rejected['queue-full']++;
+    victim.reject(new RateLimitError(victim.request.platform.id, 'queue-full', 'evicted by a higher-priority task'));
+    return true;
+  }
+
+  private remove(waiter: Waiter): boolean {
+    const index = this.queue.indexOf(waiter);
+    if (index < 0) return false;
+    this.queue.splice(index, 1);
+    if (this.queue.length === 0 && this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    return true;
+  }
+
+  private reject(platformId: string, reason: RateLimitReason, message: string): Promise<never> {
+    this.rejected[reason]++;
+    return Promise.reject(new RateLimitError(platformId, reason, message));
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Retry & Failover Policy
+ *
+ * Exponential backoff with jitter for platform calls, and the ordered
+ * failover chain built from `orchestration.taskRouting` and
+ * `orchestration.fallbackChain` in mcp.config.json.
+ */
+
+import { PlatformCallError } from './platformAdapters';
+
+export interface RetryPolicy {
+  /** Retries per platform after the first attempt */
+  retryAttempts: number;
+  /** Base delay in ms; doubles on every retry */
+  retryDelay: number;
+  /** Upper bound for a single delay in ms */
+  maxDelay: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retryAttempts: 3,
+  retryDelay: 1000,
+  maxDelay: 30_000
+};
+
+/**
+ * Delay before retry number `retry` (1-based), using "equal jitter":
+ * half of the exponential delay is fixed, the other half is random
+ *
+ * @example
+ * // retryDelay 1000 -> retry 1: 500-1000ms, retry 2: 1000-2000ms, retry 3: 2000-4000ms
+ * computeBackoffDelay(2, DEFAULT_RETRY_POLICY);
+ */
+export function computeBackoffDelay(
+  retry: number,
+  policy: Pick<RetryPolicy, 'retryDelay' | 'maxDelay'>,
+  random: () => number = Math.random
+): number {
+  const exponential = Math.min(policy.maxDelay, policy.retryDelay * 2 ** (retry - 1));
+  const half = exponential / 2;
+  return Math.round(half + random() * half);
+}
+
+/**
+ * Whether an error is worth retrying on the same platform. Adapter errors
+ * say so explicitly (network failures and 5xx are retryable); a rate-limit
+ * rejection moves on to the next platform; anything else is a configuration
+ * or programming error that a retry would only repeat.
+ */
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof PlatformCallError && error.retryable;
+}
+
+/**
+ * Ordered, de-duplicated platform ids to try: the selected platform first,
+ * then the task route, then the global fallback chain
+ */
+export function buildFailoverChain(primary: string, route: string[], fallbackChain: string[]): string[] {
+  return Array.from(new Set([primary, ...route, ...fallbackChain]));
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
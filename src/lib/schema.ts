@@ -0,0 +1,263 @@
+/**
+ * Runtime Schema Validation
+ *
+ * Minimal, dependency-free validators used to check untrusted JSON
+ * (configuration files, LLM output, DID documents) before it reaches
+ * typed code. Every failure is reported with the JSON path of the
+ * offending value, e.g. `$.orchestration.fallbackChain[2]`.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * A validator checks `value` and returns the typed value, or `undefined`
+ * after pushing one or more issues.
+ */
+export type Validator<T> = (value: unknown, path: string, issues: SchemaIssue[]) => T | undefined;
+
+export type Infer<V> = V extends Validator<infer T> ? T : never;
+
+export type ValidationResult<T> =
+  | { ok: true; value: T; issues: [] }
+  | { ok: false; value: undefined; issues: SchemaIssue[] };
+
+const OPTIONAL = Symbol('optional');
+
+type OptionalValidator<T> = Validator<T | undefined> & { [OPTIONAL]: true };
+
+type Shape = Record<string, Validator<unknown>>;
+
+type ShapeValue<S extends Shape> = {
+  [K in keyof S as S[K] extends OptionalValidator<unknown> ? never : K]: Infer<S[K]>;
+} & {
+  [K in keyof S as S[K] extends OptionalValidator<unknown> ? K : never]?: Infer<S[K]>;
+};
+
+// ============================================================================
+// PATH HELPERS
+// ============================================================================
+
+/**
+ * Append an object key or array index to a JSON path
+ *
+ * @example
+ * joinPath('$.taskRouting', 'code-generation'); // '$.taskRouting["code-generation"]'
+ * joinPath('$.fallbackChain', 2);               // '$.fallbackChain[2]'
+ */
+export function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+// ============================================================================
+// PRIMITIVES
+// ============================================================================
+
+export function string(options: { minLength?: number; pattern?: RegExp } = {}): Validator<string> {
+  return (value, path, issues) => {
+    if (typeof value !== 'string') {
+      issues.push({ path, message: `expected string, received ${describe(value)}` });
+      return undefined;
+    }
+    if (options.minLength !== undefined && value.length < options.minLength) {
+      issues.push({ path, message: `expected at least ${options.minLength} character(s)` });
+      return undefined;
+    }
+    if (options.pattern && !options.pattern.test(value)) {
+      issues.push({ path, message: `does not match ${options.pattern}` });
+      return undefined;
+    }
+    return value;
+  };
+}
+
+export function number(options: { min?: number; max?: number; integer?: boolean } = {}): Validator<number> {
+  return (value, path, issues) => {
+    if (typeof value !== 'number' || Number.isNaN(value)) {
+      issues.push({ path, message: `expected number, received ${describe(value)}` });
+      return undefined;
+    }
+    if (options.integer && !Number.isInteger(value)) {
+      issues.push({ path, message: 'expected integer' });
+      return undefined;
+    }
+    if (options.min !== undefined && value < options.min) {
+      issues.push({ path, message: `must be >= ${options.min}` });
+      return undefined;
+    }
+    if (options.max !== undefined && value > options.max) {
+      issues.push({ path, message: `must be <= ${options.max}` });
+      return undefined;
+    }
+    return value;
+  };
+}
+
+export function boolean(): Validator<boolean> {
+  return (value, path, issues) => {
+    if (typeof value !== 'boolean') {
+      issues.push({ path, message: `expected boolean, received ${describe(value)}` });
+      return undefined;
+    }
+    return value;
+  };
+}
+
+export function oneOf<const T extends readonly (string | number | boolean)[]>(values: T): Validator<T[number]> {
+  return (value, path, issues) => {
+    if (!values.includes(value as T[number])) {
+      issues.push({ path, message: `expected one of ${values.map(v => JSON.stringify(v)).join(', ')}` });
+      return undefined;
+    }
+    return value as T[number];
+  };
+}
+
+export function unknownValue(): Validator<unknown> {
+  return value => value;
+}
+
+// ============================================================================
+// COMPOSITES
+// ============================================================================
+
+export function optional<T>(inner: Validator<T>): OptionalValidator<T> {
+  const validator = ((value: unknown, path: string, issues: SchemaIssue[]) =>
+    value === undefined ? undefined : inner(value, path, issues)) as OptionalValidator<T>;
+  validator[OPTIONAL] = true;
+  return validator;
+}
+
+export function array<T>(item: Validator<T>, options: { minLength?: number } = {}): Validator<T[]> {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: `expected array, received ${describe(value)}` });
+      return undefined;
+    }
+    if (options.minLength !== undefined && value.length < options.minLength) {
+      issues.push({ path, message: `expected at least ${options.minLength} item(s)` });
+      return undefined;
+    }
+    const before = issues.length;
+    const result = value.map((entry, index) => item(entry, joinPath(path, index), issues));
+    return issues.length === before ? (result as T[]) : undefined;
+  };
+}
+
+export function record<T>(entry: Validator<T>): Validator<Record<string, T>> {
+  return (value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      issues.push({ path, message: `expected object, received ${describe(value)}` });
+      return undefined;
+    }
+    const before = issues.length;
+    const result: Record<string, T> = {};
+    for (const [key, raw] of Object.entries(value)) {
+      result[key] = entry(raw, joinPath(path, key), issues) as T;
+    }
+    return issues.length === before ? result : undefined;
+  };
+}
+
+/**
+ * Validate an object against a shape. Unknown keys are preserved so that
+ * documents carrying extension fields (`$schema`, vendor keys) still pass.
+ */
+export function object<S extends Shape>(shape: S): Validator<ShapeValue<S>> {
+  return (value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      issues.push({ path, message: `expected object, received ${describe(value)}` });
+      return undefined;
+    }
+    const input = value as Record<string, unknown>;
+    const before = issues.length;
+    const result: Record<string, unknown> = { ...input };
+
+    for (const [key, validator] of Object.entries(shape)) {
+      const isOptional = (validator as Partial<OptionalValidator<unknown>>)[OPTIONAL] === true;
+      if (input[key] === undefined && !isOptional) {
+        issues.push({ path: joinPath(path, key), message: 'is required' });
+        continue;
+      }
+      const parsed = validator(input[key], joinPath(path, key), issues);
+      if (parsed !== undefined) result[key] = parsed;
+    }
+
+    return issues.length === before ? (result as ShapeValue<S>) : undefined;
+  };
+}
+
+/**
+ * Accept the first alternative that validates, otherwise report a single
+ * summary issue at `path`
+ */
+export function union<T>(alternatives: Validator<T>[]): Validator<T> {
+  return (value, path, issues) => {
+    for (const alternative of alternatives) {
+      const scratch: SchemaIssue[] = [];
+      const parsed = alternative(value, path, scratch);
+      if (scratch.length === 0) return parsed;
+    }
+    issues.push({ path, message: 'does not match any allowed shape' });
+    return undefined;
+  };
+}
+
+/**
+ * Attach an extra check to a validator, e.g. cross-field constraints
+ */
+export function refine<T>(
+  inner: Validator<T>,
+  check: (value: T) => string | null
+): Validator<T> {
+  return (value, path, issues) => {
+    const parsed = inner(value, path, issues);
+    if (parsed === undefined) return undefined;
+    const problem = check(parsed);
+    if (problem) {
+      issues.push({ path, message: problem });
+      return undefined;
+    }
+    return parsed;
+  };
+}
+
+// ============================================================================
+// ENTRY POINT
+// ============================================================================
+
+/**
+ * Run a validator against a value rooted at `$`
+ *
+ * @example
+ * const result = validate(array(string()), ['a', 1]);
+ * // result.issues -> [{ path: '$[1]', message: 'expected string, received number' }]
+ */
+export function validate<T>(validator: Validator<T>, value: unknown, root = '$'): ValidationResult<T> {
+  const issues: SchemaIssue[] = [];
+  const parsed = validator(value, root, issues);
+  if (issues.length > 0 || parsed === undefined) {
+    return { ok: false, value: undefined, issues };
+  }
+  return { ok: true, value: parsed, issues: [] };
+}
+
+/**
+ * Render issues as a single human-readable message
+ */
+export function formatIssues(issues: SchemaIssue[]): string {
+  return issues.map(issue => `${issue.path}: ${issue.message}`).join('\n');
+}
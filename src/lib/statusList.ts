@@ -0,0 +1,317 @@
+/**
+ * Bitstring Status List
+ *
+ * Revocation and suspension of issued credentials. Each credential is given
+ * a random index into a bitstring of at least 131,072 entries (16 KB), so
+ * the published list reveals nothing about which credential is checked.
+ * A set bit means revoked (or suspended).
+ *
+ * The list is published as the `encodedList` of a
+ * BitstringStatusListCredential: the GZIP-compressed bitstring, base64url
+ * encoded with the multibase `u` prefix. Index 0 is the most significant
+ * bit of the first byte.
+ *
+ * @see https://www.w3.org/TR/vc-bitstring-status-list/
+ */
+
+import { ethers } from 'ethers';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type StatusPurpose = 'revocation' | 'suspension';
+
+/** Minimum list length, for herd privacy */
+export const MIN_STATUS_LIST_LENGTH = 131072;
+
+/** `credentialStatus` of a credential tracked by a status list */
+export interface BitstringStatusListEntry {
+  id: string;
+  type: 'BitstringStatusListEntry';
+  statusPurpose: StatusPurpose;
+  /** Decimal index into the list */
+  statusListIndex: string;
+  /** URL of the BitstringStatusListCredential */
+  statusListCredential: string;
+}
+
+/** `credentialSubject` of a BitstringStatusListCredential */
+export interface BitstringStatusListSubject {
+  id: string;
+  type: 'BitstringStatusList';
+  statusPurpose: StatusPurpose;
+  encodedList: string;
+}
+
+/** Persisted state of one list */
+export interface StatusListState {
+  length: number;
+  /** base64 status bits */
+  status: string;
+  /** base64 bits of the indexes handed out */
+  allocated: string;
+}
+
+export interface StatusListStore {
+  get(id: string): Promise<StatusListState | undefined>;
+  set(id: string, state: StatusListState): Promise<void>;
+}
+
+export interface StatusListOptions {
+  /** URL the BitstringStatusListCredential is published at */
+  id: string;
+  /** Default: 'revocation' */
+  statusPurpose?: StatusPurpose;
+  /** Number of entries (default and minimum: 131072) */
+  length?: number;
+  /** Default: in memory */
+  store?: StatusListStore;
+}
+
+// ============================================================================
+// STORES
+// ============================================================================
+
+export class MemoryStatusListStore implements StatusListStore {
+  private readonly lists = new Map<string, StatusListState>();
+
+  async get(id: string): Promise<StatusListState | undefined> {
+    return this.lists.get(id);
+  }
+
+  async set(id: string, state: StatusListState): Promise<void> {
+    this.lists.set(id, state);
+  }
+}
+
+/**
+ * All lists in one JSON file (Node.js only)
+ */
+export class JsonFileStatusListStore implements StatusListStore {
+  private lists: Record<string, StatusListState> | null = null;
+  private writing: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly path: string) {}
+
+  async get(id: string): Promise<StatusListState | undefined> {
+    return (await this.load())[id];
+  }
+
+  async set(id: string, state: StatusListState): Promise<void> {
+    (await this.load())[id] = state;
+    await this.flush();
+  }
+
+  private async load(): Promise<Record<string, StatusListState>> {
+    if (this.lists) return this.lists;
+    const { readFile } = await import(/* webpackIgnore: true */ 'node:fs/promises');
+    try {
+      this.lists = JSON.parse(await readFile(this.path, 'utf8'));
+    } catch (e: unknown) {
+      if ((e as { code?: string }).code !== 'ENOENT') throw e;
+      this.lists = {};
+    }
+    return this.lists!;
+  }
+
+  private flush(): Promise<void> {
+    // Serialize writes so a slow write cannot overwrite a newer one
+    const next = this.writing.then(async () => {
+      const { writeFile } = await import(/* webpackIgnore: true */ 'node:fs/promises');
+      await writeFile(this.path, JSON.stringify(this.lists), 'utf8');
+    });
+    this.writing = next.catch(() => undefined);
+    return next;
+  }
+}
+
+// ============================================================================
+// ENCODING
+// ============================================================================
+
+async function pipe(data: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const stream = new Blob([new Uint8Array(data)]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function toBase64url(data: Uint8Array): string {
+  return ethers.encodeBase64(data).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64url(text: string): Uint8Array {
+  const padded = text.replace(/-/g, '+').replace(/_/g, '/') + '='.repeat((4 - text.length % 4) % 4);
+  return ethers.decodeBase64(padded);
+}
+
+/**
+ * Encode a bitstring as an `encodedList`
+ */
+export async function encodeStatusList(bits: Uint8Array): Promise<string> {
+  return `u${toBase64url(await pipe(bits, new CompressionStream('gzip')))}`;
+}
+
+/**
+ * Decode an `encodedList` into its bitstring
+ *
+ * @throws Error when the value is not a multibase base64url GZIP bitstring
+ */
+export async function decodeStatusList(encodedList: string): Promise<Uint8Array> {
+  // Lists from before the multibase prefix was required are plain base64url
+  const body = encodedList.startsWith('u') ? encodedList.slice(1) : encodedList;
+  if (!/^[A-Za-z0-9_-]+$/.test(body)) throw new Error('encodedList is not base64url');
+  return pipe(fromBase64url(body), new DecompressionStream('gzip'));
+}
+
+/**
+ * Bit at an index; index 0 is the most significant bit of the first byte
+ *
+ * @throws RangeError when the index is outside the bitstring
+ */
+export function getStatusBit(bits: Uint8Array, index: number): boolean {
+  if (!Number.isInteger(index) || index < 0 || index >= bits.length * 8) {
+    throw new RangeError(`Status index ${index} is outside a list of ${bits.length * 8} entries`);
+  }
+  return (bits[index >> 3] & (0x80 >> (index & 7))) !== 0;
+}
+
+function setStatusBit(bits: Uint8Array, index: number, value: boolean): void {
+  getStatusBit(bits, index);
+  if (value) bits[index >> 3] |= 0x80 >> (index & 7);
+  else bits[index >> 3] &= ~(0x80 >> (index & 7));
+}
+
+// ============================================================================
+// STATUS LIST
+// ============================================================================
+
+interface ListState {
+  status: Uint8Array;
+  allocated: Uint8Array;
+  /** Number of allocated indexes */
+  used: number;
+}
+
+/**
+ * One status list: hands out indexes and flips their status
+ *
+ * @example
+ * const list = new StatusList({ id: 'https://identity.nobleport.io/status/revocation/1' });
+ * const index = await list.allocate();
+ * credential.credentialStatus = list.entry(index);
+ * await list.setStatus(index, true); // revoked
+ */
+export class StatusList {
+  readonly id: string;
+  readonly statusPurpose: StatusPurpose;
+  readonly length: number;
+  private readonly store: StatusListStore;
+  private state: Promise<ListState> | null = null;
+
+  constructor(options: StatusListOptions) {
+    const length = options.length ?? MIN_STATUS_LIST_LENGTH;
+    if (length < MIN_STATUS_LIST_LENGTH || length % 8 !== 0) {
+      throw new RangeError(`Status list length must be a multiple of 8 of at least ${MIN_STATUS_LIST_LENGTH}`);
+    }
+    this.id = options.id;
+    this.statusPurpose = options.statusPurpose ?? 'revocation';
+    this.length = length;
+    this.store = options.store ?? new MemoryStatusListStore();
+  }
+
+  /**
+   * Reserve an unused random index
+   *
+   * @throws Error when every index is taken
+   */
+  async allocate(): Promise<number> {
+    const state = await this.load();
+    if (state.used >= this.length) throw new Error(`Status list ${this.id} is full`);
+
+    const random = new DataView(ethers.randomBytes(4).buffer);
+    let index = random.getUint32(0) % this.length;
+    while (getStatusBit(state.allocated, index)) index = (index + 1) % this.length;
+
+    setStatusBit(state.allocated, index, true);
+    state.used++;
+    await this.save();
+    return index;
+  }
+
+  async getStatus(index: number): Promise<boolean> {
+    return getStatusBit((await this.load()).status, index);
+  }
+
+  /**
+   * Set (true: revoked or suspended) or clear an index's status
+   *
+   * @throws RangeError when the index was never allocated
+   */
+  async setStatus(index: number, value: boolean): Promise<void> {
+    const state = await this.load();
+    if (!getStatusBit(state.allocated, index)) {
+      throw new RangeError(`Status index ${index} was not allocated from ${this.id}`);
+    }
+    setStatusBit(state.status, index, value);
+    await this.save();
+  }
+
+  /**
+   * `credentialStatus` for a credential holding an index
+   */
+  entry(index: number): BitstringStatusListEntry {
+    return {
+      id: `${this.id}#${index}`,
+      type: 'BitstringStatusListEntry',
+      statusPurpose: this.statusPurpose,
+      statusListIndex: String(index),
+      statusListCredential: this.id
+    };
+  }
+
+  /**
+   * `credentialSubject` of the list's BitstringStatusListCredential
+   */
+  async subject(): Promise<BitstringStatusListSubject> {
+    return {
+      id: `${this.id}#list`,
+      type: 'BitstringStatusList',
+      statusPurpose: this.statusPurpose,
+      encodedList: await encodeStatusList((await this.load()).status)
+    };
+  }
+
+  private load(): Promise<ListState> {
+    // Concurrent callers share one read of the store
+    this.state ??= this.read().catch(e => {
+      this.state = null;
+      throw e;
+    });
+    return this.state;
+  }
+
+  private async read(): Promise<ListState> {
+    const saved = await this.store.get(this.id);
+    if (saved && saved.length !== this.length) {
+      throw new Error(`Stored status list ${this.id} has ${saved.length} entries, expected ${this.length}`);
+    }
+    const allocated = saved ? ethers.decodeBase64(saved.allocated) : new Uint8Array(this.length / 8);
+    return {
+      status: saved ? ethers.decodeBase64(saved.status) : new Uint8Array(this.length / 8),
+      allocated,
+      used: allocated.reduce((count, byte) => {
+        for (let b = byte; b; b &= b - 1) count++;
+        return count;
+      }, 0)
+    };
+  }
+
+  private async save(): Promise<void> {
+    const state = await this.load();
+    return this.store.set(this.id, {
+      length: this.length,
+      status: ethers.encodeBase64(state.status),
+      allocated: ethers.encodeBase64(state.allocated)
+    });
+  }
+}
@@ -9,8 +9,94 @@
  */
 
 import { ethers } from 'ethers';
-import { Resolver } from 'did-resolver';
-import { getResolver as getEnsResolver } from 'ens-did-resolver';
+import { DIDDocument, DIDResolutionResult, Resolvable } from 'did-resolver';
+import {
+  McpConfig,
+  OrchestrationSettings,
+  buildOrchestrationSettings,
+  loadMcpConfig,
+  loadMcpConfigFile
+} from './mcpConfig';
+import {
+  PlatformAdapter,
+  PlatformCallResult,
+  PlatformCallError,
+  PlatformStreamEvent,
+  buildTaskMessages,
+  createDefaultAdapters,
+  selectAdapter,
+  streamPlatformCall
+} from './platformAdapters';
+import {
+  DEFAULT_RETRY_POLICY,
+  RetryPolicy,
+  buildFailoverChain,
+  computeBackoffDelay,
+  isRetryableError,
+  sleep
+} from './retryPolicy';
+import {
+  LoadBalancer,
+  PlatformSelectionStats,
+  createLoadBalancer
+} from './loadBalancer';
+import {
+  RateLimiter,
+  RateLimiterStats,
+  estimateTaskTokens
+} from './rateLimiter';
+import {
+  HealthProber,
+  HealthSnapshot,
+  HealthState
+} from './healthProber';
+import { ModuleSyncOptions, syncModuleEndpoint } from './moduleSync';
+import { DidResolverOptions, createDidResolver } from './didResolvers';
+import { ResolutionCache, createDidDocumentCache, createResolutionCache } from './ensCache';
+import { EnsNetwork, EnsNetworkOptions, createEnsProvider, getEnsNetwork } from './ensNetworks';
+import { SubdomainPlan, SubdomainPlanOptions, planSubdomains } from './ensSubdomains';
+import {
+  DidAuthRequest,
+  DidAuthResult,
+  DidAuthSigner,
+  DidAuthVerifier,
+  NonceCache,
+  createDidAuthSigner
+} from './didAuth';
+import {
+  JsonlFileLedgerStore,
+  LedgerVerification,
+  TaskLedger,
+  TaskLedgerEntry,
+  TaskLedgerQuery,
+  createTaskId,
+  hashValue
+} from './taskLedger';
+import {
+  TaskType,
+  TaskValidationError,
+  TypedTaskRequest,
+  TypedTaskResponse,
+  extractJson,
+  parseTaskResult,
+  validateTaskContext
+} from './taskSchemas';
+import { formatIssues } from './schema';
+import {
+  ConsensusAnswer,
+  ConsensusOptions,
+  ConsensusSummary,
+  mergeAnswers
+} from './consensus';
+import {
+  ConfidenceOptions,
+  ConfidenceReport,
+  agreementSignal,
+  logprobSignal,
+  schemaSignal,
+  scoreConfidence,
+  withSignal
+} from './confidence';
 
 // ============================================================================
 // NOBLEPORT MODULE DEFINITIONS
@@ -64,6 +150,15 @@ export interface MCPConnection {
     requestsPerMinute: number;
     tokensPerRequest: number;
   };
+  /** Lower numbers are preferred (from mcp.config.json) */
+  priority?: number;
+  /** MCP server launch settings (from mcp.config.json) */
+  server?: {
+    key: string;
+    command: string;
+    args: string[];
+    env: Record<string, string>;
+  };
 }
 
 export const AI_PLATFORM_CONNECTIONS: MCPConnection[] = [
@@ -422,8 +517,43 @@ export const AI_PLATFORM_CONNECTIONS: MCPConnection[] = [
 export interface StephanieConfig {
   ensName: string;
   did: string;
+  /** Single RPC URL; shorthand for ensNetwork.rpcUrls */
   providerUrl?: string;
+  /** Network, RPC URLs and ENS registry (default: ENS_NETWORK / ENS_RPC_URLS, then mainnet Infura) */
+  ensNetwork?: EnsNetworkOptions;
   enabledPlatforms?: string[];
+  /** Pre-loaded configuration; takes precedence over mcpConfigPath */
+  mcpConfig?: McpConfig;
+  /** Path to an mcp.config.json to read at initialize() (server-side only) */
+  mcpConfigPath?: string;
+  /** Provider adapters, tried in order; defaults to MCP stdio + REST */
+  adapters?: PlatformAdapter[];
+  /** Overrides for orchestration.loadBalancing retry settings */
+  retryPolicy?: Partial<RetryPolicy>;
+  /** Overrides the balancer named by orchestration.loadBalancing.strategy */
+  loadBalancer?: LoadBalancer;
+  /** Overrides the limiter built from security.rateLimit and platform rateLimits */
+  rateLimiter?: RateLimiter;
+  /** Run background health probes every loadBalancing.healthCheckInterval (default: true) */
+  healthProbing?: boolean;
+  /** Overrides the DID resolver (e.g. fixtures for a mock module server) */
+  resolver?: Resolvable;
+  /** did:web / did:key / did:pkh settings for the default resolver (did:ens uses ensNetwork) */
+  didResolution?: Omit<DidResolverOptions, 'ens'>;
+  /** Cache for DID documents resolved by the default resolver (default: in-memory, 5 minute TTL) */
+  resolutionCache?: ResolutionCache;
+  /** Transport options for module sync handshakes */
+  moduleSync?: Pick<ModuleSyncOptions, 'fetch' | 'timeoutMs'>;
+  /** Overrides the task ledger (default: in-memory, or JSONL at ledgerPath) */
+  ledger?: TaskLedger;
+  /** JSONL file for the task ledger; falls back to STEPHANIE_LEDGER_PATH */
+  ledgerPath?: string;
+  /** Re-prompts allowed when a typed task's result fails validation (default: 2) */
+  resultValidationRetries?: number;
+  /** Evidence gathered for each response's confidence score */
+  confidence?: ConfidenceOptions;
+  /** secp256k1 key for DID-Auth request signing; falls back to STEPHANIE_DID_PRIVATE_KEY */
+  didAuthKey?: string;
 }
 
 export interface ModuleConnection {
@@ -431,8 +561,20 @@ export interface ModuleConnection {
   ens: string;
   did: string;
   status: 'connected' | 'disconnected' | 'pending';
+  /** Time of the last successful handshake */
   lastSync?: Date;
   capabilities: string[];
+  /** Platform ids that serve this module */
+  aiIntegrations?: string[];
+  /** Sync endpoint from the module's DID document */
+  endpoint?: string;
+  /** Module version reported by the last handshake */
+  version?: string;
+  /** Last-event cursor reported by the last handshake */
+  cursor?: string;
+  /** Expected capabilities the module did not advertise */
+  missingCapabilities?: string[];
+  lastError?: string;
 }
 
 export interface AITaskRequest {
@@ -441,47 +583,226 @@ export interface AITaskRequest {
   context: Record<string, unknown>;
   preferredPlatforms?: string[];
   requiredCapabilities?: string[];
+  /** orchestration.taskRouting entry to use; defaults from taskType */
+  route?: string;
+  /** NoblePort module key the task is run for (recorded in the ledger) */
+  module?: string;
+  /** DID of the requesting party; defaults to Stephanie's own DID */
+  callerDid?: string;
+  /** Validation issues from a previous response, fed back to the model */
+  repairFeedback?: string;
+  /** Fan out to several route platforms and merge their answers */
+  consensus?: ConsensusOptions;
+}
+
+/**
+ * Default orchestration.taskRouting entry for each task type
+ */
+export const TASK_TYPE_ROUTES: Record<AITaskRequest['taskType'], string> = {
+  analysis: 'document-analysis',
+  generation: 'investor-communication',
+  prediction: 'market-prediction',
+  communication: 'investor-communication',
+  compliance: 'compliance-review'
+};
+
+export interface TaskAttempt {
+  platform: string;
+  /** 1-based attempt number on this platform */
+  attempt: number;
+  status: 'success' | 'failed';
+  durationMs: number;
+  error?: string;
+  retryable?: boolean;
+  /** Backoff applied before the next attempt on the same platform */
+  retryDelayMs?: number;
+}
+
+/**
+ * Events yielded by streamTask. A `started` event opens each attempt; if a
+ * later `started` follows, deltas from the earlier attempt were abandoned
+ * (retry or failover). The stream always ends with `completed` or `failed`.
+ */
+export type TaskStreamEvent =
+  | { type: 'started'; taskId: string; platform: string; attempt: number }
+  | { type: 'delta'; taskId: string; platform: string; text: string }
+  | { type: 'tool-call'; taskId: string; platform: string; id?: string; name: string; arguments: unknown }
+  | { type: 'citation'; taskId: string; platform: string; url: string }
+  | { type: 'completed'; taskId: string; response: AITaskResponse }
+  | { type: 'failed'; taskId: string; error: string; attempts: TaskAttempt[] };
+
+export interface StreamTaskOptions {
+  /** Cancels the in-flight platform call; the stream ends with `failed` */
+  signal?: AbortSignal;
+}
+
+/** Bookkeeping for one executeTask/streamTask call */
+interface TaskRun {
+  taskId: string;
+  startedAt: Date;
+  attempts: TaskAttempt[];
+  estimatedTokens: number;
+  /** Stream platform output instead of waiting for the full call */
+  stream: boolean;
+  signal?: AbortSignal;
+  /** Run on this platform only, without failover (consensus members) */
+  pinned?: MCPConnection;
+}
+
+/**
+ * Run a task event generator to completion, discarding its events
+ */
+async function drain<R>(events: AsyncGenerator<TaskStreamEvent, R>): Promise<R> {
+  let next = await events.next();
+  while (!next.done) next = await events.next();
+  return next.value;
 }
 
 export interface AITaskResponse {
   taskId: string;
   platform: string;
   result: unknown;
+  /** 0-1, derived from the signals in confidenceReport */
   confidence: number;
+  /** How `confidence` was computed */
+  confidenceReport: ConfidenceReport;
   processingTime: number;
   citations?: string[];
+  attempts: TaskAttempt[];
+  /** Tokens budgeted against rate limits before dispatch */
+  estimatedTokens: number;
+  /** Per-model answers and disagreements, for consensus tasks */
+  consensus?: ConsensusSummary;
+}
+
+export interface HealthReport {
+  /**
+   * healthy: every module and platform is healthy
+   * degraded: all modules or all platforms are healthy, not both
+   * unhealthy: neither
+   */
+  overall: 'healthy' | 'degraded' | 'unhealthy';
+  modules: Record<string, HealthState>;
+  platforms: Record<string, HealthState>;
+  details: {
+    modules: Record<string, HealthSnapshot>;
+    platforms: Record<string, HealthSnapshot>;
+  };
+  lastProbeAt: string | null;
+}
+
+/**
+ * Raised when every platform in the failover chain has failed
+ */
+export class TaskExecutionError extends Error {
+  readonly attempts: TaskAttempt[];
+
+  constructor(message: string, attempts: TaskAttempt[]) {
+    super(message);
+    this.name = 'TaskExecutionError';
+    this.attempts = attempts;
+  }
 }
 
 export class StephanieAI {
   private config: StephanieConfig;
-  private provider: ethers.Provider | null = null;
-  private resolver: Resolver | null = null;
+  private provider: ethers.AbstractProvider | null = null;
+  private ensNetwork: EnsNetwork | null = null;
+  private initialized = false;
+  private resolver: Resolvable | null = null;
+  /** Same cache as resolver, without stale-while-revalidate; resolves signing keys */
+  private keyResolver: Resolvable | null = null;
   private moduleConnections: Map<string, ModuleConnection> = new Map();
   private platformConnections: Map<string, MCPConnection> = new Map();
+  private orchestration: OrchestrationSettings | null = null;
+  private adapters: PlatformAdapter[];
+  private loadBalancer: LoadBalancer;
+  private rateLimiter: RateLimiter;
+  private healthProber: HealthProber | null = null;
+  private ledger: TaskLedger;
+  private signer: DidAuthSigner | null;
+  private resolutionCache: ResolutionCache;
+  private replayCache = new NonceCache();
 
   constructor(config: StephanieConfig) {
     this.config = {
       ensName: config.ensName || NOBLEPORT_MODULES.STEPHANIE_ENS,
       did: config.did || NOBLEPORT_MODULES.STEPHANIE_DID,
       providerUrl: config.providerUrl,
-      enabledPlatforms: config.enabledPlatforms || AI_PLATFORM_CONNECTIONS.map(p => p.id)
+      ensNetwork: config.ensNetwork,
+      enabledPlatforms: config.enabledPlatforms,
+      mcpConfig: config.mcpConfig,
+      mcpConfigPath: config.mcpConfigPath,
+      retryPolicy: config.retryPolicy,
+      loadBalancer: config.loadBalancer,
+      rateLimiter: config.rateLimiter,
+      healthProbing: config.healthProbing,
+      resolver: config.resolver,
+      didResolution: config.didResolution,
+      resolutionCache: config.resolutionCache,
+      moduleSync: config.moduleSync,
+      ledger: config.ledger,
+      ledgerPath: config.ledgerPath,
+      resultValidationRetries: config.resultValidationRetries,
+      confidence: config.confidence
     };
+
+    // The key itself is not kept in this.config, which getStatus() exposes
+    const didAuthKey = config.didAuthKey || process.env.STEPHANIE_DID_PRIVATE_KEY;
+    this.signer = didAuthKey ? createDidAuthSigner({ did: this.config.did, privateKey: didAuthKey }) : null;
+
+    this.adapters = config.adapters || createDefaultAdapters({ signer: this.signer ?? undefined });
+    this.resolutionCache = config.resolutionCache || createResolutionCache({
+      blockNumber: async () => this.provider?.getBlockNumber() ?? null
+    });
+    this.loadBalancer = config.loadBalancer || createLoadBalancer('round-robin-with-priority');
+    this.rateLimiter = config.rateLimiter || new RateLimiter();
+
+    const ledgerPath = config.ledgerPath || process.env.STEPHANIE_LEDGER_PATH;
+    this.ledger = config.ledger || new TaskLedger(ledgerPath ? new JsonlFileLedgerStore(ledgerPath) : undefined);
   }
 
   // ========== INITIALIZATION ==========
 
   async initialize(): Promise<void> {
     // Initialize Ethereum provider
-    const providerUrl = this.config.providerUrl ||
-      `https://mainnet.infura.io/v3/${process.env.NEXT_PUBLIC_INFURA_ID || process.env.INFURA_PROJECT_ID}`;
-
-    this.provider = new ethers.JsonRpcProvider(providerUrl);
+    const network = getEnsNetwork({
+      ...(this.config.providerUrl ? { rpcUrls: [this.config.providerUrl] } : {}),
+      ...this.config.ensNetwork
+    });
+    // Without an RPC URL, did:ens resolution reports unknownNetwork
+    const provider = network.rpcUrls.length ? createEnsProvider(network) : undefined;
+    if (!provider) {
+      console.warn(`[Stephanie.ai] No RPC URL for ENS network ${network.name}: set INFURA_PROJECT_ID or ENS_RPC_URLS`);
+    }
+    this.provider = provider ?? null;
+    this.ensNetwork = network;
 
     // Initialize DID resolver
-    const ensResolver = getEnsResolver({
-      networks: [{ name: 'mainnet', provider: this.provider }]
-    });
-    this.resolver = new Resolver(ensResolver);
+    if (this.config.resolver) {
+      this.resolver = this.config.resolver;
+      this.keyResolver = this.config.resolver;
+    } else {
+      const resolverOptions = { ...this.config.didResolution, ens: { ...network, provider } };
+      this.resolver = createDidResolver({
+        cache: createDidDocumentCache(this.resolutionCache),
+        ...resolverOptions
+      });
+      this.keyResolver = createDidResolver({
+        cache: createDidDocumentCache(this.resolutionCache, { allowStale: false }),
+        ...resolverOptions
+      });
+    }
+
+    // Load orchestration settings from mcp.config.json
+    const mcpConfig = await this.loadConfig();
+    this.orchestration = buildOrchestrationSettings(mcpConfig, AI_PLATFORM_CONNECTIONS);
+    if (!this.config.loadBalancer) {
+      this.loadBalancer = createLoadBalancer(this.orchestration.loadBalancing.strategy);
+    }
+    if (!this.config.rateLimiter) {
+      this.rateLimiter = new RateLimiter({ global: this.orchestration.globalRateLimit });
+    }
 
     // Initialize module connections
     await this.initializeModuleConnections();
@@ -489,33 +810,77 @@ export class StephanieAI {
     // Initialize AI platform connections
     this.initializePlatformConnections();
 
+    // Start active health probing
+    this.healthProber = new HealthProber({
+      intervalMs: this.orchestration.loadBalancing.healthCheckInterval,
+      targets: () => ({
+        platforms: Array.from(this.platformConnections.keys()),
+        modules: Array.from(this.moduleConnections.keys())
+      }),
+      probePlatform: (id, signal) => this.probePlatform(id, signal),
+      probeModule: key => this.probeModule(key)
+    });
+    if (this.config.healthProbing !== false) {
+      this.healthProber.start();
+    }
+
+    this.initialized = true;
     console.log('[Stephanie.ai] Initialized successfully');
-    console.log(`[Stephanie.ai] Connected modules: ${this.moduleConnections.size}`);
+    const connectedModules = this.getConnectedModules().filter(m => m.status === 'connected').length;
+    console.log(`[Stephanie.ai] Connected modules: ${connectedModules}/${this.moduleConnections.size}`);
     console.log(`[Stephanie.ai] Connected AI platforms: ${this.platformConnections.size}`);
   }
 
+  /**
+   * Release adapter resources (e.g. spawned MCP server processes)
+   */
+  async shutdown(): Promise<void> {
+    this.healthProber?.stop();
+    await Promise.all(this.adapters.map(adapter => adapter.close?.()));
+  }
+
+  private async loadConfig(): Promise<McpConfig> {
+    if (this.config.mcpConfig) return this.config.mcpConfig;
+
+    const configPath = this.config.mcpConfigPath || process.env.STEPHANIE_MCP_CONFIG;
+    const mcpConfig = configPath ? await loadMcpConfigFile(configPath) : loadMcpConfig();
+
+    if (mcpConfig.unresolvedEnv.length > 0) {
+      console.warn(`[Stephanie.ai] Unset environment variables: ${mcpConfig.unresolvedEnv.join(', ')}`);
+    }
+    return mcpConfig;
+  }
+
   private async initializeModuleConnections(): Promise<void> {
     const modules = NOBLEPORT_MODULES.MODULES;
+    const configured = this.orchestration?.modules;
 
     for (const [key, ens] of Object.entries(modules)) {
+      const fromConfig = configured?.get(key);
       const moduleConnection: ModuleConnection = {
         module: key,
-        ens: ens,
-        did: `did:ens:${ens}`,
-        status: 'connected',
-        lastSync: new Date(),
-        capabilities: this.getModuleCapabilities(key)
+        ens: fromConfig?.ens ?? ens,
+        did: fromConfig?.did ?? `did:ens:${ens}`,
+        status: 'pending',
+        capabilities: fromConfig?.capabilities ?? this.getModuleCapabilities(key),
+        aiIntegrations: fromConfig?.aiIntegrations
       };
 
       this.moduleConnections.set(key, moduleConnection);
     }
+
+    // Handshake with every module in parallel; failures leave them pending/disconnected
+    await Promise.all(Array.from(this.moduleConnections.keys()).map(key => this.syncModule(key)));
   }
 
   private initializePlatformConnections(): void {
-    const enabledPlatforms = this.config.enabledPlatforms || [];
+    const enabledPlatforms = this.config.enabledPlatforms;
+    const platforms = this.orchestration
+      ? Array.from(this.orchestration.platforms.values())
+      : AI_PLATFORM_CONNECTIONS;
 
-    for (const platform of AI_PLATFORM_CONNECTIONS) {
-      if (enabledPlatforms.includes(platform.id)) {
+    for (const platform of platforms) {
+      if (!enabledPlatforms || enabledPlatforms.includes(platform.id)) {
         this.platformConnections.set(platform.id, platform);
       }
     }
@@ -550,57 +915,592 @@ export class StephanieAI {
     return this.moduleConnections.get(key);
   }
 
+  /**
+   * Resolve the module's DID document, read its sync endpoint and perform
+   * the handshake, resuming from the cursor of the previous sync
+   *
+   * @returns true when the module is connected
+   */
   async syncModule(moduleKey: string): Promise<boolean> {
     const module = this.moduleConnections.get(moduleKey);
     if (!module) return false;
 
-    // Simulate sync operation
-    module.lastSync = new Date();
-    module.status = 'connected';
-    this.moduleConnections.set(moduleKey, module);
+    let didDocument: DIDDocument | null = null;
+    let resolveError: string | undefined;
+    try {
+      const resolution = await this.resolveDid(module.did);
+      didDocument = resolution.didDocument;
+      resolveError = resolution.didResolutionMetadata.error;
+    } catch (e: unknown) {
+      resolveError = e instanceof Error ? e.message : String(e);
+    }
+
+    const result = await syncModuleEndpoint(module.did, didDocument, module.capabilities, module.cursor, {
+      clientDid: this.config.did,
+      signer: this.signer ?? undefined,
+      ...this.config.moduleSync
+    });
+
+    // The module may have moved its endpoint; re-resolve on the next sync
+    if (result.status === 'disconnected') {
+      await this.resolutionCache.invalidate(`doc:${module.did}`);
+    }
+
+    module.status = result.status;
+    module.endpoint = result.endpoint ?? module.endpoint;
+    module.lastError = didDocument ? result.error : resolveError ?? result.error;
+    if (result.handshake) {
+      module.version = result.handshake.version;
+      module.cursor = result.handshake.cursor;
+      module.missingCapabilities = result.missingCapabilities;
+      module.lastSync = new Date();
+    }
 
-    return true;
+    return result.status === 'connected';
+  }
+
+  /**
+   * Diff the module subnames against the chain and prepare the unsigned
+   * transactions that create them and set their records (see ensSubdomains.ts)
+   *
+   * @param options.endpoints - Sync endpoint per module key
+   * @param options.versions - Version per module key
+   *
+   * @example
+   * const plan = await stephanie.planModuleSubdomains({
+   *   endpoints: { AUTHORIZED_PARTICIPANTS: 'https://ap.nobleport.io' }
+   * });
+   * toSafeTransactionBatch(plan, multisigAddress);
+   */
+  async planModuleSubdomains(
+    options: Pick<SubdomainPlanOptions, 'owner' | 'resolver' | 'batchSize'> & {
+      endpoints?: Record<string, string>;
+      versions?: Record<string, string>;
+    } = {}
+  ): Promise<SubdomainPlan> {
+    if (!this.provider || !this.ensNetwork) {
+      throw new Error('Stephanie.ai has no ENS provider: call initialize() with an RPC URL configured');
+    }
+
+    const modules = Array.from(this.moduleConnections.values());
+    return planSubdomains(modules.map(module => ({
+      ens: module.ens,
+      endpoint: options.endpoints?.[module.module],
+      version: options.versions?.[module.module],
+      capabilities: module.capabilities
+    })), {
+      provider: this.provider,
+      registryAddress: this.ensNetwork.ensRegistry,
+      multicallAddress: this.ensNetwork.multicall,
+      parent: NOBLEPORT_MODULES.ROOT_ENS,
+      owner: options.owner,
+      resolver: options.resolver,
+      batchSize: options.batchSize
+    });
   }
 
   // ========== AI PLATFORM OPERATIONS ==========
 
   getConnectedPlatforms(): MCPConnection[] {
-    return Array.from(this.platformConnections.values());
+    return Array.from(this.platformConnections.values(), redactPlatform);
   }
 
   getPlatformById(id: string): MCPConnection | undefined {
-    return this.platformConnections.get(id);
+    const platform = this.platformConnections.get(id);
+    return platform && redactPlatform(platform);
   }
 
   getPlatformsByCapability(capability: string): MCPConnection[] {
     return Array.from(this.platformConnections.values())
-      .filter(p => p.capabilities.includes(capability));
+      .filter(p => p.capabilities.includes(capability))
+      .map(redactPlatform);
   }
 
   // ========== TASK ORCHESTRATION ==========
 
+  /**
+   * Run a task on the best platform, with retries and failover. Every task,
+   * successful or not, is appended to the task ledger before this returns;
+   * a failed ledger write is logged, not thrown.
+   */
   async executeTask(request: AITaskRequest): Promise<AITaskResponse> {
+    const run = this.createTaskRun(request, false);
+
+    let response: AITaskResponse;
+    try {
+      response = await drain(this.runTask(request, run));
+    } catch (e: unknown) {
+      await this.tryRecordTask(request, run, null, e);
+      throw e;
+    }
+
+    await this.tryRecordTask(request, run, response);
+    return response;
+  }
+
+  /**
+   * Run a task whose context and result are checked against TASK_SCHEMAS.
+   * Malformed or off-schema output is re-requested with the validation
+   * issues fed back to the model.
+   *
+   * @throws TaskValidationError when the context is invalid or no valid
+   * result arrives within resultValidationRetries re-prompts
+   */
+  async executeTypedTask<T extends TaskType>(request: TypedTaskRequest<T>): Promise<TypedTaskResponse<T>> {
+    const taskType = request.taskType as T;
+    const context = validateTaskContext(taskType, request.context);
+    if (!context.ok) {
+      throw new TaskValidationError(`Invalid ${taskType} task context:\n${formatIssues(context.issues)}`, context.issues);
+    }
+
+    const retries = this.config.resultValidationRetries ?? 2;
+    let attemptRequest = request as AITaskRequest;
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.executeTask(attemptRequest);
+      const parsed = parseTaskResult(taskType, response.result);
+      if (parsed.ok) {
+        const confidenceReport = withSignal(response.confidenceReport, schemaSignal(true, attempt));
+        return { ...response, result: parsed.value, confidence: confidenceReport.score, confidenceReport };
+      }
+
+      if (attempt >= retries) {
+        throw new TaskValidationError(
+          `${taskType} result failed validation after ${attempt + 1} response(s):\n${formatIssues(parsed.issues)}`,
+          parsed.issues,
+          response
+        );
+      }
+      attemptRequest = { ...attemptRequest, repairFeedback: formatIssues(parsed.issues) };
+    }
+  }
+
+  /**
+   * Run a task like executeTask, yielding output as the platform produces it
+   *
+   * @example
+   * for await (const event of stephanie.streamTask(request, { signal })) {
+   *   if (event.type === 'delta') render(event.text);
+   * }
+   */
+  async *streamTask(request: AITaskRequest, options: StreamTaskOptions = {}): AsyncGenerator<TaskStreamEvent, void> {
+    const run = this.createTaskRun(request, true, options.signal);
+    const events = this.runTask(request, run);
+    let settled = false;
+
+    try {
+      let response: AITaskResponse;
+      try {
+        let next = await events.next();
+        while (!next.done) {
+          yield next.value;
+          next = await events.next();
+        }
+        response = next.value;
+      } catch (e: unknown) {
+        settled = true;
+        await this.tryRecordTask(request, run, null, e);
+        yield {
+          type: 'failed',
+          taskId: run.taskId,
+          error: e instanceof Error ? e.message : String(e ?? 'aborted'),
+          attempts: run.attempts
+        };
+        return;
+      }
+
+      settled = true;
+      await this.tryRecordTask(request, run, response);
+      yield { type: 'completed', taskId: run.taskId, response };
+    } finally {
+      // The consumer stopped iterating mid-task
+      if (!settled) {
+        await events.return(undefined as never);
+        await this.tryRecordTask(request, run, null, new Error('stream closed by consumer'));
+      }
+    }
+  }
+
+  private createTaskRun(request: AITaskRequest, stream: boolean, signal?: AbortSignal): TaskRun {
+    return {
+      taskId: createTaskId(),
+      startedAt: new Date(),
+      attempts: [],
+      estimatedTokens: estimateTaskTokens(request),
+      stream,
+      signal
+    };
+  }
+
+  private async *runTask(request: AITaskRequest, run: TaskRun): AsyncGenerator<TaskStreamEvent, AITaskResponse> {
+    if (request.consensus && !run.pinned) {
+      return yield* this.runConsensus(request, request.consensus, run);
+    }
+
     // Find best platform for the task
-    const platform = this.selectBestPlatform(request);
+    const platform = run.pinned ?? this.selectBestPlatform(request);
 
     if (!platform) {
       throw new Error('No suitable AI platform found for the requested task');
     }
 
-    const startTime = Date.now();
+    const startTime = run.startedAt.getTime();
+    const policy = this.getRetryPolicy();
+    const { attempts, estimatedTokens } = run;
+
+    // Retry each platform with backoff, then fail over along the chain
+    for (const candidate of run.pinned ? [run.pinned] : this.getFailoverChain(platform, request)) {
+      for (let attempt = 1; attempt <= policy.retryAttempts + 1; attempt++) {
+        const attemptStart = Date.now();
+        let dispatched = false;
+        let finished = false;
+
+        try {
+          await this.rateLimiter.acquire({
+            platform: candidate,
+            priority: request.priority,
+            estimatedTokens,
+            signal: run.signal
+          });
+
+          dispatched = true;
+          this.loadBalancer.onStart(candidate.id);
+          this.healthProber?.beginCall(candidate.id);
+          yield { type: 'started', taskId: run.taskId, platform: candidate.id, attempt };
+
+          const result = run.stream
+            ? yield* this.streamPlatform(candidate, request, run)
+            : await this.callPlatform(candidate, request, run.signal);
+          finished = true;
+          this.loadBalancer.onFinish(candidate.id, true);
+          this.healthProber?.recordPlatformResult(candidate.id, true, Date.now() - attemptStart);
+
+          if (result.usage) {
+            this.rateLimiter.settle(estimatedTokens, result.usage.promptTokens + result.usage.completionTokens);
+          }
+          attempts.push({
+            platform: candidate.id,
+            attempt,
+            status: 'success',
+            durationMs: Date.now() - attemptStart
+          });
+
+          const confidenceReport = await this.assessConfidence(candidate, request, run, result);
+
+          return {
+            taskId: run.taskId,
+            platform: candidate.id,
+            result: result.output,
+            confidence: confidenceReport.score,
+            confidenceReport,
+            processingTime: Date.now() - startTime,
+            citations: result.citations,
+            attempts,
+            estimatedTokens
+          };
+        } catch (e: unknown) {
+          const retryable = isRetryableError(e);
+          const failed: TaskAttempt = {
+            platform: candidate.id,
+            attempt,
+            status: 'failed',
+            durationMs: Date.now() - attemptStart,
+            error: e instanceof Error ? e.message : String(e),
+            retryable
+          };
+          attempts.push(failed);
+
+          if (dispatched) {
+            finished = true;
+            this.loadBalancer.onFinish(candidate.id, false);
+            if (!run.signal?.aborted) {
+              this.healthProber?.recordPlatformResult(candidate.id, false, failed.durationMs, failed.error);
+            }
+          }
+
+          // Cancellation is not a platform failure worth retrying
+          if (run.signal?.aborted) throw run.signal.reason ?? e;
+
+          // Stop hammering a platform whose circuit just opened
+          if (!this.isPlatformAvailable(candidate.id)) break;
+
+          if (!retryable || attempt > policy.retryAttempts) break;
+
+          failed.retryDelayMs = computeBackoffDelay(attempt, policy);
+          await sleep(failed.retryDelayMs, run.signal);
+        } finally {
+          // A streaming consumer can stop iterating while the call is in flight
+          if (dispatched && !finished) this.loadBalancer.onFinish(candidate.id, false);
+        }
+      }
+
+      console.warn(`[Stephanie.ai] ${candidate.id} failed for ${request.taskType} task, failing over`);
+    }
+
+    throw new TaskExecutionError(
+      `All platforms failed for ${request.taskType} task after ${attempts.length} attempt(s)`,
+      attempts
+    );
+  }
+
+  /**
+   * Run the task on K platforms in parallel (each with retries but no
+   * failover), validate every answer and merge the valid ones
+   */
+  private async *runConsensus(
+    request: AITaskRequest,
+    options: ConsensusOptions,
+    run: TaskRun
+  ): AsyncGenerator<TaskStreamEvent, AITaskResponse> {
+    const strategy = options.strategy ?? 'majority';
+    const members = this.selectConsensusPlatforms(request, options.platforms ?? 2);
+    const minResponses = options.minResponses ?? Math.min(2, options.platforms ?? 2);
+    if (members.length < minResponses) {
+      throw new Error(`Consensus needs ${minResponses} platform(s); ${members.length} available for ${request.taskType}`);
+    }
+
+    const outcomes = await Promise.all(members.map(async platform => {
+      const memberRun: TaskRun = { ...run, attempts: [], stream: false, pinned: platform };
+      try {
+        return { platform, memberRun, response: await drain(this.runTask(request, memberRun)) };
+      } catch (e: unknown) {
+        return { platform, memberRun, error: e instanceof Error ? e.message : String(e) };
+      }
+    }));
+
+    const answers: ConsensusAnswer[] = outcomes.map(outcome => {
+      run.attempts.push(...outcome.memberRun.attempts);
+      if (!outcome.response) {
+        return { platform: outcome.platform.id, result: null, confidence: null, weight: 0, error: outcome.error };
+      }
+
+      const { confidence, result } = outcome.response;
+      const parsed = parseTaskResult(request.taskType, result);
+      return {
+        platform: outcome.platform.id,
+        result: parsed.ok ? parsed.value : result,
+        confidence,
+        weight: options.weights?.[outcome.platform.id] ?? confidence,
+        error: parsed.ok ? undefined : `result does not match the ${request.taskType} schema: ${formatIssues(parsed.issues)}`
+      };
+    });
+
+    const valid = answers.filter(a => !a.error);
+    if (valid.length < minResponses) {
+      throw new TaskExecutionError(
+        `Consensus for ${request.taskType} task got ${valid.length} valid answer(s), needs ${minResponses}`,
+        run.attempts
+      );
+    }
 
-    // Execute task (placeholder for actual API calls)
-    const result = await this.callPlatform(platform, request);
+    const merged = mergeAnswers(valid, strategy);
+    const confidenceReport = scoreConfidence([
+      agreementSignal('cross-platform', merged.result, valid.map(a => ({ label: a.platform, output: a.result }))),
+      schemaSignal(parseTaskResult(request.taskType, merged.result).ok)
+    ]);
+    const responses = outcomes.flatMap(o => (o.response ? [o.response] : []));
 
     return {
-      taskId: `task_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      platform: platform.id,
-      result,
-      confidence: 0.95,
-      processingTime: Date.now() - startTime
+      taskId: run.taskId,
+      platform: valid.map(a => a.platform).join('+'),
+      result: merged.result,
+      confidence: confidenceReport.score,
+      confidenceReport,
+      processingTime: Date.now() - run.startedAt.getTime(),
+      citations: Array.from(new Set(responses.flatMap(r => r.citations ?? []))),
+      attempts: run.attempts,
+      estimatedTokens: responses.reduce((sum, r) => sum + r.estimatedTokens, 0),
+      consensus: {
+        strategy,
+        platforms: members.map(p => p.id),
+        answers,
+        disagreements: merged.disagreements,
+        requiresHumanReview: merged.disagreements.length > 0
+      }
     };
   }
 
+  /**
+   * Up to `count` active platforms for a consensus run: preferred platforms
+   * (that meet requiredCapabilities) first, then the task route in order.
+   * Route membership is itself a qualification for the route's task.
+   */
+  private selectConsensusPlatforms(request: AITaskRequest, count: number): MCPConnection[] {
+    const { preferredPlatforms = [], requiredCapabilities = [] } = request;
+    const capable = (p: MCPConnection) => requiredCapabilities.every(cap => p.capabilities.includes(cap));
+    const route = this.getTaskRoute(request);
+
+    const ids = Array.from(new Set([...preferredPlatforms, ...route]));
+    return ids
+      .map(id => this.platformConnections.get(id))
+      .filter((p): p is MCPConnection =>
+        p !== undefined && p.status === 'active' && this.isPlatformAvailable(p.id) &&
+        (route.includes(p.id) || capable(p)))
+      .slice(0, count);
+  }
+
+  /**
+   * Score a result from the evidence available: provider logprobs, extra
+   * samples on the same platform, answers from other route platforms and
+   * the task's result schema (see ConfidenceOptions)
+   */
+  private async assessConfidence(
+    platform: MCPConnection,
+    request: AITaskRequest,
+    run: TaskRun,
+    result: PlatformCallResult
+  ): Promise<ConfidenceReport> {
+    const options = this.config.confidence ?? {};
+    const normalize = (output: unknown) => (typeof output === 'string' ? extractJson(output) ?? output : output);
+    const answer = normalize(result.output);
+
+    const samplePlatforms = Array.from({ length: Math.max(0, (options.samples ?? 1) - 1) }, () => platform);
+    const peers = (options.crossCheckPlatforms ?? 0) > 0
+      ? this.getFailoverChain(platform, request).filter(p => p.id !== platform.id).slice(0, options.crossCheckPlatforms)
+      : [];
+
+    const [samples, peerOutputs] = await Promise.all([
+      Promise.all(samplePlatforms.map(p => this.sampleOutput(p, request, run))),
+      Promise.all(peers.map(p => this.sampleOutput(p, request, run)))
+    ]);
+
+    return scoreConfidence([
+      logprobSignal(result.logprobs),
+      agreementSignal('self-consistency', answer, samples
+        .map((output, i) => ({ label: `sample ${i + 2}`, output: normalize(output) }))
+        .filter(s => s.output !== undefined)),
+      agreementSignal('cross-platform', answer, peers
+        .map((p, i) => ({ label: p.id, output: normalize(peerOutputs[i]) }))
+        .filter(s => s.output !== undefined)),
+      schemaSignal(parseTaskResult(request.taskType, result.output).ok)
+    ]);
+  }
+
+  /**
+   * One extra call used only as confidence evidence; failures are ignored
+   */
+  private async sampleOutput(platform: MCPConnection, request: AITaskRequest, run: TaskRun): Promise<unknown> {
+    try {
+      await this.rateLimiter.acquire({
+        platform,
+        priority: request.priority,
+        estimatedTokens: run.estimatedTokens,
+        signal: run.signal
+      });
+      const result = await this.callPlatform(platform, request, run.signal);
+      if (result.usage) {
+        this.rateLimiter.settle(run.estimatedTokens, result.usage.promptTokens + result.usage.completionTokens);
+      }
+      return result.output;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async recordTask(
+    request: AITaskRequest,
+    run: TaskRun,
+    response: AITaskResponse | null,
+    error?: unknown
+  ): Promise<void> {
+    const completedAt = new Date();
+    await this.ledger.append({
+      taskId: run.taskId,
+      taskType: request.taskType,
+      priority: request.priority,
+      route: request.route || TASK_TYPE_ROUTES[request.taskType],
+      module: request.module ?? null,
+      callerDid: request.callerDid || this.config.did,
+      platform: response?.platform ?? null,
+      status: response ? 'success' : 'failed',
+      request,
+      result: response?.result ?? null,
+      citations: response?.citations ?? [],
+      attempts: run.attempts,
+      promptHash: hashValue(buildTaskMessages(request)),
+      estimatedTokens: run.estimatedTokens,
+      error: response ? null : error instanceof Error ? error.message : String(error),
+      startedAt: run.startedAt.toISOString(),
+      completedAt: completedAt.toISOString(),
+      processingTime: response?.processingTime ?? completedAt.getTime() - run.startedAt.getTime()
+    });
+  }
+
+  // A ledger write failing must neither discard a completed response nor
+  // replace the error the task failed with
+  private async tryRecordTask(
+    request: AITaskRequest,
+    run: TaskRun,
+    response: AITaskResponse | null,
+    error?: unknown
+  ): Promise<void> {
+    try {
+      await this.recordTask(request, run, response, error);
+    } catch (ledgerError: unknown) {
+      const reason = ledgerError instanceof Error ? ledgerError.message : String(ledgerError);
+      console.warn(`[Stephanie.ai] Could not record ${response ? 'completed' : 'failed'} task ${run.taskId}: ${reason}`);
+    }
+  }
+
+  private getRetryPolicy(): RetryPolicy {
+    const loadBalancing = this.orchestration?.loadBalancing;
+    return {
+      ...DEFAULT_RETRY_POLICY,
+      ...(loadBalancing && {
+        retryAttempts: loadBalancing.retryAttempts,
+        retryDelay: loadBalancing.retryDelay
+      }),
+      ...this.config.retryPolicy
+    };
+  }
+
+  /**
+   * Platforms to try in order: the selected one, the task route, then the
+   * fallback chain. Only connected, active platforms with the task's
+   * required capabilities are included, as in selectBestPlatform().
+   */
+  private getFailoverChain(primary: MCPConnection, request: AITaskRequest): MCPConnection[] {
+    const { requiredCapabilities = [] } = request;
+    const ids = buildFailoverChain(
+      primary.id,
+      this.getTaskRoute(request),
+      this.orchestration?.fallbackChain ?? []
+    );
+
+    return ids
+      .map(id => this.platformConnections.get(id))
+      .filter((p): p is MCPConnection =>
+        p !== undefined && p.status === 'active' && this.isPlatformAvailable(p.id) &&
+        requiredCapabilities.every(cap => p.capabilities.includes(cap)));
+  }
+
+  /**
+   * False while the platform's circuit breaker is open
+   */
+  private isPlatformAvailable(id: string): boolean {
+    return this.healthProber?.isAvailable(id) ?? true;
+  }
+
+  private async probePlatform(id: string, signal: AbortSignal): Promise<void> {
+    const platform = this.platformConnections.get(id);
+    if (!platform || platform.status !== 'active') {
+      throw new Error(`Platform ${id} is ${platform?.status ?? 'not connected'}`);
+    }
+
+    const adapter = selectAdapter(this.adapters, platform);
+    if (!adapter) {
+      throw new PlatformCallError(platform.id, `No adapter available for ${platform.id} (protocol: ${platform.protocol})`);
+    }
+    await adapter.probe?.(platform, signal);
+  }
+
+  private async probeModule(key: string): Promise<void> {
+    if (!(await this.syncModule(key))) {
+      const module = this.moduleConnections.get(key);
+      throw new Error(module?.lastError || `Module ${key} is ${module?.status ?? 'not connected'}`);
+    }
+  }
+
   private selectBestPlatform(request: AITaskRequest): MCPConnection | null {
     const { preferredPlatforms, requiredCapabilities } = request;
 
@@ -613,84 +1513,178 @@ export class StephanieAI {
       );
     }
 
-    // Prefer specified platforms
+    const active = candidates.filter(p => p.status === 'active' && this.isPlatformAvailable(p.id));
+
+    // Balance across preferred platforms, else the configured task route
     if (preferredPlatforms && preferredPlatforms.length > 0) {
-      const preferred = candidates.find(p => preferredPlatforms.includes(p.id));
-      if (preferred) return preferred;
+      const preferred = active.filter(p => preferredPlatforms.includes(p.id));
+      if (preferred.length > 0) return this.loadBalancer.select(preferred);
     }
 
-    // Return first available active platform
-    return candidates.find(p => p.status === 'active') || null;
-  }
+    const route = this.getTaskRoute(request);
+    const routed = active.filter(p => route.includes(p.id));
+    if (routed.length > 0) return this.loadBalancer.select(routed);
 
-  private async callPlatform(platform: MCPConnection, request: AITaskRequest): Promise<unknown> {
-    // This is a placeholder for actual MCP/API calls
-    // In production, this would make real API calls to the respective platforms
+    const fallback = active.find(p => p.id === this.orchestration?.defaultPlatform);
+    if (fallback) return this.loadBalancer.select([fallback]);
 
-    console.log(`[Stephanie.ai] Executing task on ${platform.name}`);
-    console.log(`[Stephanie.ai] Task type: ${request.taskType}`);
-    console.log(`[Stephanie.ai] Endpoint: ${platform.endpoint}`);
+    return this.loadBalancer.select(active);
+  }
+
+  /**
+   * Ordered platform ids configured for the request's task route
+   */
+  getTaskRoute(request: AITaskRequest): string[] {
+    const route = request.route || TASK_TYPE_ROUTES[request.taskType];
+    return this.orchestration?.taskRouting[route] ?? [];
+  }
 
+  /** Orchestration settings, with MCP server environments (API keys) redacted */
+  getOrchestrationSettings(): OrchestrationSettings | null {
+    if (!this.orchestration) return null;
     return {
-      status: 'success',
-      platform: platform.name,
-      taskType: request.taskType,
-      timestamp: new Date().toISOString()
+      ...this.orchestration,
+      platforms: new Map(Array.from(this.orchestration.platforms, ([id, platform]) => [id, redactPlatform(platform)]))
     };
   }
 
+  private async callPlatform(platform: MCPConnection, request: AITaskRequest, signal?: AbortSignal): Promise<PlatformCallResult> {
+    const adapter = selectAdapter(this.adapters, platform);
+    if (!adapter) {
+      throw new PlatformCallError(platform.id, `No adapter available for ${platform.id} (protocol: ${platform.protocol})`);
+    }
+
+    return adapter.call({
+      platform,
+      task: request,
+      messages: buildTaskMessages(request),
+      signal,
+      logprobs: this.config.confidence?.logprobs
+    });
+  }
+
+  /**
+   * Stream one platform call, re-tagging adapter events for the task
+   *
+   * @returns The final call result
+   */
+  private async *streamPlatform(
+    platform: MCPConnection,
+    request: AITaskRequest,
+    run: TaskRun
+  ): AsyncGenerator<TaskStreamEvent, PlatformCallResult> {
+    const adapter = selectAdapter(this.adapters, platform);
+    if (!adapter) {
+      throw new PlatformCallError(platform.id, `No adapter available for ${platform.id} (protocol: ${platform.protocol})`);
+    }
+
+    const events: AsyncIterable<PlatformStreamEvent> = streamPlatformCall(adapter, {
+      platform,
+      task: request,
+      messages: buildTaskMessages(request),
+      signal: run.signal,
+      logprobs: this.config.confidence?.logprobs
+    });
+
+    for await (const event of events) {
+      if (event.type === 'done') return event.result;
+      yield { ...event, taskId: run.taskId, platform: platform.id };
+    }
+    throw new PlatformCallError(platform.id, 'stream ended without a result', { retryable: true });
+  }
+
   // ========== PORTFOLIO ANALYSIS ==========
 
-  async analyzePortfolio(portfolioData: unknown): Promise<AITaskResponse> {
-    return this.executeTask({
+  async analyzePortfolio(portfolioData: unknown): Promise<TypedTaskResponse<'analysis'>> {
+    return this.executeTypedTask({
       taskType: 'analysis',
       priority: 'high',
       context: { portfolioData },
-      requiredCapabilities: ['portfolio-insights', 'data-analysis'],
+      module: 'PORTFOLIO_MANAGER',
+      // No platform has both portfolio-insights and data-analysis; the
+      // analysis task route picks among the platforms that analyze documents
       preferredPlatforms: ['claude-mcp', 'openai-chatgpt']
     });
   }
 
-  async predictMarketTrends(marketData: unknown): Promise<AITaskResponse> {
-    return this.executeTask({
+  async predictMarketTrends(marketData: unknown): Promise<TypedTaskResponse<'prediction'>> {
+    return this.executeTypedTask({
       taskType: 'prediction',
       priority: 'high',
       context: { marketData },
+      module: 'ORACLE_NETWORK',
       requiredCapabilities: ['real-time-data', 'trend-prediction'],
       preferredPlatforms: ['xai-grok', 'perplexity-ai']
     });
   }
 
-  async generateInvestorReport(investorId: string, period: string): Promise<AITaskResponse> {
-    return this.executeTask({
+  async generateInvestorReport(investorId: string, period: string): Promise<TypedTaskResponse<'generation'>> {
+    return this.executeTypedTask(this.investorReportRequest(investorId, period));
+  }
+
+  /**
+   * Streamed generateInvestorReport, for rendering long reports as they arrive
+   */
+  streamInvestorReport(investorId: string, period: string, options?: StreamTaskOptions): AsyncGenerator<TaskStreamEvent, void> {
+    return this.streamTask(this.investorReportRequest(investorId, period), options);
+  }
+
+  private investorReportRequest(investorId: string, period: string): TypedTaskRequest<'generation'> {
+    return {
       taskType: 'generation',
       priority: 'medium',
       context: { investorId, period },
+      module: 'INVESTOR_PORTAL',
       requiredCapabilities: ['document-analysis', 'natural-language-processing'],
       preferredPlatforms: ['claude-mcp', 'openai-chatgpt']
-    });
+    };
   }
 
-  async reviewCompliance(documentData: unknown): Promise<AITaskResponse> {
-    return this.executeTask({
+  async reviewCompliance(documentData: unknown): Promise<TypedTaskResponse<'compliance'>> {
+    return this.executeTypedTask({
       taskType: 'compliance',
       priority: 'critical',
       context: { documentData },
+      module: 'COMPLIANCE_ENGINE',
       requiredCapabilities: ['compliance-review', 'document-analysis'],
-      preferredPlatforms: ['claude-mcp']
+      preferredPlatforms: ['claude-mcp'],
+      consensus: { platforms: 2, strategy: 'weighted' }
     });
   }
 
+  // ========== AUDIT TRAIL ==========
+
+  getTaskLedger(): TaskLedger {
+    return this.ledger;
+  }
+
+  /**
+   * Ledger entries by task type, module, platform, caller or date range
+   */
+  async queryTaskLedger(query: TaskLedgerQuery = {}): Promise<TaskLedgerEntry[]> {
+    return this.ledger.query(query);
+  }
+
+  /**
+   * Check the ledger's hash chain for tampering
+   */
+  async verifyTaskLedger(): Promise<LedgerVerification> {
+    return this.ledger.verify();
+  }
+
   // ========== DID / IDENTITY OPERATIONS ==========
 
-  async resolveDid(did: string): Promise<unknown> {
+  /**
+   * Resolve a did:ens, did:web, did:key or did:pkh DID
+   */
+  async resolveDid(did: string): Promise<DIDResolutionResult> {
     if (!this.resolver) {
       throw new Error('Resolver not initialized');
     }
     return this.resolver.resolve(did);
   }
 
-  async resolveModuleDid(moduleKey: string): Promise<unknown> {
+  async resolveModuleDid(moduleKey: string): Promise<DIDResolutionResult> {
     const module = this.moduleConnections.get(moduleKey);
     if (!module) {
       throw new Error(`Module ${moduleKey} not found`);
@@ -698,6 +1692,49 @@ export class StephanieAI {
     return this.resolveDid(module.did);
   }
 
+  /**
+   * Cache behind the default DID resolver (e.g. to invalidate a DID after
+   * its document changed)
+   */
+  getResolutionCache(): ResolutionCache {
+    return this.resolutionCache;
+  }
+
+  /**
+   * Signer for outbound DID-Auth requests, or null when no key is configured
+   */
+  getDidAuthSigner(): DidAuthSigner | null {
+    return this.signer;
+  }
+
+  /**
+   * Verify a DID-Auth token on a request addressed to Stephanie. The issuer
+   * DID is resolved through the resolution cache, but a document past its
+   * TTL is reloaded rather than served stale, so a rotated-out key stops
+   * verifying; nonces are remembered so each token is accepted once.
+   *
+   * @param token - Compact JWS (see parseAuthorization for header values)
+   * @throws DidAuthError when the token does not verify
+   *
+   * @example
+   * const token = parseAuthorization(req.headers.authorization);
+   * const { did } = await stephanie.verifyDidAuth(token, { method: 'POST', url, body });
+   */
+  async verifyDidAuth(token: string | null | undefined, request: DidAuthRequest): Promise<DidAuthResult> {
+    const verifier = new DidAuthVerifier({
+      resolve: async did => {
+        if (!this.keyResolver) {
+          throw new Error('Resolver not initialized');
+        }
+        return this.keyResolver.resolve(did);
+      },
+      audience: this.config.did,
+      didMethods: this.orchestration?.didAuthMethods,
+      replayCache: this.replayCache
+    });
+    return verifier.verify(token, request);
+  }
+
   // ========== STATUS & HEALTH ==========
 
   getStatus(): {
@@ -705,31 +1742,48 @@ export class StephanieAI {
     modules: number;
     platforms: number;
     config: StephanieConfig;
+    loadBalancing: {
+      strategy: string;
+      platforms: Record<string, PlatformSelectionStats>;
+    };
+    rateLimits: RateLimiterStats;
   } {
     return {
-      initialized: this.provider !== null,
+      initialized: this.initialized,
       modules: this.moduleConnections.size,
       platforms: this.platformConnections.size,
-      config: this.config
+      // The MCP config carries ${ENV}-expanded API keys
+      config: { ...this.config, mcpConfig: undefined },
+      loadBalancing: {
+        strategy: this.loadBalancer.strategy,
+        platforms: this.loadBalancer.getStats()
+      },
+      rateLimits: this.rateLimiter.getStats()
     };
   }
 
-  async healthCheck(): Promise<{
-    overall: 'healthy' | 'degraded' | 'unhealthy';
-    modules: Record<string, 'healthy' | 'unhealthy'>;
-    platforms: Record<string, 'healthy' | 'unhealthy'>;
-  }> {
-    const moduleHealth: Record<string, 'healthy' | 'unhealthy'> = {};
-    const platformHealth: Record<string, 'healthy' | 'unhealthy'> = {};
+  async healthCheck(): Promise<HealthReport> {
+    const prober = this.healthProber;
+    if (prober && prober.lastProbeAt === null) {
+      await prober.probeAll();
+    }
+
+    const moduleDetails: Record<string, HealthSnapshot> = {};
+    const platformDetails: Record<string, HealthSnapshot> = {};
+    const moduleHealth: Record<string, HealthState> = {};
+    const platformHealth: Record<string, HealthState> = {};
 
     for (const [key, module] of this.moduleConnections) {
-      moduleHealth[key] = module.status === 'connected' ? 'healthy' : 'unhealthy';
+      moduleDetails[key] = prober?.getModuleHealth(key) ?? staticSnapshot(module.status === 'connected');
+      moduleHealth[key] = moduleDetails[key].state;
     }
 
     for (const [id, platform] of this.platformConnections) {
-      platformHealth[id] = platform.status === 'active' ? 'healthy' : 'unhealthy';
+      platformDetails[id] = prober?.getPlatformHealth(id) ?? staticSnapshot(platform.status === 'active');
+      platformHealth[id] = platformDetails[id].state;
     }
 
+    // A degraded module or platform counts against its side being healthy
     const allModulesHealthy = Object.values(moduleHealth).every(h => h === 'healthy');
     const allPlatformsHealthy = Object.values(platformHealth).every(h => h === 'healthy');
 
@@ -737,11 +1791,41 @@ export class StephanieAI {
       overall: allModulesHealthy && allPlatformsHealthy ? 'healthy' :
                allModulesHealthy || allPlatformsHealthy ? 'degraded' : 'unhealthy',
       modules: moduleHealth,
-      platforms: platformHealth
+      platforms: platformHealth,
+      details: {
+        modules: moduleDetails,
+        platforms: platformDetails
+      },
+      lastProbeAt: prober?.lastProbeAt ?? null
     };
   }
 }
 
+/**
+ * Health derived from static status, used before initialize() has run
+ */
+function staticSnapshot(up: boolean): HealthSnapshot {
+  return {
+    state: up ? 'healthy' : 'unhealthy',
+    circuit: 'closed',
+    latency: null,
+    errorRate: 0,
+    samples: 0,
+    lastProbeAt: null,
+    lastError: null
+  };
+}
+
+/**
+ * Copy of a platform safe to hand to callers: server environment values
+ * (API keys expanded from ${ENV}) are replaced, their names kept
+ */
+function redactPlatform(platform: MCPConnection): MCPConnection {
+  if (!platform.server?.env) return { ...platform };
+  const env = Object.fromEntries(Object.keys(platform.server.env).map(name => [name, '[redacted]']));
+  return { ...platform, server: { ...platform.server, env } };
+}
+
 // ============================================================================
 // FACTORY & EXPORTS
 // ============================================================================
@@ -751,7 +1835,24 @@ export function createStephanieAI(config?: Partial<StephanieConfig>): StephanieA
     ensName: config?.ensName || NOBLEPORT_MODULES.STEPHANIE_ENS,
     did: config?.did || NOBLEPORT_MODULES.STEPHANIE_DID,
     providerUrl: config?.providerUrl,
-    enabledPlatforms: config?.enabledPlatforms
+    ensNetwork: config?.ensNetwork,
+    enabledPlatforms: config?.enabledPlatforms,
+    mcpConfig: config?.mcpConfig,
+    mcpConfigPath: config?.mcpConfigPath,
+    adapters: config?.adapters,
+    retryPolicy: config?.retryPolicy,
+    loadBalancer: config?.loadBalancer,
+    rateLimiter: config?.rateLimiter,
+    healthProbing: config?.healthProbing,
+    resolver: config?.resolver,
+    didResolution: config?.didResolution,
+    resolutionCache: config?.resolutionCache,
+    moduleSync: config?.moduleSync,
+    ledger: config?.ledger,
+    ledgerPath: config?.ledgerPath,
+    resultValidationRetries: config?.resultValidationRetries,
+    confidence: config?.confidence,
+    didAuthKey: config?.didAuthKey
   });
 }
 
@@ -0,0 +1,256 @@
+/**
+ * Task Ledger & Audit Trail
+ *
+ * Append-only record of every task Stephanie.ai executes. Each entry is
+ * chained to its predecessor by SHA-256 hash, so any edit, deletion or
+ * reordering of past entries is detectable with `verify()`. Backs the
+ * `audit-trails` capability of the OPERATIONS_MONITOR module.
+ */
+
+import { ethers } from 'ethers';
+import type { AITaskRequest, TaskAttempt } from './stephanieAI';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TaskLedgerEntry {
+  /** 0-based position in the ledger */
+  sequence: number;
+  taskId: string;
+  taskType: AITaskRequest['taskType'];
+  priority: AITaskRequest['priority'];
+  /** orchestration.taskRouting entry used for the task */
+  route: string;
+  /** NoblePort module key the task was run for, if any */
+  module: string | null;
+  callerDid: string;
+  /** Platform that produced the result; null when no platform succeeded */
+  platform: string | null;
+  status: 'success' | 'failed';
+  request: AITaskRequest;
+  result: unknown;
+  citations: string[];
+  attempts: TaskAttempt[];
+  /** SHA-256 of the prompt messages sent to the platform */
+  promptHash: string;
+  /** SHA-256 of the canonical JSON result; null for failed tasks */
+  resultHash: string | null;
+  estimatedTokens: number;
+  error: string | null;
+  startedAt: string;
+  completedAt: string;
+  processingTime: number;
+  /** Hash of the previous entry (zero hash for the first entry) */
+  previousHash: string;
+  /** SHA-256 over every other field of this entry */
+  hash: string;
+}
+
+/** Entry fields supplied by the caller; the ledger fills in the rest */
+export type TaskLedgerRecord = Omit<TaskLedgerEntry, 'sequence' | 'resultHash' | 'previousHash' | 'hash'>;
+
+export interface TaskLedgerQuery {
+  taskType?: AITaskRequest['taskType'];
+  module?: string;
+  platform?: string;
+  status?: TaskLedgerEntry['status'];
+  callerDid?: string;
+  /** Inclusive lower bound on startedAt */
+  from?: Date | string;
+  /** Exclusive upper bound on startedAt */
+  to?: Date | string;
+  /** Return at most this many entries (newest last) */
+  limit?: number;
+}
+
+export interface LedgerVerification {
+  valid: boolean;
+  entries: number;
+  /** Sequence of the first entry that fails verification */
+  brokenAt?: number;
+  reason?: string;
+}
+
+/**
+ * Persistence for ledger entries. Stores only ever append.
+ */
+export interface TaskLedgerStore {
+  append(entry: TaskLedgerEntry): Promise<void>;
+  load(): Promise<TaskLedgerEntry[]>;
+}
+
+// ============================================================================
+// HASHING
+// ============================================================================
+
+export const GENESIS_HASH = ethers.ZeroHash;
+
+/**
+ * JSON with object keys sorted at every level, so equal values always
+ * serialize (and hash) identically
+ */
+export function canonicalJson(value: unknown): string {
+  const normalized = value === undefined ? null : JSON.parse(JSON.stringify(value));
+  const sort = (v: unknown): unknown => {
+    if (Array.isArray(v)) return v.map(sort);
+    if (v && typeof v === 'object') {
+      return Object.fromEntries(
+        Object.keys(v as Record<string, unknown>).sort().map(k => [k, sort((v as Record<string, unknown>)[k])])
+      );
+    }
+    return v;
+  };
+  return JSON.stringify(sort(normalized));
+}
+
+export function hashValue(value: unknown): string {
+  return ethers.sha256(ethers.toUtf8Bytes(canonicalJson(value)));
+}
+
+function hashEntry(entry: Omit<TaskLedgerEntry, 'hash'>): string {
+  return hashValue(entry);
+}
+
+/**
+ * Collision-free task id
+ *
+ * @example
+ * createTaskId(); // 'task_3b241101-e2bb-4255-8caf-4136c566a962'
+ */
+export function createTaskId(): string {
+  return `task_${crypto.randomUUID()}`;
+}
+
+// ============================================================================
+// STORES
+// ============================================================================
+
+export class MemoryLedgerStore implements TaskLedgerStore {
+  private entries: TaskLedgerEntry[] = [];
+
+  async append(entry: TaskLedgerEntry): Promise<void> {
+    this.entries.push(entry);
+  }
+
+  async load(): Promise<TaskLedgerEntry[]> {
+    return [...this.entries];
+  }
+}
+
+/**
+ * One JSON entry per line, appended with O_APPEND (Node.js only)
+ */
+export class JsonlFileLedgerStore implements TaskLedgerStore {
+  constructor(private readonly path: string) {}
+
+  async append(entry: TaskLedgerEntry): Promise<void> {
+    const { appendFile } = await import(/* webpackIgnore: true */ 'node:fs/promises');
+    await appendFile(this.path, JSON.stringify(entry) + '\n', 'utf8');
+  }
+
+  async load(): Promise<TaskLedgerEntry[]> {
+    const { readFile } = await import(/* webpackIgnore: true */ 'node:fs/promises');
+    let text: string;
+    try {
+      text = await readFile(this.path, 'utf8');
+    } catch (e: unknown) {
+      if ((e as { code?: string }).code === 'ENOENT') return [];
+      throw e;
+    }
+    return text.split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+  }
+}
+
+// ============================================================================
+// LEDGER
+// ============================================================================
+
+export class TaskLedger {
+  private entries: TaskLedgerEntry[] | null = null;
+  private tail: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly store: TaskLedgerStore = new MemoryLedgerStore()) {}
+
+  /**
+   * Append a task record, chaining it to the current head
+   *
+   * @returns The stored entry, including its sequence and hash
+   */
+  append(record: TaskLedgerRecord): Promise<TaskLedgerEntry> {
+    // Serialize appends so concurrent tasks cannot fork the chain
+    const next = this.tail.then(async () => {
+      const entries = await this.load();
+      const previous = entries[entries.length - 1];
+      const unsigned: Omit<TaskLedgerEntry, 'hash'> = JSON.parse(JSON.stringify({
+        ...record,
+        sequence: entries.length,
+        resultHash: record.status === 'success' ? hashValue(record.result) : null,
+        previousHash: previous?.hash ?? GENESIS_HASH
+      }));
+      const entry: TaskLedgerEntry = { ...unsigned, hash: hashEntry(unsigned) };
+
+      await this.store.append(entry);
+      entries.push(entry);
+      return entry;
+    });
+    this.tail = next.catch(() => undefined);
+    return next;
+  }
+
+  async get(taskId: string): Promise<TaskLedgerEntry | undefined> {
+    const entry = (await this.load()).find(e => e.taskId === taskId);
+    return entry && structuredClone(entry);
+  }
+
+  /**
+   * Entries matching every given filter, oldest first. Entries are copies,
+   * so callers cannot alter the recorded history.
+   *
+   * @example
+   * await ledger.query({ module: 'COMPLIANCE_ENGINE', from: '2025-01-01', to: '2025-04-01' });
+   */
+  async query(filter: TaskLedgerQuery = {}): Promise<TaskLedgerEntry[]> {
+    const from = filter.from === undefined ? -Infinity : new Date(filter.from).getTime();
+    const to = filter.to === undefined ? Infinity : new Date(filter.to).getTime();
+
+    const matches = (await this.load()).filter(e => {
+      const startedAt = new Date(e.startedAt).getTime();
+      return (filter.taskType === undefined || e.taskType === filter.taskType) &&
+        (filter.module === undefined || e.module === filter.module) &&
+        (filter.platform === undefined || e.platform === filter.platform) &&
+        (filter.status === undefined || e.status === filter.status) &&
+        (filter.callerDid === undefined || e.callerDid === filter.callerDid) &&
+        startedAt >= from && startedAt < to;
+    });
+
+    const limited = filter.limit === undefined ? matches : filter.limit <= 0 ? [] : matches.slice(-filter.limit);
+    return limited.map(entry => structuredClone(entry));
+  }
+
+  /**
+   * Re-read the store and check every sequence number, hash and chain link
+   */
+  async verify(): Promise<LedgerVerification> {
+    const entries = await this.store.load();
+
+    for (const [index, entry] of entries.entries()) {
+      const { hash, ...unsigned } = entry;
+      const expectedPrevious = index === 0 ? GENESIS_HASH : entries[index - 1].hash;
+
+      let reason: string | undefined;
+      if (entry.sequence !== index) reason = `expected sequence ${index}, found ${entry.sequence}`;
+      else if (entry.previousHash !== expectedPrevious) reason = 'previousHash does not match the preceding entry';
+      else if (hashEntry(unsigned) !== hash) reason = 'entry hash does not match its contents';
+
+      if (reason) return { valid: false, entries: entries.length, brokenAt: index, reason };
+    }
+
+    return { valid: true, entries: entries.length };
+  }
+
+  private async load(): Promise<TaskLedgerEntry[]> {
+    if (!this.entries) this.entries = await this.store.load();
+    return this.entries;
+  }
+}
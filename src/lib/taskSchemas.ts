@@ -0,0 +1,235 @@
+/**
+ * Task Schemas
+ *
+ * Request context and result schemas for each `taskType`. Contexts are
+ * validated before dispatch; model output is parsed and validated against
+ * the result schema so the convenience methods on StephanieAI can return
+ * typed results instead of `unknown`.
+ */
+
+import {
+  Infer,
+  SchemaIssue,
+  ValidationResult,
+  Validator,
+  array,
+  boolean,
+  number,
+  object,
+  oneOf,
+  optional,
+  record,
+  string,
+  unknownValue,
+  validate
+} from './schema';
+import type { AITaskRequest, AITaskResponse } from './stephanieAI';
+
+// ============================================================================
+// RESULT SCHEMAS
+// ============================================================================
+
+export const FINDING_SEVERITIES = ['info', 'low', 'medium', 'high', 'critical'] as const;
+
+export type FindingSeverity = typeof FINDING_SEVERITIES[number];
+
+const weight = () => number({ min: 0, max: 1 });
+
+const portfolioAnalysisSchema = object({
+  summary: string({ minLength: 1 }),
+  /** 0 (lowest) to 100 (highest) */
+  riskScore: number({ min: 0, max: 100 }),
+  allocations: array(object({
+    asset: string({ minLength: 1 }),
+    currentWeight: weight(),
+    targetWeight: optional(weight())
+  })),
+  recommendations: array(object({
+    action: oneOf(['buy', 'sell', 'hold', 'rebalance'] as const),
+    asset: string({ minLength: 1 }),
+    rationale: string()
+  })),
+  metrics: optional(record(number()))
+});
+
+const marketPredictionSchema = object({
+  horizon: string({ minLength: 1 }),
+  outlook: oneOf(['bullish', 'neutral', 'bearish'] as const),
+  predictions: array(object({
+    metric: string({ minLength: 1 }),
+    value: number(),
+    low: optional(number()),
+    high: optional(number())
+  })),
+  drivers: array(string())
+});
+
+const investorReportSchema = object({
+  title: string({ minLength: 1 }),
+  period: string({ minLength: 1 }),
+  summary: string({ minLength: 1 }),
+  sections: array(object({
+    heading: string({ minLength: 1 }),
+    body: string()
+  }), { minLength: 1 }),
+  disclosures: array(string())
+});
+
+const investorCommunicationSchema = object({
+  subject: string({ minLength: 1 }),
+  body: string({ minLength: 1 }),
+  channel: optional(oneOf(['email', 'portal', 'sms'] as const))
+});
+
+const complianceFindingSchema = object({
+  severity: oneOf(FINDING_SEVERITIES),
+  rule: string({ minLength: 1 }),
+  description: string({ minLength: 1 }),
+  location: optional(string()),
+  recommendation: optional(string())
+});
+
+const complianceReviewSchema = object({
+  compliant: boolean(),
+  summary: string({ minLength: 1 }),
+  findings: array(complianceFindingSchema)
+});
+
+export type PortfolioAnalysis = Infer<typeof portfolioAnalysisSchema>;
+export type MarketPrediction = Infer<typeof marketPredictionSchema>;
+export type InvestorReport = Infer<typeof investorReportSchema>;
+export type InvestorCommunication = Infer<typeof investorCommunicationSchema>;
+export type ComplianceFinding = Infer<typeof complianceFindingSchema>;
+export type ComplianceReview = Infer<typeof complianceReviewSchema>;
+
+// ============================================================================
+// TASK SCHEMA REGISTRY
+// ============================================================================
+
+interface TaskSchema<C, R> {
+  context: Validator<C>;
+  result: Validator<R>;
+  /** Result shape described to the model in the system prompt */
+  format: string;
+}
+
+function taskSchema<C, R>(schema: TaskSchema<C, R>): TaskSchema<C, R> {
+  return schema;
+}
+
+export const TASK_SCHEMAS = {
+  analysis: taskSchema({
+    context: object({ portfolioData: unknownValue() }),
+    result: portfolioAnalysisSchema,
+    format: '{"summary": string, "riskScore": 0-100, "allocations": [{"asset": string, "currentWeight": 0-1, "targetWeight"?: 0-1}], ' +
+      '"recommendations": [{"action": "buy"|"sell"|"hold"|"rebalance", "asset": string, "rationale": string}], "metrics"?: {[name]: number}}'
+  }),
+  prediction: taskSchema({
+    context: object({ marketData: unknownValue() }),
+    result: marketPredictionSchema,
+    format: '{"horizon": string, "outlook": "bullish"|"neutral"|"bearish", ' +
+      '"predictions": [{"metric": string, "value": number, "low"?: number, "high"?: number}], "drivers": [string]}'
+  }),
+  generation: taskSchema({
+    context: object({ investorId: string({ minLength: 1 }), period: string({ minLength: 1 }) }),
+    result: investorReportSchema,
+    format: '{"title": string, "period": string, "summary": string, "sections": [{"heading": string, "body": string}], "disclosures": [string]}'
+  }),
+  communication: taskSchema({
+    context: object({ audience: string({ minLength: 1 }), topic: string({ minLength: 1 }) }),
+    result: investorCommunicationSchema,
+    format: '{"subject": string, "body": string, "channel"?: "email"|"portal"|"sms"}'
+  }),
+  compliance: taskSchema({
+    context: object({ documentData: unknownValue() }),
+    result: complianceReviewSchema,
+    format: '{"compliant": boolean, "summary": string, "findings": [{"severity": "info"|"low"|"medium"|"high"|"critical", ' +
+      '"rule": string, "description": string, "location"?: string, "recommendation"?: string}]}'
+  })
+};
+
+export type TaskType = AITaskRequest['taskType'];
+
+type Schemas = typeof TASK_SCHEMAS;
+
+export type TaskContext<T extends TaskType> = Infer<Schemas[T]['context']>;
+
+export type TaskResult<T extends TaskType> = Infer<Schemas[T]['result']>;
+
+/**
+ * AITaskRequest whose context is typed by its taskType
+ */
+export type TypedTaskRequest<T extends TaskType = TaskType> = {
+  [K in T]: Omit<AITaskRequest, 'taskType' | 'context'> & { taskType: K; context: TaskContext<K> };
+}[T];
+
+export type TypedTaskResponse<T extends TaskType = TaskType> = Omit<AITaskResponse, 'result'> & {
+  result: TaskResult<T>;
+};
+
+/**
+ * Raised when a task context, or the model's result after every repair
+ * attempt, does not match the task schema
+ */
+export class TaskValidationError extends Error {
+  readonly issues: SchemaIssue[];
+  /** Last response whose result failed validation, if any */
+  readonly response?: AITaskResponse;
+
+  constructor(message: string, issues: SchemaIssue[], response?: AITaskResponse) {
+    super(message);
+    this.name = 'TaskValidationError';
+    this.issues = issues;
+    this.response = response;
+  }
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Pull a JSON value out of model text: bare JSON, a ```json fenced block,
+ * or the outermost {...} span
+ *
+ * @returns The parsed value, or undefined when no JSON could be parsed
+ */
+export function extractJson(text: string): unknown {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(text);
+  const candidates = [text.trim()];
+  if (fenced) candidates.push(fenced[1].trim());
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start >= 0 && end > start) candidates.push(text.slice(start, end + 1));
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // try the next candidate
+    }
+  }
+  return undefined;
+}
+
+export function validateTaskContext<T extends TaskType>(taskType: T, context: unknown): ValidationResult<TaskContext<T>> {
+  return validate(TASK_SCHEMAS[taskType].context as Validator<TaskContext<T>>, context, '$.context');
+}
+
+/**
+ * Validate a platform result (already-parsed JSON or raw model text)
+ */
+export function parseTaskResult<T extends TaskType>(taskType: T, output: unknown): ValidationResult<TaskResult<T>> {
+  const value = typeof output === 'string' ? extractJson(output) : output;
+  if (value === undefined) {
+    return { ok: false, value: undefined, issues: [{ path: '$.result', message: 'response is not valid JSON' }] };
+  }
+  return validate(TASK_SCHEMAS[taskType].result as Validator<TaskResult<T>>, value, '$.result');
+}
+
+/**
+ * Prompt line describing the expected result shape for a task type
+ */
+export function describeTaskResult(taskType: TaskType): string {
+  return `Respond with a single JSON object of the form ${TASK_SCHEMAS[taskType].format}.`;
+}
@@ -0,0 +1,116 @@
+/**
+ * ENS Issuer Trust Chain
+ *
+ * A did:ens issuer is trusted through the ENS hierarchy: only the owner of
+ * nobleport.eth can create identity.nobleport.eth, so every registered
+ * name between an issuer and the root is a delegation from the root.
+ *
+ *   did:ens:kyc.identity.nobleport.eth
+ *     -> did:ens:identity.nobleport.eth
+ *       -> did:ens:nobleport.eth            (root)
+ *
+ * The chain is anchored when every name up to the root is registered and
+ * resolves to a DID document. Each link also shows whether the name is
+ * still controlled by its parent's owner; a subname handed to another
+ * account can change its own keys without the root.
+ */
+
+import type { DIDResolutionResult } from 'did-resolver';
+import { parseDid } from './didResolvers';
+import { EnsMulticallOptions, readEnsRegistry } from './ensMulticall';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TrustChainLink {
+  name: string;
+  did: string;
+  /** Effective owner (the NameWrapper token owner for wrapped names); null when unregistered */
+  owner: string | null;
+  wrapped: boolean;
+  /** The DID resolved to a document */
+  resolved: boolean;
+  /** Owned by the parent name's owner (null for the root) */
+  sameOwnerAsParent: boolean | null;
+}
+
+export interface TrustChain {
+  did: string;
+  root: string;
+  /** Issuer first, root last; empty when the DID is not under the root */
+  links: TrustChainLink[];
+  /** Every name up to the root is registered and resolves */
+  anchored: boolean;
+  /** Why the chain is not anchored */
+  reason?: string;
+}
+
+export interface TrustChainOptions extends Omit<EnsMulticallOptions, 'onFailure'> {
+  resolve: (did: string) => Promise<DIDResolutionResult>;
+  /** Default: 'nobleport.eth' */
+  root?: string;
+}
+
+// ============================================================================
+// CHAIN
+// ============================================================================
+
+/**
+ * Walk from a did:ens issuer up to the root name
+ *
+ * @example
+ * const chain = await getTrustChain('did:ens:identity.nobleport.eth', { provider, resolve });
+ * chain.links.map(link => link.name); // ['identity.nobleport.eth', 'nobleport.eth']
+ * chain.anchored; // true
+ */
+export async function getTrustChain(did: string, options: TrustChainOptions): Promise<TrustChain> {
+  const root = options.root ?? 'nobleport.eth';
+  const unanchored = (reason: string): TrustChain => ({ did, root, links: [], anchored: false, reason });
+
+  const parsed = parseDid(did);
+  if (parsed?.method !== 'ens') return unanchored(`${did} is not a did:ens DID`);
+
+  // Keep a network prefix (did:ens:sepolia:name.eth) on every DID in the chain
+  const segments = parsed.id.split(':');
+  const name = segments.pop()!.toLowerCase();
+  const prefix = segments.length ? `${segments.join(':')}:` : '';
+  if (name !== root && !name.endsWith(`.${root}`)) return unanchored(`${name} is not under ${root}`);
+
+  const names: string[] = [];
+  for (let current = name; ; current = current.slice(current.indexOf('.') + 1)) {
+    names.push(current);
+    if (current === root) break;
+  }
+
+  const [entries, resolutions] = await Promise.all([
+    readEnsRegistry(names, options),
+    Promise.all(names.map(chainName => options.resolve(`did:ens:${prefix}${chainName}`)
+      .then(result => Boolean(result.didDocument))
+      .catch(() => false)))
+  ]);
+
+  const links = names.map((chainName, i): TrustChainLink => {
+    const entry = entries[chainName];
+    const parent = names[i + 1] ? entries[names[i + 1]] : null;
+    return {
+      name: chainName,
+      did: `did:ens:${prefix}${chainName}`,
+      owner: entry.owner,
+      wrapped: Boolean(entry.wrapper),
+      resolved: resolutions[i],
+      sameOwnerAsParent: parent
+        ? Boolean(entry.owner && parent.owner && entry.owner.toLowerCase() === parent.owner.toLowerCase())
+        : null
+    };
+  });
+
+  const broken = links.find(link => !link.owner || !link.resolved);
+  return {
+    did,
+    root,
+    links,
+    anchored: !broken,
+    ...(broken && { reason: `${broken.name} ${broken.owner ? 'does not resolve to a DID document' : 'is not registered'}` })
+  };
+}